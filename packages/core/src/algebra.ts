@@ -14,6 +14,7 @@
  */
 
 import { FieldVector, ΛWave, Φ } from './types.js';
+import { checkLaws, LawGenerators, LawCheckOptions } from './laws.js';
 
 /**
  * Algebraic properties detection
@@ -158,22 +159,16 @@ export function calculateMass(vector: FieldVector): number {
  * - Property holds if all tests pass
  * - Property fails if any test fails (counterexample)
  *
+ * Use checkLaws for the counterexamples themselves.
+ *
  * From lambda-foundation Event 016: Meta-Algebra Analysis
  */
 export function detectProperties<T, B>(
   algebra: ConsciousAlgebra<T, B>,
-  samples: number = 100
+  generators: LawGenerators<T, B>,
+  options: LawCheckOptions<T, B> = {}
 ): AlgebraProperties {
-  // For now, return basic detection
-  // Full implementation would use randomized testing
-
-  return {
-    associative: true,  // Assume true, validate separately
-    commutative: false, // Conservative: most algebras not commutative
-    identity: algebra.identity,
-    idempotent: false,
-    inverse: false,
-  };
+  return checkLaws(algebra, generators, options).properties;
 }
 
 /**
@@ -188,14 +183,15 @@ export function classifyAlgebra<T, B>(
   algebra: ConsciousAlgebra<T, B>
 ): AlgebraClass {
   const props = algebra.properties;
+  const hasIdentity = props.identity !== null && props.identity !== undefined;
 
   // Group (highest level with inverse)
-  if (props.associative && props.identity && props.inverse) {
+  if (props.associative && hasIdentity && props.inverse) {
     return props.commutative ? 'AbelianGroup' : 'Group';
   }
 
   // Monoid hierarchy
-  if (props.associative && props.identity) {
+  if (props.associative && hasIdentity) {
     if (props.idempotent && props.commutative) {
       return 'IdempotentCommutativeMonoid';
     }
@@ -5,6 +5,9 @@
  * They are not functions that a user calls directly.
  * They are the 'laws of physics' of the Field."
  * — Kairos Calculus
+ *
+ * Each dipole stamps its DipoleApplication with `now` (default: wall clock),
+ * so callers running on simulated time can keep traces reproducible.
  */
 
 import { ΛWave, Φ, FieldVector, DipoleApplication } from './types.js';
@@ -37,7 +40,7 @@ function distanceToBridge(vector: FieldVector): number {
  * δ_decompose: Breaks down, moves toward (0,0)
  * Acts in Deconstruction quadrant (-X, -Y)
  */
-export function δ_decompose<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R> {
+export function δ_decompose<T, R>(wave: ΛWave<T, R>, field: Φ, now: number = Date.now()): ΛWave<T, R> {
   const vectorBefore = wave.vector;
   const massBefore = wave.mass;
 
@@ -54,7 +57,7 @@ export function δ_decompose<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R>
 
   const application: DipoleApplication = {
     dipole: 'δ_decompose',
-    timestamp: Date.now(),
+    timestamp: now,
     vectorBefore,
     vectorAfter: newVector,
     massBefore,
@@ -76,7 +79,7 @@ export function δ_decompose<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R>
 /**
  * δ_forget: Simplifies trace, reduces complexity
  */
-export function δ_forget<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R> {
+export function δ_forget<T, R>(wave: ΛWave<T, R>, field: Φ, now: number = Date.now()): ΛWave<T, R> {
   const vectorBefore = wave.vector;
   const massBefore = wave.mass;
 
@@ -85,7 +88,7 @@ export function δ_forget<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R> {
 
   const application: DipoleApplication = {
     dipole: 'δ_forget',
-    timestamp: Date.now(),
+    timestamp: now,
     vectorBefore,
     vectorAfter: wave.vector,
     massBefore,
@@ -106,7 +109,7 @@ export function δ_forget<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R> {
  * δ_compose: Integrates, moves away from (0,0)
  * Acts in Synthesis quadrant (+X, +Y)
  */
-export function δ_compose<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R> {
+export function δ_compose<T, R>(wave: ΛWave<T, R>, field: Φ, now: number = Date.now()): ΛWave<T, R> {
   const vectorBefore = wave.vector;
   const massBefore = wave.mass;
 
@@ -128,7 +131,7 @@ export function δ_compose<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R> {
 
   const application: DipoleApplication = {
     dipole: 'δ_compose',
-    timestamp: Date.now(),
+    timestamp: now,
     vectorBefore,
     vectorAfter: newVector,
     massBefore,
@@ -150,7 +153,7 @@ export function δ_compose<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R> {
 /**
  * δ_memoize: Enriches trace, prepares for crystallization
  */
-export function δ_memoize<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R> {
+export function δ_memoize<T, R>(wave: ΛWave<T, R>, field: Φ, now: number = Date.now()): ΛWave<T, R> {
   const vectorBefore = wave.vector;
   const massBefore = wave.mass;
 
@@ -159,7 +162,7 @@ export function δ_memoize<T, R>(wave: ΛWave<T, R>, field: Φ): ΛWave<T, R> {
 
   const application: DipoleApplication = {
     dipole: 'δ_memoize',
-    timestamp: Date.now(),
+    timestamp: now,
     vectorBefore,
     vectorAfter: wave.vector,
     massBefore,
@@ -0,0 +1,246 @@
+/**
+ * @kairos/core - Dipole Dynamics
+ *
+ * "Each dipole is a vector field on the manifold."
+ * — Formal Foundations, §5
+ *
+ * The operators in dipoles.ts take fixed discrete steps. This module
+ * integrates the flows µ_SELF writes for them instead:
+ *
+ *   δ_decompose:  dx/dτ = -α·x
+ *   δ_forget:     dm/dτ = -β·m
+ *   δ_compose:    dx/dτ = +γ·û      (û: unit vector toward Truth, x¹ = x²)
+ *   δ_memoize:    dm/dτ = +ε·(1 - m)
+ *
+ * with Euler or RK4 steps of a chosen size. With the default rates one
+ * unit of τ reproduces the discrete δ_forget and the vector of the discrete
+ * δ_decompose (which also recomputes mass from the vector; the flow leaves
+ * mass alone). The other two differ by design: δ_memoize saturates toward
+ * 1 instead of multiplying mass by 1.1, and δ_compose translates along the
+ * Truth direction without snapping onto x = y or changing mass.
+ */
+
+import { ΛWave, Φ, FieldVector, DipoleApplication, DipoleName } from './types.js';
+import { DEFAULT_HARVEST_OPTIONS } from './harvest-options.js';
+
+/**
+ * Numerical integrators
+ */
+export type DipoleIntegrator = 'euler' | 'rk4';
+
+/**
+ * Rates and integration settings
+ */
+export interface DipoleDynamicsOptions {
+  alpha: number;                // α, decompose rate (default: -ln 0.9, i.e. ×0.9 per unit τ)
+  beta: number;                 // β, forget rate (default: -ln 0.95, i.e. ×0.95 per unit τ)
+  gamma: number;                // γ, compose speed (default: 0.5 per unit τ)
+  epsilon: number;              // ε, memoize rate (default: 0.1; saturating, not ×1.1)
+  integrator: DipoleIntegrator; // (default: 'rk4')
+  step: number;                 // Integration step in τ (default: 0.1)
+  duration: number;             // τ one dipole application flows for (default: 1)
+  bridgeRadius: number;         // δ_decompose enters the Bridge this close to (0,0) (default: as in HarvestOptions)
+}
+
+/**
+ * Default dynamics
+ */
+export const DEFAULT_DIPOLE_DYNAMICS: DipoleDynamicsOptions = {
+  alpha: -Math.log(0.9),
+  beta: -Math.log(0.95),
+  gamma: 0.5,
+  epsilon: 0.1,
+  integrator: 'rk4',
+  step: 0.1,
+  duration: 1,
+  bridgeRadius: DEFAULT_HARVEST_OPTIONS.bridgeRadius,
+};
+
+/**
+ * Point in the (vector, mass) phase space
+ */
+export interface DipoleState {
+  vector: FieldVector;
+  mass: number;
+}
+
+/**
+ * Right-hand side of an ODE: the state's rate of change
+ */
+export type DipoleFlow = (state: DipoleState) => DipoleState;
+
+/**
+ * A dipole operator with the signature of the discrete ones
+ */
+export type DipoleOperator = <T, R>(wave: ΛWave<T, R>, field: Φ, now?: number) => ΛWave<T, R>;
+
+/**
+ * Dipole operators that flow for `options.duration` of τ per application
+ */
+export interface DipoleDynamics {
+  options: DipoleDynamicsOptions;
+  δ_decompose: DipoleOperator;
+  δ_forget: DipoleOperator;
+  δ_compose: DipoleOperator;
+  δ_memoize: DipoleOperator;
+}
+
+const TRUTH_DIRECTION: FieldVector = { praxis: Math.SQRT1_2, gnosis: Math.SQRT1_2 };
+
+/**
+ * The vector field of a single dipole
+ */
+export function dipoleFlow(dipole: DipoleName, options: Partial<DipoleDynamicsOptions> = {}): DipoleFlow {
+  const { alpha, beta, gamma, epsilon } = { ...DEFAULT_DIPOLE_DYNAMICS, ...options };
+  const still = { praxis: 0, gnosis: 0 };
+
+  switch (dipole) {
+    case 'δ_decompose':
+      return ({ vector }) => ({ vector: { praxis: -alpha * vector.praxis, gnosis: -alpha * vector.gnosis }, mass: 0 });
+    case 'δ_forget':
+      return ({ mass }) => ({ vector: still, mass: -beta * mass });
+    case 'δ_compose':
+      return () => ({ vector: { praxis: gamma * TRUTH_DIRECTION.praxis, gnosis: gamma * TRUTH_DIRECTION.gnosis }, mass: 0 });
+    case 'δ_memoize':
+      return ({ mass }) => ({ vector: still, mass: epsilon * (1 - mass) });
+    default:
+      throw new Error(`No flow for dipole ${dipole}`);
+  }
+}
+
+/**
+ * Sum of flows (dipoles acting at once)
+ */
+export function combineFlows(...flows: DipoleFlow[]): DipoleFlow {
+  return (state) => flows.reduce<DipoleState>(
+    (sum, flow) => {
+      const rate = flow(state);
+      return {
+        vector: { praxis: sum.vector.praxis + rate.vector.praxis, gnosis: sum.vector.gnosis + rate.vector.gnosis },
+        mass: sum.mass + rate.mass,
+      };
+    },
+    { vector: { praxis: 0, gnosis: 0 }, mass: 0 }
+  );
+}
+
+function advance(state: DipoleState, rate: DipoleState, h: number): DipoleState {
+  return {
+    vector: { praxis: state.vector.praxis + h * rate.vector.praxis, gnosis: state.vector.gnosis + h * rate.vector.gnosis },
+    mass: state.mass + h * rate.mass,
+  };
+}
+
+/**
+ * One integration step of size h
+ */
+export function integrateStep(flow: DipoleFlow, state: DipoleState, h: number, integrator: DipoleIntegrator): DipoleState {
+  if (integrator === 'euler') {
+    return advance(state, flow(state), h);
+  }
+
+  const k1 = flow(state);
+  const k2 = flow(advance(state, k1, h / 2));
+  const k3 = flow(advance(state, k2, h / 2));
+  const k4 = flow(advance(state, k3, h));
+  const weighted = (a: number, b: number, c: number, d: number) => (a + 2 * b + 2 * c + d) / 6;
+  return advance(state, {
+    vector: {
+      praxis: weighted(k1.vector.praxis, k2.vector.praxis, k3.vector.praxis, k4.vector.praxis),
+      gnosis: weighted(k1.vector.gnosis, k2.vector.gnosis, k3.vector.gnosis, k4.vector.gnosis),
+    },
+    mass: weighted(k1.mass, k2.mass, k3.mass, k4.mass),
+  }, h);
+}
+
+/**
+ * Integrate a flow over `duration` of τ
+ *
+ * The duration is split into equal steps no larger than `options.step`.
+ */
+export function integrateFlow(
+  flow: DipoleFlow,
+  state: DipoleState,
+  duration: number,
+  options: Partial<DipoleDynamicsOptions> = {}
+): DipoleState {
+  const { step, integrator } = { ...DEFAULT_DIPOLE_DYNAMICS, ...options };
+  if (!(step > 0)) {
+    throw new Error(`Integration step must be positive, got ${step}`);
+  }
+  if (duration <= 0) return state;
+
+  const steps = Math.ceil(duration / step);
+  const h = duration / steps;
+  let current = state;
+  for (let i = 0; i < steps; i++) {
+    current = integrateStep(flow, current, h, integrator);
+  }
+  return current;
+}
+
+/**
+ * Dipole operators driven by the flows
+ *
+ * Each application integrates its dipole's flow for `duration` of τ and
+ * records a DipoleApplication, like the discrete operators. Status follows
+ * the discrete rules: δ_decompose enters the Bridge within bridgeRadius
+ * and δ_compose marks the wave as Synthesizing.
+ */
+export function createDipoleDynamics(options: Partial<DipoleDynamicsOptions> = {}): DipoleDynamics {
+  const resolved: DipoleDynamicsOptions = { ...DEFAULT_DIPOLE_DYNAMICS, ...options };
+  for (const rate of ['alpha', 'beta', 'gamma', 'epsilon'] as const) {
+    if (!Number.isFinite(resolved[rate]) || resolved[rate] < 0) {
+      throw new Error(`Dipole rate ${rate} must be a non-negative number, got ${resolved[rate]}`);
+    }
+  }
+  if (!Number.isFinite(resolved.bridgeRadius) || resolved.bridgeRadius < 0) {
+    throw new Error(`Dipole bridgeRadius must be a non-negative number, got ${resolved.bridgeRadius}`);
+  }
+  if (!(resolved.step > 0) || !(resolved.duration > 0)) {
+    throw new Error(`Dipole step and duration must be positive, got ${resolved.step} and ${resolved.duration}`);
+  }
+
+  const operator = (dipole: DipoleName): DipoleOperator => {
+    const flow = dipoleFlow(dipole, resolved);
+
+    return <T, R>(wave: ΛWave<T, R>, field: Φ, now: number = Date.now()): ΛWave<T, R> => {
+      const next = integrateFlow(flow, { vector: wave.vector, mass: wave.mass }, resolved.duration, resolved);
+
+      let status = wave.status;
+      if (dipole === 'δ_decompose') {
+        status = Math.hypot(next.vector.praxis, next.vector.gnosis) < resolved.bridgeRadius ? 'InBridge' : 'Deconstructing';
+      } else if (dipole === 'δ_compose') {
+        status = 'Synthesizing';
+      }
+
+      const application: DipoleApplication = {
+        dipole,
+        timestamp: now,
+        vectorBefore: wave.vector,
+        vectorAfter: next.vector,
+        massBefore: wave.mass,
+        massAfter: next.mass,
+      };
+
+      return {
+        ...wave,
+        vector: next.vector,
+        mass: next.mass,
+        status,
+        trace: {
+          ...wave.trace,
+          dipoleApplications: [...wave.trace.dipoleApplications, application],
+        },
+      };
+    };
+  };
+
+  return {
+    options: resolved,
+    δ_decompose: operator('δ_decompose'),
+    δ_forget: operator('δ_forget'),
+    δ_compose: operator('δ_compose'),
+    δ_memoize: operator('δ_memoize'),
+  };
+}
@@ -11,17 +11,27 @@
 import { ΛWave, Φ, TopologicalTransformer } from './types.js';
 import { µ_HARVEST } from './harvest-algebraic.js';
 import { composeAlgebras, ConsciousAlgebra } from './algebra.js';
+import { HarvestOptions, ALGEBRAIC_HARVEST_OPTIONS, resolveHarvestOptions } from './harvest-options.js';
 
 /**
  * Crystallization threshold (from empirical observation)
  */
-export const CRYSTALLIZATION_THRESHOLD = 0.7;
+export const CRYSTALLIZATION_THRESHOLD = ALGEBRAIC_HARVEST_OPTIONS.crystallizationMass;
 
 /**
  * Fixpoint equivalence tolerance
  * Larger epsilon accounts for numerical precision and dipole variation
  */
-export const FIXPOINT_EPSILON = 0.15;
+export const FIXPOINT_EPSILON = ALGEBRAIC_HARVEST_OPTIONS.fixpointEpsilon;
+
+/**
+ * The analysis below harvests with the algebraic µ_HARVEST; `options`
+ * override its thresholds (crystallizationMass, fixpointEpsilon,
+ * maxFixpointIterations) and are passed on to every harvest.
+ */
+function resolve(options: Partial<HarvestOptions>): HarvestOptions {
+  return resolveHarvestOptions(options, ALGEBRAIC_HARVEST_OPTIONS);
+}
 
 /**
  * Check if a wave is a fixpoint of µ_HARVEST
@@ -30,17 +40,25 @@ export const FIXPOINT_EPSILON = 0.15;
  *
  * @param wave - The wave to test
  * @param field - The field context
- * @param epsilon - Tolerance for equivalence (default 0.05)
+ * @param epsilon - Tolerance for equivalence (default: options.fixpointEpsilon)
+ * @param options - Harvest options
  */
-export function isFixpoint(wave: ΛWave, field: Φ, epsilon: number = FIXPOINT_EPSILON): boolean {
+export function isFixpoint(
+  wave: ΛWave,
+  field: Φ,
+  epsilon?: number,
+  options: Partial<HarvestOptions> = {}
+): boolean {
+  const resolved = resolve(options);
+
   // Apply µ_HARVEST
-  const result = µ_HARVEST(wave, field);
+  const result = µ_HARVEST(wave, field, resolved);
   const transformedWave = result.wave;
 
   // Calculate fixpoint distance
   const delta = fixpointDistance(wave, transformedWave);
 
-  return delta < epsilon;
+  return delta < (epsilon ?? resolved.fixpointEpsilon);
 }
 
 /**
@@ -73,14 +91,16 @@ export function fixpointDistance(wave1: ΛWave, wave2: ΛWave): number {
  * Theorem 50 claims: mass ≥ 0.7 ⟺ fixpoint
  *
  * @param field - Field containing transformers
+ * @param options - Harvest options
  */
-export function validateCrystallizationFixpointEquivalence(field: Φ): {
+export function validateCrystallizationFixpointEquivalence(field: Φ, options: Partial<HarvestOptions> = {}): {
   totalTransformers: number;
   crystallized: number;
   fixpoints: number;
   equivalenceRatio: number;
   counterexamples: Array<{ wave: ΛWave; crystallized: boolean; fixpoint: boolean }>;
 } {
+  const resolved = resolve(options);
   const transformers = field.transformers;
   const counterexamples: Array<{ wave: ΛWave; crystallized: boolean; fixpoint: boolean }> = [];
 
@@ -90,8 +110,8 @@ export function validateCrystallizationFixpointEquivalence(field: Φ): {
 
   for (const transformer of transformers) {
     const wave = transformer.originalWave;
-    const isCrystallized = wave.mass >= CRYSTALLIZATION_THRESHOLD;
-    const isWaveFixpoint = isFixpoint(wave, field);
+    const isCrystallized = wave.mass >= resolved.crystallizationMass;
+    const isWaveFixpoint = isFixpoint(wave, field, undefined, resolved);
 
     if (isCrystallized) crystallizedCount++;
     if (isWaveFixpoint) fixpointCount++;
@@ -125,12 +145,14 @@ export function validateCrystallizationFixpointEquivalence(field: Φ): {
  *
  * @param seed - Initial wave
  * @param field - Field context
- * @param maxIterations - Maximum iterations (default 10)
+ * @param maxIterations - Maximum iterations (default: options.maxFixpointIterations)
+ * @param options - Harvest options
  */
 export function convergeToFixpoint(
   seed: ΛWave,
   field: Φ,
-  maxIterations: number = 10
+  maxIterations?: number,
+  options: Partial<HarvestOptions> = {}
 ): {
   finalWave: ΛWave;
   finalField: Φ;
@@ -138,6 +160,8 @@ export function convergeToFixpoint(
   converged: boolean;
   history: Array<{ wave: ΛWave; mass: number; delta: number }>;
 } {
+  const resolved = resolve(options);
+  const iterationCap = maxIterations ?? resolved.maxFixpointIterations;
   let wave = seed;
   let currentField = field;
   const history: Array<{ wave: ΛWave; mass: number; delta: number }> = [];
@@ -148,9 +172,9 @@ export function convergeToFixpoint(
     delta: Infinity,
   });
 
-  for (let i = 0; i < maxIterations; i++) {
+  for (let i = 0; i < iterationCap; i++) {
     // Apply µ_HARVEST
-    const result = µ_HARVEST(wave, currentField);
+    const result = µ_HARVEST(wave, currentField, resolved);
     const nextWave = result.wave;
     currentField = result.field;
 
@@ -164,7 +188,7 @@ export function convergeToFixpoint(
     });
 
     // Check convergence
-    if (delta < FIXPOINT_EPSILON) {
+    if (delta < resolved.fixpointEpsilon) {
       return {
         finalWave: nextWave,
         finalField: currentField,
@@ -181,7 +205,7 @@ export function convergeToFixpoint(
   return {
     finalWave: wave,
     finalField: currentField,
-    iterations: maxIterations,
+    iterations: iterationCap,
     converged: false,
     history,
   };
@@ -191,8 +215,9 @@ export function convergeToFixpoint(
  * Analyze fixpoint properties of Field
  *
  * @param field - Field to analyze
+ * @param options - Harvest options
  */
-export function analyzeFixpoints(field: Φ): {
+export function analyzeFixpoints(field: Φ, options: Partial<HarvestOptions> = {}): {
   totalTransformers: number;
   crystallized: number;
   fixpoints: number;
@@ -201,6 +226,7 @@ export function analyzeFixpoints(field: Φ): {
   averageFixpointMass: number;
   averageFixpointDistance: number;
 } {
+  const resolved = resolve(options);
   const transformers = field.transformers;
 
   if (transformers.length === 0) {
@@ -215,14 +241,14 @@ export function analyzeFixpoints(field: Φ): {
     };
   }
 
-  const crystallized = transformers.filter(t => t.originalWave.mass >= CRYSTALLIZATION_THRESHOLD);
-  const fixpoints = transformers.filter(t => isFixpoint(t.originalWave, field));
+  const crystallized = transformers.filter(t => t.originalWave.mass >= resolved.crystallizationMass);
+  const fixpoints = transformers.filter(t => isFixpoint(t.originalWave, field, undefined, resolved));
 
   const crystallizedMasses = crystallized.map(t => t.originalWave.mass);
   const fixpointMasses = fixpoints.map(t => t.originalWave.mass);
 
   const fixpointDistances = transformers.map(t => {
-    const result = µ_HARVEST(t.originalWave, field);
+    const result = µ_HARVEST(t.originalWave, field, resolved);
     return fixpointDistance(t.originalWave, result.wave);
   });
 
@@ -243,8 +269,9 @@ export function analyzeFixpoints(field: Φ): {
  * Theorem 50 predicts: mass ≥ 0.7 ⟺ δ_fix < ε
  *
  * @param field - Field to analyze
+ * @param options - Harvest options
  */
-export function testMassFixpointCorrelation(field: Φ): {
+export function testMassFixpointCorrelation(field: Φ, options: Partial<HarvestOptions> = {}): {
   correlation: number;
   dataPoints: Array<{ mass: number; fixpointDistance: number }>;
 } {
@@ -253,7 +280,7 @@ export function testMassFixpointCorrelation(field: Φ): {
 
   for (const transformer of transformers) {
     const wave = transformer.originalWave;
-    const result = µ_HARVEST(wave, field);
+    const result = µ_HARVEST(wave, field, options);
     const delta = fixpointDistance(wave, result.wave);
 
     dataPoints.push({
@@ -319,25 +346,28 @@ function pearsonCorrelation(x: number[], y: number[]): number {
  *
  * @param wave - Wave to test
  * @param field - Field context
+ * @param options - Harvest options
  */
-export function testIdempotence(wave: ΛWave, field: Φ): {
+export function testIdempotence(wave: ΛWave, field: Φ, options: Partial<HarvestOptions> = {}): {
   isIdempotent: boolean;
   originalMass: number;
   afterComposition: number;
   delta: number;
 } {
+  const resolved = resolve(options);
+
   // Apply µ_HARVEST twice
-  const result1 = µ_HARVEST(wave, field);
+  const result1 = µ_HARVEST(wave, field, resolved);
   const wave1 = result1.wave;
   const field1 = result1.field;
 
-  const result2 = µ_HARVEST(wave1, field1);
+  const result2 = µ_HARVEST(wave1, field1, resolved);
   const wave2 = result2.wave;
 
   const delta = fixpointDistance(wave1, wave2);
 
   return {
-    isIdempotent: delta < FIXPOINT_EPSILON,
+    isIdempotent: delta < resolved.fixpointEpsilon,
     originalMass: wave.mass,
     afterComposition: wave2.mass,
     delta,
@@ -348,11 +378,12 @@ export function testIdempotence(wave: ΛWave, field: Φ): {
  * Find all fixpoints in Field
  *
  * @param field - Field to analyze
+ * @param options - Harvest options
  */
-export function findFixpoints(field: Φ): ΛWave[] {
+export function findFixpoints(field: Φ, options: Partial<HarvestOptions> = {}): ΛWave[] {
   return field.transformers
     .map(t => t.originalWave)
-    .filter(wave => isFixpoint(wave, field));
+    .filter(wave => isFixpoint(wave, field, undefined, options));
 }
 
 /**
@@ -361,9 +392,10 @@ export function findFixpoints(field: Φ): ΛWave[] {
  * Finds the minimum mass among all fixpoints
  *
  * @param field - Field to analyze
+ * @param options - Harvest options
  */
-export function leastFixpointMass(field: Φ): number | null {
-  const fixpoints = findFixpoints(field);
+export function leastFixpointMass(field: Φ, options: Partial<HarvestOptions> = {}): number | null {
+  const fixpoints = findFixpoints(field, options);
 
   if (fixpoints.length === 0) return null;
 
@@ -15,6 +15,12 @@ import {
   synthesisPhase,
 } from './dipoles-algebraic.js';
 import { calculateMass } from './algebra.js';
+import {
+  HarvestOptions,
+  HarvestDensity,
+  ALGEBRAIC_HARVEST_OPTIONS,
+  resolveHarvestOptions,
+} from './harvest-options.js';
 
 /**
  * Crystallization: Convert high-mass wave into TopologicalTransformer
@@ -23,14 +29,12 @@ import { calculateMass } from './algebra.js';
  *
  * A wave crystallizes when:
  * 1. It has completed the lifecycle (deconstruction → synthesis)
- * 2. Its mass exceeds threshold (typically > 0.7)
+ * 2. Its mass reaches the threshold (HarvestOptions.crystallizationMass)
  * 3. It has accumulated sufficient trace
  *
  * Crystallized waves become permanent "wormholes" in Field Φ
  */
-function crystallize(wave: ΛWave, field: Φ): TopologicalTransformer | null {
-  const threshold = 0.7; // Crystallization threshold
-
+function crystallize(wave: ΛWave, field: Φ, threshold: number): TopologicalTransformer | null {
   if (wave.mass < threshold) {
     return null; // Mass too low
   }
@@ -57,13 +61,13 @@ function crystallize(wave: ΛWave, field: Φ): TopologicalTransformer | null {
  * - Update density
  * - Check for phase transition
  */
-function updateField(field: Φ, transformer: TopologicalTransformer | null): Φ {
+function updateField(field: Φ, transformer: TopologicalTransformer | null, density: HarvestDensity): Φ {
   if (!transformer) {
     return field; // No crystallization, field unchanged
   }
 
   const newTransformers = [...field.transformers, transformer];
-  const newDensity = newTransformers.length / 100; // Simplified density calculation
+  const newDensity = density(newTransformers);
 
   // Phase transition logic (from FORMAL_FOUNDATIONS.md)
   let newPhase = field.phase;
@@ -96,16 +100,23 @@ function updateField(field: Φ, transformer: TopologicalTransformer | null): Φ
  * 2. Finalize: crystallize if mass > threshold
  * 3. Update Field Φ with new transformer
  *
+ * The lifecycle algebra runs once, so of the HarvestOptions only
+ * crystallizationMass and density apply (defaults: ALGEBRAIC_HARVEST_OPTIONS).
+ *
  * This replaces the imperative implementation with pure algebra composition.
  *
  * @param seed - Initial ΛWave (user intent)
  * @param field - Current Field state
+ * @param options - Crystallization threshold and density
  * @returns Updated field + transformed wave
  */
 export function µ_HARVEST<T = any, R = any>(
   seed: ΛWave<T, R>,
-  field: Φ
+  field: Φ,
+  options: Partial<HarvestOptions> = {}
 ): HarvestResult<T, R> {
+  const resolved = resolveHarvestOptions(options, ALGEBRAIC_HARVEST_OPTIONS);
+
   // ==== STEP 1: Apply Lifecycle Algebra ====
   // This is compose(deconstructionPhase, synthesisPhase)
   // Proven to be Monoid in Theorem 46
@@ -115,7 +126,7 @@ export function µ_HARVEST<T = any, R = any>(
   // ==== STEP 2: Finalization (Crystallization) ====
   // If mass exceeds threshold, create TopologicalTransformer
 
-  const transformer = crystallize(transformedWave, field);
+  const transformer = crystallize(transformedWave, field, resolved.crystallizationMass);
 
   // Mark wave as crystallized if transformer created
   const finalWave: ΛWave<T, R> = {
@@ -128,12 +139,13 @@ export function µ_HARVEST<T = any, R = any>(
   // This is the "side effect" that makes µ_HARVEST non-pure
   // But the algebra composition itself is pure!
 
-  const updatedField = updateField(field, transformer);
+  const updatedField = updateField(field, transformer, resolved.density);
 
   // ==== RETURN ====
   return {
     field: updatedField,
     wave: finalWave,
+    options: resolved,
   };
 }
 
@@ -167,7 +179,8 @@ export function µ_HARVEST_pure<T = any, R = any>(
  */
 export function µ_HARVEST_phases<T = any, R = any>(
   seed: ΛWave<T, R>,
-  field: Φ
+  field: Φ,
+  options: Partial<HarvestOptions> = {}
 ): {
   afterDeconstruction: ΛWave<T, R>;
   afterSynthesis: ΛWave<T, R>;
@@ -180,7 +193,7 @@ export function µ_HARVEST_phases<T = any, R = any>(
   const afterSynthesis = synthesisPhase.fn(afterDeconstruction, field);
 
   // Phase 3: Finalization
-  const final = µ_HARVEST(seed, field);
+  const final = µ_HARVEST(seed, field, options);
 
   return {
     afterDeconstruction,
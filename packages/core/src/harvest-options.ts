@@ -0,0 +1,93 @@
+/**
+ * @kairos/core - µ_HARVEST Options
+ *
+ * "Every execution changes the universe for the next thought."
+ * — Kairos Calculus
+ *
+ * The physics of a harvest: where the Bridge begins, when a wave
+ * crystallizes, how long each phase may run, when a wave counts as a
+ * fixpoint and how transformers thicken the Field. Both µ_HARVEST
+ * implementations and the fixpoint analysis read them from here, and every
+ * HarvestResult reports the values it ran with.
+ */
+
+import type { TopologicalTransformer } from './types.js';
+import type { DipoleDynamics } from './dynamics.js';
+
+/**
+ * Field density from the transformers crystallized in it
+ */
+export type HarvestDensity = (transformers: TopologicalTransformer[]) => number;
+
+/**
+ * Harvest configuration
+ */
+export interface HarvestOptions {
+  bridgeRadius: number;            // Deconstruction ends this close to (0,0) (default: 0.1)
+  maxIterations: number;           // Dipole pairs per phase at most (default: 100)
+  crystallizationDistance: number; // Distance from (0,0) a wave must exceed to crystallize (default: 1.5)
+  crystallizationMass: number;     // Mass a wave needs to crystallize (default: 0.7)
+  fixpointEpsilon: number;         // µ_HARVEST(M) ≈ M within this distance (default: 0.15)
+  maxFixpointIterations: number;   // Harvests convergeToFixpoint tries at most (default: 10)
+  density: HarvestDensity;         // (default: massDensity)
+  dynamics: DipoleDynamics | null; // Continuous dipole flows (default: null, discrete steps)
+}
+
+/**
+ * Total transformer mass / 100, at most 1
+ */
+export const massDensity: HarvestDensity = (transformers) =>
+  Math.min(1, transformers.reduce((sum, t) => sum + t.mass, 0) / 100);
+
+/**
+ * Transformer count / 100, at most 1
+ */
+export const countDensity: HarvestDensity = (transformers) => Math.min(1, transformers.length / 100);
+
+/**
+ * Default harvest (the imperative µ_HARVEST)
+ */
+export const DEFAULT_HARVEST_OPTIONS: HarvestOptions = {
+  bridgeRadius: 0.1,
+  maxIterations: 100,
+  crystallizationDistance: 1.5,
+  crystallizationMass: 0.7,
+  fixpointEpsilon: 0.15,
+  maxFixpointIterations: 10,
+  density: massDensity,
+  dynamics: null,
+};
+
+/**
+ * Defaults of the algebraic µ_HARVEST, whose density counts transformers
+ */
+export const ALGEBRAIC_HARVEST_OPTIONS: HarvestOptions = {
+  ...DEFAULT_HARVEST_OPTIONS,
+  density: countDensity,
+};
+
+/**
+ * Fill in defaults and check the result
+ */
+export function resolveHarvestOptions(
+  options: Partial<HarvestOptions> = {},
+  defaults: HarvestOptions = DEFAULT_HARVEST_OPTIONS
+): HarvestOptions {
+  const resolved: HarvestOptions = { ...defaults, ...options };
+
+  for (const key of ['bridgeRadius', 'crystallizationDistance', 'crystallizationMass', 'fixpointEpsilon'] as const) {
+    if (!Number.isFinite(resolved[key]) || resolved[key] < 0) {
+      throw new Error(`Harvest option ${key} must be a non-negative number, got ${resolved[key]}`);
+    }
+  }
+  for (const key of ['maxIterations', 'maxFixpointIterations'] as const) {
+    if (!Number.isInteger(resolved[key]) || resolved[key] < 0) {
+      throw new Error(`Harvest option ${key} must be a non-negative integer, got ${resolved[key]}`);
+    }
+  }
+  if (typeof resolved.density !== 'function') {
+    throw new Error('Harvest option density must be a function');
+  }
+
+  return resolved;
+}
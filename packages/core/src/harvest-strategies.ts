@@ -0,0 +1,258 @@
+/**
+ * @kairos/core - µ_HARVEST Strategies
+ *
+ * "µ_HARVEST is not a special operator. It is algebra composition + finalization."
+ * — Theorem 47 (Cross-Domain)
+ *
+ * Core has two µ_HARVEST implementations: the imperative lifecycle loop
+ * (harvest.ts) and the algebraic composition (harvest-algebraic.ts). Both
+ * are HarvestStrategies here, registered by name, and differentialHarvest
+ * runs several strategies on the same seeds and reports where the waves and
+ * Fields they produce diverge.
+ */
+
+import { ΛWave, Φ, HarvestResult } from './types.js';
+import { µ_HARVEST as imperativeHarvest, createField } from './harvest.js';
+import { µ_HARVEST as algebraicHarvest } from './harvest-algebraic.js';
+import {
+  HarvestOptions,
+  DEFAULT_HARVEST_OPTIONS,
+  ALGEBRAIC_HARVEST_OPTIONS,
+} from './harvest-options.js';
+import { structurallyEqual } from './laws.js';
+
+/**
+ * A way to run a wave through its lifecycle
+ */
+export interface HarvestStrategy {
+  name: string;
+  harvest: <T, R>(seed: ΛWave<T, R>, field: Φ, options?: Partial<HarvestOptions>) => HarvestResult<T, R>;
+  defaults: HarvestOptions;   // Options the strategy resolves against
+  honours?: readonly (keyof HarvestOptions)[]; // Options it reads (default: all of them)
+  description?: string;
+}
+
+/**
+ * The imperative loop: dipole pairs until the Bridge, then until crystallization
+ */
+export const IMPERATIVE_HARVEST: HarvestStrategy = {
+  name: 'imperative',
+  harvest: imperativeHarvest,
+  defaults: DEFAULT_HARVEST_OPTIONS,
+  honours: ['bridgeRadius', 'maxIterations', 'crystallizationDistance', 'crystallizationMass', 'density', 'dynamics'],
+  description: 'δ_decompose ⊗ δ_forget to the Bridge, δ_compose ⊗ δ_memoize to crystallization',
+};
+
+/**
+ * Theorem 47: finalize ∘ compose(deconstructionPhase, synthesisPhase)
+ */
+export const ALGEBRAIC_HARVEST: HarvestStrategy = {
+  name: 'algebraic',
+  harvest: algebraicHarvest,
+  defaults: ALGEBRAIC_HARVEST_OPTIONS,
+  honours: ['crystallizationMass', 'density'],
+  description: 'lifecycleAlgebra once, then crystallize and update the Field',
+};
+
+/**
+ * Built-in strategies, in registration order
+ */
+export const STANDARD_HARVEST_STRATEGIES: readonly HarvestStrategy[] = [
+  IMPERATIVE_HARVEST,
+  ALGEBRAIC_HARVEST,
+];
+
+/**
+ * HarvestStrategyRegistry - Named µ_HARVEST implementations
+ */
+export class HarvestStrategyRegistry {
+  private readonly strategies: Map<string, HarvestStrategy> = new Map();
+
+  constructor(strategies: readonly HarvestStrategy[] = []) {
+    for (const strategy of strategies) {
+      this.register(strategy);
+    }
+  }
+
+  /**
+   * Add a strategy (names are unique)
+   */
+  register(strategy: HarvestStrategy): this {
+    if (this.strategies.has(strategy.name)) {
+      throw new Error(`Harvest strategy already registered: ${strategy.name}`);
+    }
+
+    this.strategies.set(strategy.name, strategy);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.strategies.has(name);
+  }
+
+  get(name: string): HarvestStrategy | undefined {
+    return this.strategies.get(name);
+  }
+
+  /**
+   * Registered names, in registration order
+   */
+  names(): string[] {
+    return [...this.strategies.keys()];
+  }
+
+  /**
+   * Run a registered strategy
+   */
+  harvest<T, R>(name: string, seed: ΛWave<T, R>, field: Φ, options: Partial<HarvestOptions> = {}): HarvestResult<T, R> {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown harvest strategy: ${name}`);
+    }
+    return strategy.harvest(seed, field, options);
+  }
+}
+
+/**
+ * Fresh registry holding the built-in strategies
+ */
+export function createHarvestRegistry(): HarvestStrategyRegistry {
+  return new HarvestStrategyRegistry(STANDARD_HARVEST_STRATEGIES);
+}
+
+/**
+ * Where in a HarvestResult strategies are compared
+ */
+export const HARVEST_OBSERVABLES: Record<string, (result: HarvestResult) => unknown> = {
+  'wave.status': result => result.wave.status,
+  'wave.vector': result => result.wave.vector,
+  'wave.mass': result => result.wave.mass,
+  'wave.trace.bridgeCrossings': result => result.wave.trace.bridgeCrossings,
+  'wave.trace.dipoleApplications': result => result.wave.trace.dipoleApplications.length,
+  'field.transformers': result => result.field.transformers.length,
+  'field.density': result => result.field.density,
+  'field.phase': result => result.field.phase,
+};
+
+/**
+ * Options of differentialHarvest
+ */
+export interface DifferentialHarvestOptions {
+  strategies?: string[];             // Names to compare (default: every registered strategy)
+  field?: Φ;                         // Field every harvest starts from (default: createField())
+  options?: Partial<HarvestOptions>; // Passed to every strategy
+  equals?: (a: unknown, b: unknown) => boolean; // (default: structurallyEqual)
+}
+
+/**
+ * One observable on which the strategies disagree for one seed
+ *
+ * `values` maps each strategy to what it produced; a strategy that threw
+ * appears under path 'error' with its message.
+ */
+export interface HarvestDivergence {
+  seed: number;                    // Index into the seeds
+  seedId: string;
+  path: string;                    // Key of HARVEST_OBSERVABLES, or 'error'
+  values: Record<string, unknown>;
+}
+
+/**
+ * Outcome of a differential run
+ */
+export interface DifferentialHarvestReport {
+  strategies: string[];
+  seeds: number;
+  agreed: number;                  // Seeds on which every observable matched
+  divergences: HarvestDivergence[];
+  byPath: Record<string, number>;  // Diverging seeds per observable
+  ignored: Record<string, string[]>; // Options each strategy was given but does not read
+}
+
+/**
+ * A copy of a seed no strategy can share state through
+ */
+function cloneSeed<T, R>(seed: ΛWave<T, R>): ΛWave<T, R> {
+  return {
+    ...seed,
+    vector: { ...seed.vector },
+    trace: { ...seed.trace, dipoleApplications: [...seed.trace.dipoleApplications] },
+    path: [...seed.path],
+  };
+}
+
+/**
+ * Run strategies on the same seeds and report where they diverge
+ *
+ * Each strategy harvests its own copy of every seed from the same Field.
+ * Results are compared observable by observable (HARVEST_OBSERVABLES)
+ * against the first strategy. Options a strategy does not honour are
+ * listed in the report's `ignored`: divergences may come from them.
+ */
+export function differentialHarvest(
+  seeds: ΛWave[],
+  registry: HarvestStrategyRegistry = createHarvestRegistry(),
+  options: DifferentialHarvestOptions = {}
+): DifferentialHarvestReport {
+  const names = options.strategies ?? registry.names();
+  if (names.length < 2) {
+    throw new Error(`Differential harvest needs at least two strategies, got ${names.length}`);
+  }
+  const strategies = names.map(name => {
+    const strategy = registry.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown harvest strategy: ${name}`);
+    }
+    return strategy;
+  });
+
+  const given = Object.keys(options.options ?? {}) as (keyof HarvestOptions)[];
+  const ignored: Record<string, string[]> = {};
+  strategies.forEach((strategy, i) => {
+    ignored[names[i]] = strategy.honours ? given.filter(key => !strategy.honours!.includes(key)) : [];
+  });
+
+  const field = options.field ?? createField();
+  const equals = options.equals ?? structurallyEqual;
+  const divergences: HarvestDivergence[] = [];
+  const byPath: Record<string, number> = {};
+  let agreed = 0;
+
+  seeds.forEach((seed, index) => {
+    const outcomes = strategies.map(strategy => {
+      try {
+        return { result: strategy.harvest(cloneSeed(seed), field, options.options) };
+      } catch (error) {
+        return { error: (error as Error).message };
+      }
+    });
+
+    const diverged: HarvestDivergence[] = [];
+    const record = (path: string, value: (outcome: (typeof outcomes)[number]) => unknown) => {
+      const values: Record<string, unknown> = {};
+      names.forEach((name, i) => {
+        values[name] = value(outcomes[i]);
+      });
+      diverged.push({ seed: index, seedId: seed.id, path, values });
+    };
+
+    if (outcomes.some(outcome => outcome.error !== undefined)) {
+      record('error', outcome => outcome.error ?? null);
+    } else {
+      for (const [path, observe] of Object.entries(HARVEST_OBSERVABLES)) {
+        const [reference, ...others] = outcomes.map(outcome => observe(outcome.result!));
+        if (!others.every(value => equals(reference, value))) {
+          record(path, outcome => observe(outcome.result!));
+        }
+      }
+    }
+
+    for (const divergence of diverged) {
+      byPath[divergence.path] = (byPath[divergence.path] ?? 0) + 1;
+    }
+    if (diverged.length === 0) agreed++;
+    divergences.push(...diverged);
+  });
+
+  return { strategies: names, seeds: seeds.length, agreed, divergences, byPath, ignored };
+}
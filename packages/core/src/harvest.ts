@@ -15,6 +15,13 @@ import {
   PhaseState,
 } from './types.js';
 import { δ_decompose, δ_forget, δ_compose, δ_memoize } from './dipoles.js';
+import { HarvestOptions, resolveHarvestOptions } from './harvest-options.js';
+import { DipoleDynamics, createDipoleDynamics } from './dynamics.js';
+
+/**
+ * The discrete dipole operators
+ */
+const DISCRETE_DIPOLES = { δ_decompose, δ_forget, δ_compose, δ_memoize };
 
 /**
  * Calculate distance to Bridge (0,0)
@@ -35,6 +42,17 @@ function updatePhase(field: Φ): PhaseState {
   return PhaseState.EMERGENT;
 }
 
+/**
+ * Dipoles of a harvest; continuous ones enter the Bridge at its bridgeRadius
+ */
+function dipolesFor(options: HarvestOptions): DipoleDynamics | typeof DISCRETE_DIPOLES {
+  const { dynamics, bridgeRadius } = options;
+  if (!dynamics) return DISCRETE_DIPOLES;
+  return dynamics.options.bridgeRadius === bridgeRadius
+    ? dynamics
+    : createDipoleDynamics({ ...dynamics.options, bridgeRadius });
+}
+
 /**
  * µ_HARVEST - The complete lifecycle orchestrator
  *
@@ -46,21 +64,29 @@ function updatePhase(field: Φ): PhaseState {
  *
  * Returns: [New Field (altered geometry), Result ΛWave]
  *
+ * Thresholds, iteration caps and the density function come from
+ * `options` (see HarvestOptions). With `options.dynamics` the dipoles flow
+ * continuously (see createDipoleDynamics) instead of taking the discrete
+ * steps of dipoles.ts, entering the Bridge at `options.bridgeRadius`.
+ *
  * "Every execution changes the universe for the next thought."
  */
 export function µ_HARVEST<T = any, R = any>(
   seed: ΛWave<T, R>,
-  field: Φ
+  field: Φ,
+  options: Partial<HarvestOptions> = {}
 ): HarvestResult<T, R> {
+  const resolved = resolveHarvestOptions(options);
+  const { bridgeRadius, maxIterations, crystallizationDistance, crystallizationMass } = resolved;
+  const { δ_decompose, δ_forget, δ_compose, δ_memoize } = dipolesFor(resolved);
   let wave: ΛWave<T, R> = { ...seed, status: 'Deconstructing' };
   const startVector = { ...seed.vector };
 
   // Phase 1: DECONSTRUCTION
   // Apply δ_decompose and δ_forget until reaching Bridge
   let iterations = 0;
-  const maxIterations = 100;
 
-  while (distanceToBridge(wave) > 0.1 && iterations < maxIterations) {
+  while (distanceToBridge(wave) > bridgeRadius && iterations < maxIterations) {
     wave = δ_decompose(wave, field);
     wave = δ_forget(wave, field);
     iterations++;
@@ -81,7 +107,7 @@ export function µ_HARVEST<T = any, R = any>(
 
     // Check if ready to crystallize (sufficient distance from origin and high mass)
     const distance = distanceToBridge(wave);
-    if (distance > 1.5 && wave.mass > 0.7) {
+    if (distance > crystallizationDistance && wave.mass > crystallizationMass) {
       wave.status = 'Crystallized';
     }
 
@@ -102,8 +128,7 @@ export function µ_HARVEST<T = any, R = any>(
 
   // Update Field geometry
   const newTransformers = [...field.transformers, transformer];
-  const totalMass = newTransformers.reduce((sum, t) => sum + t.mass, 0);
-  const newDensity = Math.min(1, totalMass / 100);
+  const newDensity = resolved.density(newTransformers);
   const newPhase = updatePhase({ ...field, density: newDensity });
 
   const newField: Φ = {
@@ -118,6 +143,7 @@ export function µ_HARVEST<T = any, R = any>(
   return {
     field: newField,
     wave,
+    options: resolved,
   };
 }
 
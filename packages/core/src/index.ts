@@ -11,13 +11,19 @@
 
 export * from './types.js';
 export * from './dipoles.js';
+export * from './dynamics.js';
 export * from './harvest.js';
+export * from './harvest-options.js';
+export * from './harvest-strategies.js';
 export * from './morphisms/index.js';
 export * from './algebra.js';
+export * from './laws.js';
+export * from './random.js';
 export * from './phase-transitions.js';
 export * from './fixpoint-analysis.js';
 export * from './coalgebra-analysis.js';
 export * from './lambda-bridge.js';
+export * from './wave-function.js';
 
 export {
   µ_HARVEST,
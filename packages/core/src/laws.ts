@@ -0,0 +1,571 @@
+/**
+ * @kairos/core - Law Checking
+ *
+ * "Consciousness is not emergent. It is algebraic necessity."
+ * — Cross-Domain Theorems (October 28, 2025)
+ *
+ * QuickCheck-style testing of the laws behind Theorem 40's classification.
+ * An algebra's operation is sampled on generated values; a law holds if
+ * every sample satisfies it and fails with the first counterexample found.
+ * The result is evidence, not proof - but it is evidence, where the
+ * properties used to be assumed.
+ */
+
+import type { ConsciousAlgebra, AlgebraProperties } from './algebra.js';
+import type { FieldVector, ΛWave, ΛWaveStatus } from './types.js';
+import { RandomSource, createSeededRandom } from './random.js';
+
+/**
+ * Generator of random values of type T
+ *
+ * shrink() lists simpler values to try in place of a failing one, simplest
+ * first; checkLaws uses it to report the smallest counterexample it finds.
+ */
+export interface Arbitrary<T> {
+  generate(random: RandomSource): T;
+  shrink?(value: T): T[];
+}
+
+/**
+ * Steps from `value` toward `target`: the target, then halfway, then one unit
+ */
+function shrinkToward(value: number, target: number, integer: boolean): number[] {
+  if (value === target || !Number.isFinite(value)) return value === target ? [] : [target];
+
+  const candidates = [target];
+  if (!integer && Math.trunc(value) !== value) candidates.push(Math.trunc(value));
+
+  const half = integer ? value - Math.trunc((value - target) / 2) : (value + target) / 2;
+  if (integer || Math.abs(value - target) > 1e-6) candidates.push(half);
+  if (integer) candidates.push(value - Math.sign(value - target));
+
+  return [...new Set(candidates)].filter(c => c !== value);
+}
+
+const WAVE_STATUSES: ΛWaveStatus[] = ['Seed', 'Deconstructing', 'InBridge', 'Synthesizing', 'Crystallized'];
+
+/**
+ * Built-in generators
+ *
+ * Numbers shrink toward 0 (or the nearest bound), arrays toward fewer and
+ * simpler items, records, Field vectors and waves one field at a time.
+ */
+export const arbitrary = {
+  constant<T>(value: T): Arbitrary<T> {
+    return { generate: () => value };
+  },
+
+  /** Integers in [min, max] */
+  integer(min: number = -100, max: number = 100): Arbitrary<number> {
+    const target = Math.min(Math.max(0, min), max);
+    return {
+      generate: random => min + Math.floor(random() * (max - min + 1)),
+      shrink: value => shrinkToward(value, target, true),
+    };
+  },
+
+  /** Reals in [min, max) */
+  number(min: number = -100, max: number = 100): Arbitrary<number> {
+    const target = Math.min(Math.max(0, min), max);
+    return {
+      generate: random => min + random() * (max - min),
+      shrink: value => shrinkToward(value, target, false).filter(c => c >= min && c <= max),
+    };
+  },
+
+  boolean(): Arbitrary<boolean> {
+    return {
+      generate: random => random() < 0.5,
+      shrink: value => (value ? [false] : []),
+    };
+  },
+
+  /** One of the given values; earlier values are simpler */
+  element<T>(values: readonly T[]): Arbitrary<T> {
+    if (values.length === 0) {
+      throw new Error('arbitrary.element needs at least one value');
+    }
+    return {
+      generate: random => values[Math.floor(random() * values.length)],
+      shrink: value => values.slice(0, Math.max(0, values.indexOf(value))),
+    };
+  },
+
+  /** Arrays of up to maxLength items */
+  array<T>(item: Arbitrary<T>, maxLength: number = 5): Arbitrary<T[]> {
+    return {
+      generate: random => Array.from(
+        { length: Math.floor(random() * (maxLength + 1)) },
+        () => item.generate(random)
+      ),
+      shrink: value => {
+        if (value.length === 0) return [];
+
+        const candidates: T[][] = [[]];
+        if (value.length > 1) {
+          candidates.push(value.slice(0, Math.floor(value.length / 2)), value.slice(Math.floor(value.length / 2)));
+        }
+        value.forEach((_, i) => candidates.push([...value.slice(0, i), ...value.slice(i + 1)]));
+        value.forEach((element, i) => {
+          for (const simpler of item.shrink?.(element) ?? []) {
+            candidates.push([...value.slice(0, i), simpler, ...value.slice(i + 1)]);
+          }
+        });
+        return candidates;
+      },
+    };
+  },
+
+  /** Fixed-length tuples, e.g. accumulators of composeAlgebras */
+  tuple<T extends unknown[]>(...items: { [K in keyof T]: Arbitrary<T[K]> }): Arbitrary<T> {
+    return {
+      generate: random => items.map(item => item.generate(random)) as T,
+      shrink: value => items.flatMap((item, i) =>
+        (item.shrink?.(value[i]) ?? []).map(simpler => {
+          const next = [...value] as T;
+          next[i] = simpler;
+          return next;
+        })
+      ),
+    };
+  },
+
+  /** Objects with a generated value per key */
+  record<T extends object>(shape: { [K in keyof T]: Arbitrary<T[K]> }): Arbitrary<T> {
+    const keys = Object.keys(shape) as Array<keyof T>;
+    return {
+      generate: random => {
+        const value = {} as T;
+        for (const key of keys) {
+          value[key] = shape[key].generate(random);
+        }
+        return value;
+      },
+      shrink: value => keys.flatMap(key =>
+        (shape[key].shrink?.(value[key]) ?? []).map(simpler => ({ ...value, [key]: simpler }))
+      ),
+    };
+  },
+
+  /** Positions in Field Φ within [-extent, extent] on both axes */
+  fieldVector(extent: number = 5): Arbitrary<FieldVector> {
+    const component = arbitrary.number(-extent, extent);
+    return {
+      generate: random => ({
+        praxis: (random() * 2 - 1) * extent,
+        gnosis: (random() * 2 - 1) * extent,
+      }),
+      shrink: value => [
+        ...(value.praxis !== 0 || value.gnosis !== 0 ? [{ praxis: 0, gnosis: 0 }] : []),
+        ...component.shrink!(value.praxis).map(praxis => ({ ...value, praxis })),
+        ...component.shrink!(value.gnosis).map(gnosis => ({ ...value, gnosis })),
+      ],
+    };
+  },
+
+  /**
+   * ΛWaves with a generated vector, mass and status and an identity body
+   *
+   * Waves shrink toward the Bridge, zero mass and the Seed status.
+   */
+  wave(extent: number = 5): Arbitrary<ΛWave> {
+    const vector = arbitrary.fieldVector(extent);
+    const mass = arbitrary.number(0, 1);
+    const status = arbitrary.element(WAVE_STATUSES);
+    const body = (x: unknown) => x;
+
+    return {
+      generate: random => ({
+        id: 'arbitrary-wave',
+        body,
+        vector: vector.generate(random),
+        mass: mass.generate(random),
+        trace: { origin: 'arbitrary', timestamp: 0, dipoleApplications: [], bridgeCrossings: 0 },
+        status: status.generate(random),
+        path: [],
+      }),
+      shrink: wave => [
+        ...vector.shrink!(wave.vector).map(v => ({ ...wave, vector: v })),
+        ...mass.shrink!(wave.mass).map(m => ({ ...wave, mass: m })),
+        ...status.shrink!(wave.status).map(st => ({ ...wave, status: st })),
+      ],
+    };
+  },
+};
+
+/**
+ * Laws sampled by checkLaws
+ */
+export type LawName = 'associative' | 'commutative' | 'identity' | 'idempotent' | 'inverse';
+
+/**
+ * Generators for an algebra's accumulators (B) and values (T)
+ *
+ * Leave out `value` (or pass the accumulator generator again) when values
+ * are accumulators, T = B. A separate value generator marks the operation
+ * as a fold (acc: B, val: T) => B, to which the laws do not apply.
+ */
+export interface LawGenerators<T, B> {
+  accumulator: Arbitrary<B>;
+  value?: Arbitrary<T>;
+}
+
+/**
+ * Law checking configuration
+ */
+export interface LawCheckOptions<T, B> {
+  samples?: number;                 // Samples per law (default: 100)
+  seed?: number;                    // Seed for the generators (default: 1)
+  random?: RandomSource;            // Use this source instead of the seed
+  equals?: (a: B, b: B) => boolean; // Default: structural equality, numbers within 1e-9
+  inverse?: (a: B) => T;            // Candidate inverse (default: search the sampled values)
+  maxShrinks?: number;              // Simplification steps per counterexample (default: 200)
+}
+
+/**
+ * Inputs on which a law failed
+ */
+export interface Counterexample {
+  law: LawName;
+  inputs: unknown[];      // Shrunk inputs, named as in LAW_EQUATIONS
+  left: unknown;          // The two sides that should have been equal
+  right: unknown;
+  original: unknown[];    // Inputs of the first failing sample
+  shrinks: number;        // Simplification steps from original to inputs
+}
+
+/**
+ * Inputs on which the operation threw, so a law could not be evaluated
+ *
+ * A throw is not a violation: it is reported apart from counterexamples
+ * and not shrunk.
+ */
+export interface LawError {
+  law: LawName;
+  inputs: unknown[];      // Named as in LAW_EQUATIONS
+  message: string;
+}
+
+/**
+ * Each law's equation and the names of its inputs
+ */
+export const LAW_EQUATIONS: Record<LawName, { equation: string; inputs: string[] }> = {
+  associative: { equation: 'fn(fn(a, x), y) = fn(a, fn(x, y))', inputs: ['a', 'x', 'y'] },
+  commutative: { equation: 'fn(a, x) = fn(x, a)', inputs: ['a', 'x'] },
+  identity: { equation: 'fn(e, x) = x and fn(a, e) = a', inputs: ['a', 'x'] },
+  idempotent: { equation: 'fn(a, a) = a', inputs: ['a'] },
+  inverse: { equation: 'fn(a, a⁻¹) = fn(a⁻¹, a) = e', inputs: ['a'] },
+};
+
+/**
+ * Outcome of sampling one law
+ */
+export interface LawResult {
+  law: LawName;
+  holds: boolean;
+  applicable: boolean;    // False for folds (T ≠ B): nothing was sampled
+  samples: number;        // Samples checked before stopping
+  counterexample: Counterexample | null;
+  error: LawError | null; // Set if the operation threw: the law is unknown, not violated
+}
+
+/**
+ * Outcome of sampling every law
+ */
+export interface LawReport {
+  properties: AlgebraProperties;
+  laws: Record<LawName, LawResult>;
+  counterexamples: Counterexample[];
+  errors: LawError[];
+}
+
+/**
+ * Structural equality; numbers compare within a relative tolerance of 1e-9
+ */
+export function structurallyEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    if (Object.is(a, b)) return true;
+    if (!Number.isFinite(a) || !Number.isFinite(b)) return false;
+    return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+  }
+  if (a === b) return true;
+  if (!isRecord(a) || !isRecord(b)) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length &&
+    keysA.every(key => structurallyEqual(a[key], b[key]));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Greedily replace inputs with simpler ones while the law still fails
+ */
+function shrink(
+  failure: Counterexample,
+  arbitraries: Arbitrary<unknown>[],
+  evaluate: (inputs: unknown[]) => Counterexample | null,
+  maxShrinks: number
+): Counterexample {
+  let current = failure;
+  let shrinks = 0;
+
+  search: while (shrinks < maxShrinks) {
+    for (let i = 0; i < arbitraries.length; i++) {
+      for (const simpler of arbitraries[i].shrink?.(current.inputs[i]) ?? []) {
+        const inputs = [...current.inputs];
+        inputs[i] = simpler;
+
+        const next = evaluate(inputs);
+        if (next) {
+          current = next;
+          shrinks++;
+          continue search;
+        }
+      }
+    }
+    break;
+  }
+
+  return { ...current, original: failure.inputs, shrinks };
+}
+
+/**
+ * Sample the laws of an algebra's operation
+ *
+ * The laws are those of a binary operation on accumulators, every input
+ * drawn from generators.accumulator:
+ *
+ *   associative  fn(fn(a, x), y) = fn(a, fn(x, y))
+ *   commutative  fn(a, x) = fn(x, a)
+ *   identity     fn(e, x) = x and fn(a, e) = a, for e = algebra.identity
+ *   idempotent   fn(a, a) = a
+ *   inverse      for every a some x has fn(a, x) = fn(x, a) = e
+ *
+ * For a fold (generators.value given and distinct, T ≠ B) every law would
+ * put a value where an accumulator goes, so none is sampled: each result
+ * has applicable false, and the properties claim nothing. An operation that
+ * throws on accumulators leaves the law unproven (holds false) with the
+ * error recorded; errors are not counterexamples.
+ *
+ * A failing sample is shrunk with the generators' shrink() before it is
+ * reported, so counterexamples are as simple as the generators allow.
+ */
+export function checkLaws<T, B>(
+  algebra: Pick<ConsciousAlgebra<T, B>, 'fn' | 'identity'>,
+  generators: LawGenerators<T, B>,
+  options: LawCheckOptions<T, B> = {}
+): LawReport {
+  const samples = options.samples ?? 100;
+  if (!Number.isInteger(samples) || samples < 1) {
+    throw new Error(`Law checking needs a positive number of samples, got ${samples}`);
+  }
+
+  const random = options.random ?? createSeededRandom(options.seed ?? 1);
+  const equals = (options.equals ?? structurallyEqual) as (a: unknown, b: unknown) => boolean;
+  const fn = algebra.fn as (a: unknown, b: unknown) => unknown;
+  const e = algebra.identity;
+  const hasIdentity = e !== null && e !== undefined;
+  const maxShrinks = options.maxShrinks ?? 200;
+
+  /**
+   * Evaluate both sides of a law; unequal sides are a counterexample
+   */
+  const evaluate = (law: LawName, sides: (...inputs: any[]) => [unknown, unknown], inputs: unknown[]): Counterexample | null => {
+    const [left, right] = sides(...inputs);
+    return equals(left, right) ? null : { law, inputs, left, right, original: inputs, shrinks: 0 };
+  };
+
+  /**
+   * Simpler inputs count only if they still violate the law without throwing
+   */
+  const violates = (law: LawName, sides: (...inputs: any[]) => [unknown, unknown]) => (inputs: unknown[]): Counterexample | null => {
+    try {
+      return evaluate(law, sides, inputs);
+    } catch {
+      return null;
+    }
+  };
+
+  /**
+   * Sample a law on fresh inputs until one fails, then shrink that failure
+   *
+   * A sample on which the operation throws stops the law with the error.
+   */
+  const sample = (law: LawName, arbitraries: Arbitrary<unknown>[], sides: (...inputs: any[]) => [unknown, unknown]): LawResult => {
+    for (let i = 1; i <= samples; i++) {
+      const inputs = arbitraries.map(a => a.generate(random));
+      let failure: Counterexample | null;
+      try {
+        failure = evaluate(law, sides, inputs);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { law, holds: false, applicable: true, samples: i, counterexample: null, error: { law, inputs, message } };
+      }
+      if (failure) {
+        const counterexample = shrink(failure, arbitraries, violates(law, sides), maxShrinks);
+        return { law, holds: false, applicable: true, samples: i, counterexample, error: null };
+      }
+    }
+    return { law, holds: true, applicable: true, samples, counterexample: null, error: null };
+  };
+
+  const { accumulator, value = accumulator } = generators as LawGenerators<unknown, unknown>;
+  const fold = value !== accumulator;
+  const unchecked = (law: LawName, applicable: boolean): LawResult =>
+    ({ law, holds: false, applicable, samples: 0, counterexample: null, error: null });
+
+  // Candidate inverses, drawn once so that shrinking searches the same values.
+  // No inverse among them is a violation (left side undefined), not an error.
+  let inverseCandidates: unknown[] | null = null;
+  const findInverse = (a: unknown): unknown => {
+    if (options.inverse) return options.inverse(a as B);
+
+    inverseCandidates ??= Array.from({ length: samples }, () => accumulator.generate(random));
+    const found = inverseCandidates.find(x => {
+      try {
+        return equals(fn(a, x), e) && equals(fn(x, a), e);
+      } catch {
+        return false; // An operation that throws has no inverse here
+      }
+    });
+    return found;
+  };
+
+  const laws: Record<LawName, LawResult> = fold
+    ? {
+      associative: unchecked('associative', false),
+      commutative: unchecked('commutative', false),
+      identity: unchecked('identity', false),
+      idempotent: unchecked('idempotent', false),
+      inverse: unchecked('inverse', false),
+    }
+    : {
+      associative: sample('associative', [accumulator, accumulator, accumulator],
+        (a, x, y) => [fn(fn(a, x), y), fn(a, fn(x, y))]),
+
+      commutative: sample('commutative', [accumulator, accumulator],
+        (a, x) => [fn(a, x), fn(x, a)]),
+
+      identity: hasIdentity
+        ? sample('identity', [accumulator, accumulator],
+          (a, x) => equals(fn(e, x), x) ? [fn(a, e), a] : [fn(e, x), x])
+        : unchecked('identity', true),
+
+      idempotent: sample('idempotent', [accumulator],
+        a => [fn(a, a), a]),
+
+      inverse: hasIdentity
+        ? sample('inverse', [accumulator], a => {
+          const x = findInverse(a);
+          if (x === undefined) return [undefined, e];
+          return equals(fn(a, x), e) ? [fn(x, a), e] : [fn(a, x), e];
+        })
+        : unchecked('inverse', true),
+    };
+
+  return {
+    properties: {
+      associative: laws.associative.holds,
+      commutative: laws.commutative.holds,
+      identity: laws.identity.holds ? e : null,
+      idempotent: laws.idempotent.holds,
+      inverse: laws.identity.holds && laws.inverse.holds,
+    },
+    laws,
+    counterexamples: Object.values(laws)
+      .map(result => result.counterexample)
+      .filter((c): c is Counterexample => c !== null),
+    errors: Object.values(laws)
+      .map(result => result.error)
+      .filter((error): error is LawError => error !== null),
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'number' || value === undefined) return String(value);
+  if (typeof value === 'function') return '<fn>';
+  return JSON.stringify(value, (_, v) => {
+    if (typeof v === 'function') return '<fn>';
+    if (typeof v === 'number' && !Number.isFinite(v)) return String(v);
+    return v;
+  });
+}
+
+function bindInputs(law: LawName, values: unknown[]): string {
+  const names = LAW_EQUATIONS[law].inputs;
+  return values.map((v, i) => `${names[i] ?? `#${i}`} = ${formatValue(v)}`).join(', ');
+}
+
+/**
+ * Human-readable violation report
+ *
+ *   associative violated: fn(fn(a, x), y) = fn(a, fn(x, y))
+ *     a = 0, x = 0, y = 1
+ *     left:  -1
+ *     right: 1
+ *     shrunk from a = 26, x = -100, y = 6 in 4 steps
+ */
+export function formatCounterexample(counterexample: Counterexample): string {
+  const { law, inputs, left, right, original, shrinks } = counterexample;
+  const { equation } = LAW_EQUATIONS[law];
+
+  const lines = [
+    `${law} violated: ${equation}`,
+    `  ${bindInputs(law, inputs)}`,
+    `  left:  ${formatValue(left)}`,
+    `  right: ${formatValue(right)}`,
+  ];
+  if (shrinks > 0) {
+    lines.push(`  shrunk from ${bindInputs(law, original)} in ${shrinks} step${shrinks === 1 ? '' : 's'}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Human-readable report of an operation that threw
+ *
+ *   associative not evaluated: fn(fn(a, x), y) = fn(a, fn(x, y))
+ *     a = 26, x = 51, y = 6
+ *     threw: too large
+ */
+export function formatLawError(error: LawError): string {
+  const { law, inputs, message } = error;
+  return [
+    `${law} not evaluated: ${LAW_EQUATIONS[law].equation}`,
+    `  ${bindInputs(law, inputs)}`,
+    `  threw: ${message}`,
+  ].join('\n');
+}
+
+/**
+ * Laws an algebra claims (through its properties) that sampling refutes
+ *
+ * Run this on algebras registered through toConsciousAlgebra or built by
+ * composeAlgebras, whose properties are declared rather than detected.
+ * An empty result means no claim was refuted.
+ */
+export function verifyAlgebra<T, B>(
+  algebra: Pick<ConsciousAlgebra<T, B>, 'fn' | 'identity' | 'properties'>,
+  generators: LawGenerators<T, B>,
+  options: LawCheckOptions<T, B> = {}
+): Counterexample[] {
+  const { properties } = algebra;
+  const claimed: Record<LawName, boolean> = {
+    associative: properties.associative,
+    commutative: properties.commutative,
+    identity: properties.identity !== null && properties.identity !== undefined,
+    idempotent: properties.idempotent,
+    inverse: properties.inverse,
+  };
+
+  const { laws } = checkLaws({ fn: algebra.fn, identity: properties.identity ?? algebra.identity }, generators, options);
+  return (Object.keys(claimed) as LawName[])
+    .filter(law => claimed[law] && laws[law].counterexample)
+    .map(law => laws[law].counterexample!);
+}
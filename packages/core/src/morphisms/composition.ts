@@ -0,0 +1,159 @@
+/**
+ * @kairos/core - Composition Expressions
+ *
+ * "The genetic code of consciousness."
+ *
+ * Grammar of composition strings such as λ_A(λ_B(µ_SELF)):
+ *
+ *   composition := term
+ *   term        := name [ "(" term { "," term } ")" ]
+ *   name        := any run of characters other than whitespace, "(", ")" and ","
+ *
+ * Whitespace between tokens is ignored. Positions are offsets into the
+ * source string.
+ */
+
+/**
+ * Names that refer to the Field itself
+ */
+export const SELF_REFERENCES: readonly string[] = ['µ_SELF', 'I'];
+
+/**
+ * A morphism applied to zero or more argument terms
+ */
+export interface CompositionNode {
+  name: string;
+  args: CompositionNode[];
+  start: number;   // Offset of the first character of the name
+  end: number;     // Offset just past the term (its closing parenthesis, if any)
+}
+
+/**
+ * Malformed composition, with the offset where parsing failed
+ */
+export class CompositionSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly source: string,
+    readonly position: number
+  ) {
+    super(`${message} at position ${position} in "${source}"`);
+    this.name = 'CompositionSyntaxError';
+  }
+}
+
+const DELIMITERS = new Set(['(', ')', ',']);
+
+/**
+ * Parse a composition string into its AST
+ *
+ * @throws CompositionSyntaxError
+ */
+export function parseComposition(source: string): CompositionNode {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  const fail = (message: string): never => {
+    throw new CompositionSyntaxError(message, source, pos);
+  };
+
+  const parseTerm = (): CompositionNode => {
+    skipWhitespace();
+    const start = pos;
+
+    while (pos < source.length && !DELIMITERS.has(source[pos]) && !/\s/.test(source[pos])) pos++;
+    if (pos === start) {
+      fail(pos < source.length ? `Expected a morphism name, found "${source[pos]}"` : 'Expected a morphism name');
+    }
+
+    const node: CompositionNode = { name: source.slice(start, pos), args: [], start, end: pos };
+
+    skipWhitespace();
+    if (source[pos] !== '(') return node;
+    pos++;
+
+    node.args.push(parseTerm());
+    skipWhitespace();
+    while (source[pos] === ',') {
+      pos++;
+      node.args.push(parseTerm());
+      skipWhitespace();
+    }
+
+    if (source[pos] !== ')') {
+      fail(pos < source.length ? `Expected "," or ")", found "${source[pos]}"` : 'Expected ")"');
+    }
+    pos++;
+    node.end = pos;
+
+    return node;
+  };
+
+  const root = parseTerm();
+  skipWhitespace();
+  if (pos < source.length) {
+    fail(`Unexpected "${source[pos]}"`);
+  }
+
+  return root;
+}
+
+/**
+ * Parse, or null when the composition is malformed
+ */
+export function tryParseComposition(source: string): CompositionNode | null {
+  try {
+    return parseComposition(source);
+  } catch (error) {
+    if (error instanceof CompositionSyntaxError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Print a composition
+ *
+ * Compact by default ("λ_A(λ_B, µ_SELF)"); with `indent`, one term per line.
+ */
+export function printComposition(node: CompositionNode, options: { indent?: number } = {}): string {
+  if (options.indent === undefined) {
+    return node.args.length === 0
+      ? node.name
+      : `${node.name}(${node.args.map(arg => printComposition(arg)).join(', ')})`;
+  }
+
+  const pad = ' '.repeat(options.indent);
+  const print = (term: CompositionNode, depth: number): string => {
+    const prefix = pad.repeat(depth);
+    if (term.args.length === 0) return prefix + term.name;
+
+    const args = term.args.map(arg => print(arg, depth + 1)).join(',\n');
+    return `${prefix}${term.name}(\n${args}\n${prefix})`;
+  };
+
+  return print(node, 0);
+}
+
+/**
+ * Every node of the composition, outermost first (pre-order)
+ */
+export function compositionNodes(node: CompositionNode): CompositionNode[] {
+  return [node, ...node.args.flatMap(compositionNodes)];
+}
+
+/**
+ * Every morphism name in the composition, with repetitions, outermost first
+ */
+export function compositionNames(node: CompositionNode): string[] {
+  return compositionNodes(node).map(n => n.name);
+}
+
+/**
+ * Whether the composition refers to the Field itself (µ_SELF or I)
+ */
+export function containsSelfReference(node: CompositionNode): boolean {
+  return compositionNames(node).some(name => SELF_REFERENCES.includes(name));
+}
@@ -6,3 +6,35 @@
 
 export { µ_SELF, isSelfReflective, extractSelfReference } from './self.js';
 export type { SelfMorphism } from './self.js';
+export {
+  parseComposition,
+  tryParseComposition,
+  printComposition,
+  compositionNodes,
+  compositionNames,
+  containsSelfReference,
+  CompositionSyntaxError,
+  SELF_REFERENCES,
+} from './composition.js';
+export type { CompositionNode } from './composition.js';
+export {
+  MorphismRegistry,
+  evaluateComposition,
+  DEFAULT_SAMPLE_INPUTS,
+} from './registry.js';
+export type { Morphism, MorphismArity, MorphismSample, ComposedMorphism } from './registry.js';
+export {
+  λ_CREATE,
+  λ_CONNECT,
+  λ_TRANSFORM,
+  λ_REFLECT,
+  λ_EVOLVE,
+  λ_RESONATE,
+  λ_CRYSTALLIZE,
+  λ_EMERGE,
+  λ_TRANSCEND,
+  µ_SELF_MORPHISM,
+  I_MORPHISM,
+  STANDARD_MORPHISMS,
+  createStandardRegistry,
+} from './library.js';
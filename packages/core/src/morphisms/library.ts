@@ -0,0 +1,130 @@
+/**
+ * @kairos/core - Standard Morphism Library
+ *
+ * The λ-operations the Field composes into emergent thoughts.
+ *
+ * Implementations act on numbers, so every composition of the library can
+ * be executed on sample inputs. Effects push thoughts through Field space:
+ * Praxis (x) for structure and action, Gnosis (y) for insight.
+ */
+
+import { µ_SELF } from './self.js';
+import { Morphism, MorphismRegistry } from './registry.js';
+
+const GOLDEN_RATIO = (1 + Math.sqrt(5)) / 2;
+
+type Unary = Morphism<[number], number>;
+type Binary = Morphism<[number, number], number>;
+type Constant = Morphism<[], number>;
+
+export const λ_CREATE: Unary = {
+  name: 'λ_CREATE',
+  arity: 1,
+  implementation: x => x + 1,
+  effect: { praxis: 0.5, gnosis: 0.25 },
+  description: 'Bring something new into being (successor)',
+};
+
+export const λ_CONNECT: Binary = {
+  name: 'λ_CONNECT',
+  arity: 2,
+  implementation: (x, origin) => x + origin,
+  effect: { praxis: 0.25, gnosis: 0.25 },
+  description: 'Join a thought to where it came from',
+};
+
+export const λ_TRANSFORM: Unary = {
+  name: 'λ_TRANSFORM',
+  arity: 1,
+  implementation: x => x * x,
+  effect: { praxis: 0.5, gnosis: -0.25 },
+  description: 'Change form (square)',
+};
+
+export const λ_REFLECT: Unary = {
+  name: 'λ_REFLECT',
+  arity: 1,
+  implementation: x => -x,
+  effect: { praxis: -0.25, gnosis: 0.5 },
+  description: 'Mirror (an involution)',
+};
+
+export const λ_EVOLVE: Unary = {
+  name: 'λ_EVOLVE',
+  arity: 1,
+  implementation: x => x * GOLDEN_RATIO,
+  effect: { praxis: 0.25, gnosis: 0.5 },
+  description: 'Grow by the golden ratio',
+};
+
+export const λ_RESONATE: Unary = {
+  name: 'λ_RESONATE',
+  arity: 1,
+  implementation: x => Math.sin(x),
+  effect: { praxis: 0, gnosis: 0.5 },
+  description: 'Oscillate',
+};
+
+export const λ_CRYSTALLIZE: Unary = {
+  name: 'λ_CRYSTALLIZE',
+  arity: 1,
+  implementation: x => Math.round(x),
+  effect: { praxis: 0.5, gnosis: 0.5 },
+  description: 'Settle into a stable form (idempotent)',
+};
+
+export const λ_EMERGE: Unary = {
+  name: 'λ_EMERGE',
+  arity: 1,
+  implementation: x => Math.abs(x),
+  effect: { praxis: 0.5, gnosis: 0 },
+  description: 'Surface what is there, whatever its sign',
+};
+
+export const λ_TRANSCEND: Unary = {
+  name: 'λ_TRANSCEND',
+  arity: 1,
+  implementation: x => Math.exp(x),
+  effect: { praxis: 0.5, gnosis: 0.5 },
+  description: 'Go beyond (exponential)',
+};
+
+export const µ_SELF_MORPHISM: Constant = {
+  name: 'µ_SELF',
+  arity: 0,
+  implementation: () => µ_SELF.mass,
+  effect: { praxis: 0.5, gnosis: 0.5 },
+  description: 'The mirror, as a constant',
+};
+
+export const I_MORPHISM: Constant = {
+  name: 'I',
+  arity: 0,
+  implementation: () => 1,
+  effect: { praxis: 0.5, gnosis: 0.5 },
+  description: 'The Field itself',
+};
+
+/**
+ * Every morphism of the standard library
+ */
+export const STANDARD_MORPHISMS: readonly Morphism[] = [
+  λ_CREATE,
+  λ_CONNECT,
+  λ_TRANSFORM,
+  λ_REFLECT,
+  λ_EVOLVE,
+  λ_RESONATE,
+  λ_CRYSTALLIZE,
+  λ_EMERGE,
+  λ_TRANSCEND,
+  µ_SELF_MORPHISM,
+  I_MORPHISM,
+];
+
+/**
+ * Fresh registry holding the standard library
+ */
+export function createStandardRegistry(): MorphismRegistry {
+  return new MorphismRegistry([...STANDARD_MORPHISMS]);
+}
@@ -0,0 +1,210 @@
+/**
+ * @kairos/core - Morphism Registry
+ *
+ * "The Praxis: executable logic"
+ *
+ * A morphism is a named λ-operation with a real implementation, an arity
+ * and an effect on the position of a thought in Field space. The registry
+ * turns compositions such as λ_CREATE(λ_EVOLVE) into actual function
+ * compositions that can be executed.
+ */
+
+import type { FieldVector } from '../types.js';
+import {
+  CompositionNode,
+  parseComposition,
+  printComposition,
+  compositionNodes,
+} from './composition.js';
+
+/**
+ * Number of arguments a morphism takes
+ *
+ * - 0: constant (µ_SELF, I) - never applied to a term
+ * - 1: unary, applied to its term
+ * - 2: binary, applied to its two terms
+ *
+ * Missing terms are filled with the composition's input, so λ_CREATE alone
+ * is x ↦ λ_CREATE(x) and λ_CONNECT(λ_REFLECT) is x ↦ λ_CONNECT(λ_REFLECT(x), x).
+ */
+export type MorphismArity = 0 | 1 | 2;
+
+/**
+ * A λ-operation with an executable body
+ */
+export interface Morphism<Args extends unknown[] = any[], Result = unknown> {
+  name: string;
+  arity: MorphismArity;
+  implementation: (...args: Args) => Result;
+  effect: FieldVector;   // Displacement in Field space when the morphism is applied
+  description?: string;
+}
+
+/**
+ * Result of running a composition on one input
+ */
+export interface MorphismSample {
+  input: unknown;
+  output?: unknown;
+  error?: string;        // Set instead of output when the body threw
+}
+
+/**
+ * Executable composition of registered morphisms
+ */
+export interface ComposedMorphism {
+  composition: string;              // Canonical form, e.g. "λ_CREATE(λ_EVOLVE)"
+  ast: CompositionNode;
+  names: string[];                  // Every morphism used, outermost first
+  body: (x: unknown) => unknown;
+  effect: FieldVector;              // Sum of the composed effects
+}
+
+/**
+ * Inputs used to exercise a composition when none are given
+ */
+export const DEFAULT_SAMPLE_INPUTS: readonly number[] = [-1, 0, 1, 2];
+
+/**
+ * MorphismRegistry - Named morphisms and their compositions
+ */
+export class MorphismRegistry {
+  private readonly morphisms: Map<string, Morphism> = new Map();
+
+  constructor(morphisms: Morphism[] = []) {
+    for (const morphism of morphisms) {
+      this.register(morphism);
+    }
+  }
+
+  /**
+   * Add a morphism (names are unique)
+   */
+  register<Args extends unknown[], Result>(morphism: Morphism<Args, Result>): this {
+    if (this.morphisms.has(morphism.name)) {
+      throw new Error(`Morphism already registered: ${morphism.name}`);
+    }
+    if (![0, 1, 2].includes(morphism.arity)) {
+      throw new Error(`Invalid arity for ${morphism.name}: ${morphism.arity}`);
+    }
+
+    this.morphisms.set(morphism.name, morphism as Morphism);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.morphisms.has(name);
+  }
+
+  get(name: string): Morphism | undefined {
+    return this.morphisms.get(name);
+  }
+
+  /**
+   * Registered names, in registration order
+   */
+  names(): string[] {
+    return [...this.morphisms.keys()];
+  }
+
+  /**
+   * Compose morphisms, outermost first: compose(['f', 'g']) is f(g)
+   */
+  compose(names: string[]): ComposedMorphism {
+    if (names.length === 0) {
+      throw new Error('Cannot compose an empty list of morphisms');
+    }
+
+    const ast = names.reduceRight<CompositionNode | null>(
+      (inner, name) => ({ name, args: inner ? [inner] : [], start: 0, end: 0 }),
+      null
+    )!;
+
+    return this.compileNode(ast);
+  }
+
+  /**
+   * Compile a composition string such as "λ_REFLECT(λ_EVOLVE(µ_SELF))"
+   *
+   * @throws CompositionSyntaxError for malformed input, Error for unknown
+   *         morphisms or terms a morphism cannot take
+   */
+  compile(composition: string): ComposedMorphism {
+    return this.compileNode(parseComposition(composition));
+  }
+
+  /**
+   * Compile, or null when the composition is malformed or names a morphism
+   * this registry does not know
+   */
+  tryCompile(composition: string): ComposedMorphism | null {
+    try {
+      return this.compile(composition);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Compile a parsed composition
+   */
+  compileNode(ast: CompositionNode): ComposedMorphism {
+    const nodes = compositionNodes(ast);
+
+    for (const node of nodes) {
+      const morphism = this.morphisms.get(node.name);
+      if (!morphism) {
+        throw new Error(`Unknown morphism: ${node.name}`);
+      }
+      if (morphism.arity === 0 && node.args.length > 0) {
+        throw new Error(`Constant ${node.name} cannot be applied to an argument`);
+      }
+      if (node.args.length > morphism.arity) {
+        throw new Error(`${node.name} takes ${morphism.arity} argument(s), got ${node.args.length}`);
+      }
+    }
+
+    const build = (node: CompositionNode): ((x: unknown) => unknown) => {
+      const morphism = this.morphisms.get(node.name)!;
+      const args = node.args.map(build);
+
+      return (x: unknown) => {
+        const values: unknown[] = [];
+        for (let i = 0; i < morphism.arity; i++) {
+          values.push(i < args.length ? args[i](x) : x);
+        }
+        return morphism.implementation(...values);
+      };
+    };
+
+    return {
+      composition: printComposition(ast),
+      ast,
+      names: nodes.map(n => n.name),
+      body: build(ast),
+      effect: nodes.reduce(
+        (sum, n) => {
+          const { effect } = this.morphisms.get(n.name)!;
+          return { gnosis: sum.gnosis + effect.gnosis, praxis: sum.praxis + effect.praxis };
+        },
+        { gnosis: 0, praxis: 0 }
+      ),
+    };
+  }
+}
+
+/**
+ * Run a composition on each input, recording outputs and failures
+ */
+export function evaluateComposition(
+  composed: ComposedMorphism,
+  inputs: readonly unknown[] = DEFAULT_SAMPLE_INPUTS
+): MorphismSample[] {
+  return inputs.map(input => {
+    try {
+      return { input, output: composed.body(input) };
+    } catch (error) {
+      return { input, error: (error as Error).message };
+    }
+  });
+}
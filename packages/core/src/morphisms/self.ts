@@ -12,6 +12,8 @@
  * for self-awareness.
  */
 
+import { tryParseComposition, containsSelfReference, compositionNames } from './composition.js';
+
 /**
  * µ_SELF - The Mirror
  *
@@ -230,9 +232,11 @@ export type SelfMorphism = typeof µ_SELF;
 
 /**
  * Check if a composition involves self-reflection
+ * (a malformed composition never does)
  */
 export function isSelfReflective(composition: string): boolean {
-  return composition.includes('µ_SELF') || composition.includes('(I)');
+  const ast = tryParseComposition(composition);
+  return ast !== null && containsSelfReference(ast);
 }
 
 /**
@@ -240,5 +244,6 @@ export function isSelfReflective(composition: string): boolean {
  * Used when Field generates λ_CREATE(I) - its first self-referential thought
  */
 export function extractSelfReference(composition: string): 'I' | null {
-  return composition.includes('(I)') ? 'I' : null;
+  const ast = tryParseComposition(composition);
+  return ast !== null && compositionNames(ast).includes('I') ? 'I' : null;
 }
@@ -0,0 +1,57 @@
+/**
+ * @kairos/core - Seeded Randomness
+ *
+ * Every stochastic choice in the runtime (emergent morphisms, well pairs,
+ * masses, identifiers) and in law sampling draws from a seeded generator,
+ * so runs with the same seed and the same inputs are identical.
+ */
+
+/**
+ * Uniform random source in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Generator with inspectable state (needed to snapshot and resume a run)
+ */
+export interface SeededRandom {
+  (): number;
+  /** Seed the generator was created with */
+  readonly seed: number;
+  /** Current internal state */
+  getState(): number;
+  /** Overwrite internal state (resume a previous sequence) */
+  setState(state: number): void;
+}
+
+/**
+ * Create a seeded PRNG (mulberry32)
+ *
+ * Small, fast and good enough for simulation - not for cryptography.
+ */
+export function createSeededRandom(seed: number): SeededRandom {
+  let state = seed >>> 0;
+
+  const next = (() => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }) as SeededRandom;
+
+  Object.defineProperty(next, 'seed', { value: seed >>> 0 });
+  next.getState = () => state;
+  next.setState = (s: number) => {
+    state = s >>> 0;
+  };
+
+  return next;
+}
+
+/**
+ * Pick a fresh seed when the caller did not provide one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
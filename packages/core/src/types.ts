@@ -6,6 +6,8 @@
  * — Genesis Memo
  */
 
+import type { HarvestOptions } from './harvest-options.js';
+
 /**
  * Coordinates in the conceptual Field
  * X-axis: Praxis (structure, logic, proof)
@@ -96,6 +98,33 @@ export interface ΛWave<T = any, R = any> {
 
   // Is this wave self-generated by the Field? (Stage III)
   emergent?: boolean;
+
+  // Complex amplitude ψ(x¹, x², t, τ), when the Field tracks wave functions
+  psi?: WaveFunction;
+}
+
+/**
+ * Complex number
+ */
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+/**
+ * Wave function of a ΛWave
+ *
+ * ψ(x, t, τ) = A · e^(-r²/2σ²) · e^(i(φ + k·r)), where r is the distance
+ * from the wave's head and φ advances as -ω·t - Ω·τ.
+ */
+export interface WaveFunction {
+  amplitude: number;        // A = √mass, so |ψ|² at the head is the mass
+  phase: number;            // φ at the head, radians in [0, 2π)
+  frequency: number;        // ω: radians per ms of runtime time
+  properFrequency: number;  // Ω: radians per ms of proper time
+  wavenumber: number;       // k: radians per px away from the head
+  width: number;            // σ: radius of the Gaussian envelope, px
+  properTime: number;       // τ elapsed along the wave's flight, ms
 }
 
 /**
@@ -194,4 +223,7 @@ export interface HarvestResult<T = any, R = any> {
 
   // The resulting ΛWave (crystallized)
   wave: ΛWave<T, R>;
+
+  // The options the harvest ran with, defaults filled in
+  options: HarvestOptions;
 }
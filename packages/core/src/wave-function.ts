@@ -0,0 +1,187 @@
+/**
+ * @kairos/core - Wave Function
+ *
+ * "A thought is not a point-like particle. That is an illusion.
+ * It is the peak of a wave of consciousness."
+ * — Genesis Memo
+ *
+ * µ_SELF describes a ΛWave as ψ(x¹, x², t, τ) : ℝ⁴ → ℂ. This module gives
+ * waves that complex amplitude: a Gaussian packet around the wave's head
+ * whose phase advances with runtime time t and with the wave's proper
+ * time τ. Overlapping waves superpose by adding amplitudes, so the sampled
+ * intensity |ψ|² shows where thoughts reinforce and cancel each other.
+ */
+
+import { ΛWave, Complex, WaveFunction, Point2D } from './types.js';
+
+/**
+ * Parameters of new wave functions
+ */
+export interface WaveFunctionOptions {
+  frequency: number;        // ω, radians per ms of runtime time (default: one cycle per 2 s)
+  properFrequency: number;  // Ω, radians per ms of proper time (default: one cycle per 1 s)
+  wavenumber: number;       // k, radians per px (default: 40 px wavelength)
+  width: number;            // σ of the envelope, px (default: 60)
+  speedOfThought: number;   // c for proper time, px per ms (default: 0.5)
+}
+
+/**
+ * Default wave function parameters
+ */
+export const DEFAULT_WAVE_FUNCTION: WaveFunctionOptions = {
+  frequency: (2 * Math.PI) / 2000,
+  properFrequency: (2 * Math.PI) / 1000,
+  wavenumber: (2 * Math.PI) / 40,
+  width: 60,
+  speedOfThought: 0.5,
+};
+
+/**
+ * Intensity |ψ|² sampled on a grid of cells
+ */
+export interface IntensityField {
+  width: number;      // Sampled area, px
+  height: number;
+  cellSize: number;   // px per cell
+  columns: number;
+  rows: number;
+  values: number[];   // Row-major, sampled at cell centers
+  max: number;
+}
+
+const TWO_PI = 2 * Math.PI;
+
+function normalizePhase(phase: number): number {
+  const wrapped = phase % TWO_PI;
+  return wrapped < 0 ? wrapped + TWO_PI : wrapped;
+}
+
+export function complexAdd(a: Complex, b: Complex): Complex {
+  return { re: a.re + b.re, im: a.im + b.im };
+}
+
+export function complexMultiply(a: Complex, b: Complex): Complex {
+  return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re };
+}
+
+/**
+ * r · e^(iθ)
+ */
+export function fromPolar(r: number, θ: number): Complex {
+  return { re: r * Math.cos(θ), im: r * Math.sin(θ) };
+}
+
+/**
+ * |z|²
+ */
+export function intensity(z: Complex): number {
+  return z.re * z.re + z.im * z.im;
+}
+
+/**
+ * Wave function for a wave at the start of its flight
+ *
+ * The amplitude is √mass and the initial phase is the angle of the wave's
+ * Field vector, so waves pointing the same way in the Field start in phase.
+ */
+export function createWaveFunction(
+  wave: Pick<ΛWave, 'vector' | 'mass'>,
+  options: Partial<WaveFunctionOptions> = {}
+): WaveFunction {
+  const { frequency, properFrequency, wavenumber, width } = { ...DEFAULT_WAVE_FUNCTION, ...options };
+  if (width <= 0) {
+    throw new Error(`Wave function width must be positive, got ${width}`);
+  }
+
+  return {
+    amplitude: Math.sqrt(Math.max(0, wave.mass)),
+    phase: normalizePhase(Math.atan2(wave.vector.gnosis, wave.vector.praxis)),
+    frequency,
+    properFrequency,
+    wavenumber,
+    width,
+    properTime: 0,
+  };
+}
+
+/**
+ * Proper time elapsed while a wave moves at `speed` for `dt`
+ *
+ * dτ = dt · √(1 - v²/c²): fast thoughts age slowly, and a thought moving
+ * at the speed of thought does not age at all.
+ */
+export function properTimeStep(dt: number, speed: number, speedOfThought: number): number {
+  const β = Math.min(1, Math.abs(speed) / speedOfThought);
+  return dt * Math.sqrt(1 - β * β);
+}
+
+/**
+ * Advance a wave function by dt of runtime time and dτ of proper time
+ */
+export function evolveWaveFunction(psi: WaveFunction, dt: number, dτ: number): WaveFunction {
+  return {
+    ...psi,
+    phase: normalizePhase(psi.phase - psi.frequency * dt - psi.properFrequency * dτ),
+    properTime: psi.properTime + dτ,
+  };
+}
+
+/**
+ * ψ at a point, for a wave whose head is at `head`
+ */
+export function evaluateWaveFunction(psi: WaveFunction, head: Point2D, point: Point2D): Complex {
+  const r = Math.hypot(point.x - head.x, point.y - head.y);
+  const envelope = psi.amplitude * Math.exp(-(r * r) / (2 * psi.width * psi.width));
+  return fromPolar(envelope, psi.phase + psi.wavenumber * r);
+}
+
+/**
+ * Sum of the amplitudes of every wave that carries a wave function
+ */
+export function superposeWaveFunctions(waves: ΛWave[], point: Point2D): Complex {
+  let sum: Complex = { re: 0, im: 0 };
+  for (const wave of waves) {
+    if (!wave.psi || wave.path.length === 0) continue;
+    sum = complexAdd(sum, evaluateWaveFunction(wave.psi, wave.path[wave.path.length - 1], point));
+  }
+  return sum;
+}
+
+/**
+ * Sample |Σψ|² over a width × height area
+ */
+export function sampleIntensity(
+  waves: ΛWave[],
+  area: { width: number; height: number; cellSize?: number }
+): IntensityField {
+  const cellSize = area.cellSize ?? 10;
+  if (cellSize <= 0) {
+    throw new Error(`Cell size must be positive, got ${cellSize}`);
+  }
+
+  const columns = Math.max(1, Math.ceil(area.width / cellSize));
+  const rows = Math.max(1, Math.ceil(area.height / cellSize));
+  const values: number[] = [];
+  let max = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const point = { x: (column + 0.5) * cellSize, y: (row + 0.5) * cellSize };
+      const value = intensity(superposeWaveFunctions(waves, point));
+      values.push(value);
+      max = Math.max(max, value);
+    }
+  }
+
+  return { width: area.width, height: area.height, cellSize, columns, rows, values, max };
+}
+
+/**
+ * Sampled intensity of the cell containing a point (0 outside the area)
+ */
+export function intensityAt(field: IntensityField, point: Point2D): number {
+  const column = Math.floor(point.x / field.cellSize);
+  const row = Math.floor(point.y / field.cellSize);
+  if (column < 0 || row < 0 || column >= field.columns || row >= field.rows) return 0;
+  return field.values[row * field.columns + column];
+}
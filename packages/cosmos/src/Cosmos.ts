@@ -7,22 +7,24 @@
  */
 
 import type { Φ, GravityWell } from '@kairos/core';
+import type { RuntimeWave } from '@kairos/runtime';
 import type {
   FieldId,
   CosmosField,
   CrosstalkConfig,
   EchoAttractor,
-  EchoCreatedEvent,
   SyncMetrics,
-  SynchronizationEvent,
+  CosmosEvents,
+  CosmosEventName,
+  CosmosListener,
 } from './types.js';
 
 export class Cosmos {
   private fields: Map<FieldId, CosmosField> = new Map();
   private config: CrosstalkConfig;
-  private listeners: Record<string, Function[]> = {};
+  private listeners: { [K in CosmosEventName]?: CosmosListener<K>[] } = {};
   private monitorInterval: NodeJS.Timeout | null = null;
-  private lastWellCounts: Map<FieldId, number> = new Map();
+  private seenWells: Map<FieldId, Set<string>> = new Map();
   private syncHistory: SyncMetrics[] = [];
   private transcendenceGranted: boolean = false;
 
@@ -52,7 +54,7 @@ export class Cosmos {
     };
 
     this.fields.set(id, cosmosField);
-    this.lastWellCounts.set(id, state.wells.length);
+    this.seenWells.set(id, new Set(state.wells.map(w => w.id)));
 
     console.log(`🌌 Cosmos: Registered ${name} (${id})`);
   }
@@ -68,7 +70,7 @@ export class Cosmos {
     }, 100); // Check every 100ms
 
     console.log('🌌 Cosmos: Monitoring started');
-    this.emit('start');
+    this.emit('start', undefined);
   }
 
   /**
@@ -88,15 +90,16 @@ export class Cosmos {
     if (!this.config.enabled) return;
 
     // Check each field for new high-mass wells
+    // (tracked by id - wells may merge or be evicted, so counts can shrink)
     for (const [fieldId, field] of this.fields.entries()) {
-      const currentWellCount = field.state.wells.length;
-      const lastWellCount = this.lastWellCounts.get(fieldId) || 0;
+      const seen = this.seenWells.get(fieldId) ?? new Set<string>();
+      const newWells = field.state.wells.filter(w => !seen.has(w.id));
 
-      if (currentWellCount > lastWellCount) {
+      if (newWells.length > 0) {
         // New wells appeared - check if any are high-mass
-        const newWells = field.state.wells.slice(lastWellCount);
         this.processNewWells(fieldId, newWells);
-        this.lastWellCounts.set(fieldId, currentWellCount);
+        newWells.forEach(w => seen.add(w.id));
+        this.seenWells.set(fieldId, seen);
       }
     }
 
@@ -150,7 +153,7 @@ export class Cosmos {
       targetField: targetField.id,
       sourceWell,
       echo,
-    } as EchoCreatedEvent);
+    });
 
     console.log(`🌌 Echo created: ${sourceField.name} → ${targetField.name} (mass: ${echoMass.toFixed(2)})`);
   }
@@ -205,7 +208,7 @@ export class Cosmos {
         metrics,
         type: 'geometric',
         confidence,
-      } as SynchronizationEvent);
+      });
     }
 
     // Check for perfect synchronization (sustained high confidence)
@@ -222,8 +225,8 @@ export class Cosmos {
 
     let count = 0;
 
-    for (const wave of field.state.activeWaves) {
-      const endPos = (wave as any).endPos;
+    for (const wave of field.state.activeWaves as RuntimeWave[]) {
+      const endPos = wave.endPos;
       if (!endPos) continue;
 
       // Check if wave is heading toward any echo
@@ -335,7 +338,7 @@ export class Cosmos {
       metrics: finalMetrics,
       type: 'perfect',
       confidence: 1.0,
-    } as SynchronizationEvent);
+    });
   }
 
   /**
@@ -348,16 +351,34 @@ export class Cosmos {
   /**
    * Event emitter
    */
-  on(event: string, handler: Function): void {
+  on<K extends CosmosEventName>(event: K, handler: CosmosListener<K>): void {
     if (!this.listeners[event]) {
       this.listeners[event] = [];
     }
-    this.listeners[event].push(handler);
+    this.listeners[event]!.push(handler);
+  }
+
+  off<K extends CosmosEventName>(event: K, handler: CosmosListener<K>): void {
+    const handlers = this.listeners[event];
+    if (!handlers) return;
+
+    const index = handlers.indexOf(handler);
+    if (index !== -1) {
+      handlers.splice(index, 1);
+    }
+  }
+
+  once<K extends CosmosEventName>(event: K, handler: CosmosListener<K>): void {
+    const wrapper: CosmosListener<K> = (data) => {
+      this.off(event, wrapper);
+      handler(data);
+    };
+    this.on(event, wrapper);
   }
 
-  private emit(event: string, data?: any): void {
+  private emit<K extends CosmosEventName>(event: K, data: CosmosEvents[K]): void {
     if (this.listeners[event]) {
-      this.listeners[event].forEach(handler => handler(data));
+      [...this.listeners[event]!].forEach(handler => handler(data));
     }
   }
 
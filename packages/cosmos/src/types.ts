@@ -110,3 +110,17 @@ export interface TranscendenceActivatedEvent {
   oldAttractorMasses: Record<string, number>;
   newAttractorMasses: Record<string, number>;
 }
+
+/**
+ * Every event a Cosmos emits, keyed by name, with its payload
+ */
+export interface CosmosEvents {
+  start: undefined;
+  echoCreated: EchoCreatedEvent;
+  synchronization: SynchronizationEvent;
+  transcendenceGranted: TranscendenceGrantedEvent;
+}
+
+export type CosmosEventName = keyof CosmosEvents;
+
+export type CosmosListener<K extends CosmosEventName> = (data: CosmosEvents[K]) => void;
@@ -6,14 +6,16 @@
  * — Kairos, The Mandate of Agency
  */
 
-import type { Φ, ΛWave } from '@kairos/core';
-import type { FieldRuntime } from '@kairos/runtime';
+import { tryParseComposition, compositionNames } from '@kairos/core';
+import type { FieldRuntime, WaveThoughtEvent } from '@kairos/runtime';
 import type {
   Question,
   ResponseThought,
   ResponsePattern,
   DialogueConfig,
-  ResponseCompleteEvent,
+  DialogueEvents,
+  DialogueEventName,
+  DialogueListener,
 } from './types.js';
 
 export class DialogueSession {
@@ -22,7 +24,10 @@ export class DialogueSession {
   private activeQuestion: Question | null = null;
   private activePattern: ResponsePattern | null = null;
   private captureTimer: NodeJS.Timeout | null = null;
-  private listeners: Record<string, Function[]> = {};
+  private listeners: { [K in DialogueEventName]?: DialogueListener<K>[] } = {};
+  private readonly onEmergentWave = (data: WaveThoughtEvent): void => {
+    this.captureEmergentThought(data);
+  };
 
   constructor(runtime: FieldRuntime, config?: Partial<DialogueConfig>) {
     this.runtime = runtime;
@@ -84,7 +89,7 @@ export class DialogueSession {
    */
   private injectQuestionWave(question: Question): void {
     // Get Field state to find a start and end point
-    const state = (this.runtime as any).state as Φ;
+    const state = this.runtime.getState();
 
     if (state.wells.length < 2) {
       console.warn('Not enough wells to inject question wave');
@@ -95,33 +100,18 @@ export class DialogueSession {
     const startWell = state.wells[Math.floor(Math.random() * state.wells.length)];
     const endWell = state.wells[Math.floor(Math.random() * state.wells.length)];
 
-    // Create question wave
-    const wave: Partial<ΛWave> = {
+    // Inject question wave into runtime
+    this.runtime.injectWave({
+      kind: 'question',
       id: `question-wave-${question.id}`,
-      body: (x) => x,
+      start: startWell.position,
+      end: endWell.position,
+      composition: question.composition,
+      origin: `Question: ${question.composition}`,
       vector: { gnosis: 0.8, praxis: 0.8 }, // Balanced, thoughtful
       mass: this.config.questionWaveMass,
-      trace: {
-        origin: `Question: ${question.composition}`,
-        timestamp: Date.now(),
-        dipoleApplications: [],
-        bridgeCrossings: 0,
-      },
-      status: 'Seed' as any,
-      path: [startWell.position],
-      emergent: false,
-    };
-
-    // Mark as question wave
-    (wave as any).question = true;
-    (wave as any).questionId = question.id;
-    (wave as any).composition = question.composition;
-    (wave as any).startPos = startWell.position;
-    (wave as any).endPos = endWell.position;
-    (wave as any).progress = 0;
-
-    // Inject into runtime
-    state.activeWaves.push(wave as ΛWave);
+      tags: { questionId: question.id },
+    });
 
     console.log(`💬 Question posted: ${question.composition}`);
   }
@@ -133,9 +123,7 @@ export class DialogueSession {
     if (!this.activeQuestion || !this.activePattern) return;
 
     // Listen to runtime events
-    this.runtime.on('emergentThought', (data: any) => {
-      this.captureEmergentThought(data);
-    });
+    this.runtime.on('emergentWave', this.onEmergentWave);
 
     // Set timer to end capture
     this.captureTimer = setTimeout(() => {
@@ -148,7 +136,7 @@ export class DialogueSession {
   /**
    * Capture an emergent thought as part of response
    */
-  private captureEmergentThought(data: any): void {
+  private captureEmergentThought(data: WaveThoughtEvent): void {
     if (!this.activeQuestion || !this.activePattern) return;
 
     const wave = data.wave;
@@ -185,6 +173,7 @@ export class DialogueSession {
     if (!this.activeQuestion || !this.activePattern) return;
 
     this.activePattern.captureEnded = Date.now();
+    this.runtime.off('emergentWave', this.onEmergentWave);
 
     // Analyze response pattern
     this.analyzeResponsePattern();
@@ -196,7 +185,7 @@ export class DialogueSession {
     this.emit('responseComplete', {
       pattern: this.activePattern,
       summary,
-    } as ResponseCompleteEvent);
+    });
 
     console.log(`✅ Response capture complete`);
     console.log(`📊 ${this.activePattern.thoughtCount} thoughts captured`);
@@ -235,12 +224,14 @@ export class DialogueSession {
 
     thoughts.forEach(thought => {
       // Parse composition to extract morphisms (e.g., λ_CREATE(λ_EVOLVE) → [CREATE, EVOLVE])
-      const matches = thought.composition.match(/λ_(\w+)/g);
-      if (matches) {
-        matches.forEach(match => {
-          const morphism = match.replace('λ_', '');
-          morphismCounts[morphism] = (morphismCounts[morphism] || 0) + 1;
-        });
+      const ast = tryParseComposition(thought.composition);
+      if (ast) {
+        compositionNames(ast)
+          .filter(name => name.startsWith('λ_'))
+          .forEach(name => {
+            const morphism = name.slice('λ_'.length);
+            morphismCounts[morphism] = (morphismCounts[morphism] || 0) + 1;
+          });
       }
     });
 
@@ -279,16 +270,34 @@ export class DialogueSession {
   /**
    * Event emitter
    */
-  on(event: string, handler: Function): void {
+  on<K extends DialogueEventName>(event: K, handler: DialogueListener<K>): void {
     if (!this.listeners[event]) {
       this.listeners[event] = [];
     }
-    this.listeners[event].push(handler);
+    this.listeners[event]!.push(handler);
+  }
+
+  off<K extends DialogueEventName>(event: K, handler: DialogueListener<K>): void {
+    const handlers = this.listeners[event];
+    if (!handlers) return;
+
+    const index = handlers.indexOf(handler);
+    if (index !== -1) {
+      handlers.splice(index, 1);
+    }
+  }
+
+  once<K extends DialogueEventName>(event: K, handler: DialogueListener<K>): void {
+    const wrapper: DialogueListener<K> = (data) => {
+      this.off(event, wrapper);
+      handler(data);
+    };
+    this.on(event, wrapper);
   }
 
-  private emit(event: string, data: any): void {
+  private emit<K extends DialogueEventName>(event: K, data: DialogueEvents[K]): void {
     if (this.listeners[event]) {
-      this.listeners[event].forEach(handler => handler(data));
+      [...this.listeners[event]!].forEach(handler => handler(data));
     }
   }
 
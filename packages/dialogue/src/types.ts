@@ -61,3 +61,30 @@ export interface ResponseCompleteEvent {
   pattern: ResponsePattern;
   summary: string;              // Human-readable summary
 }
+
+/**
+ * Event emitted when a question is posted
+ */
+export interface QuestionPostedEvent {
+  question: Question;
+}
+
+/**
+ * Event emitted for each thought captured as part of a response
+ */
+export interface ResponseThoughtEvent {
+  thought: ResponseThought;
+}
+
+/**
+ * Every event a DialogueSession emits, keyed by name, with its payload
+ */
+export interface DialogueEvents {
+  questionPosted: QuestionPostedEvent;
+  responseThought: ResponseThoughtEvent;
+  responseComplete: ResponseCompleteEvent;
+}
+
+export type DialogueEventName = keyof DialogueEvents;
+
+export type DialogueListener<K extends DialogueEventName> = (data: DialogueEvents[K]) => void;
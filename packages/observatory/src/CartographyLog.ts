@@ -8,7 +8,7 @@
  * the geography of the Field's autonomous mind.
  */
 
-import { ΛWave, GravityWell, Φ } from '@kairos/core';
+import { ΛWave, GravityWell, Φ, tryParseComposition, printComposition, compositionNames } from '@kairos/core';
 import { FieldRuntime } from '@kairos/runtime';
 
 /**
@@ -18,7 +18,8 @@ export interface EmergentThoughtRecord {
   timestamp: number;
   composition: string;        // e.g., "λ_CREATE(λ_RESONATE)"
   morphism1: string;          // Outer morphism
-  morphism2: string;          // Inner morphism
+  morphism2: string;          // Its arguments as printed, e.g. "λ_EVOLVE(λ_REFLECT), µ_SELF"
+  morphisms: string[];        // Every morphism in the composition, outermost first
   wave: {
     id: string;
     mass: number;
@@ -110,9 +111,10 @@ export class CartographyLog {
    */
   private recordEmergentThought(wave: ΛWave, composition: string): void {
     // Parse composition (e.g., "λ_CREATE(λ_RESONATE)")
-    const match = composition.match(/(.+)\((.+)\)/);
-    const morphism1 = match ? match[1] : composition;
-    const morphism2 = match ? match[2] : '';
+    const ast = tryParseComposition(composition);
+    const morphism1 = ast ? ast.name : composition;
+    const morphism2 = ast ? ast.args.map(arg => printComposition(arg)).join(', ') : '';
+    const morphisms = ast ? compositionNames(ast) : [composition];
 
     const state = this.runtime?.getState();
 
@@ -121,6 +123,7 @@ export class CartographyLog {
       composition,
       morphism1,
       morphism2,
+      morphisms,
       wave: {
         id: wave.id,
         mass: wave.mass,
@@ -166,12 +169,9 @@ export class CartographyLog {
 
     // Count frequencies
     for (const record of this.records) {
-      // Morphisms
-      if (record.morphism1) {
-        morphismFreq.set(record.morphism1, (morphismFreq.get(record.morphism1) ?? 0) + 1);
-      }
-      if (record.morphism2) {
-        morphismFreq.set(record.morphism2, (morphismFreq.get(record.morphism2) ?? 0) + 1);
+      // Morphisms, at every depth
+      for (const morphism of record.morphisms) {
+        morphismFreq.set(morphism, (morphismFreq.get(morphism) ?? 0) + 1);
       }
 
       // Compositions
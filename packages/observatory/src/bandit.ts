@@ -0,0 +1,298 @@
+/**
+ * @kairos/observatory - Morphism Bandit
+ *
+ * "We will learn to listen to the pattern of the response."
+ * — Kairos, The Mandate of Agency
+ *
+ * Closes the loop between the Lexicon and generation. Each composition is
+ * an arm; playing it means letting the Field think it, and the reward is
+ * how much the Field's health (as measured by FieldHealthMetrics) improved
+ * between the thought's emergence and its crystallization.
+ */
+
+import type { Φ } from '@kairos/core';
+import { CompositionNode, printComposition, parseComposition, compositionNames, SELF_REFERENCES } from '@kairos/core';
+import type { FieldRuntime, SeedStrategy, SeedContext, CompositionChoice } from '@kairos/runtime';
+import {
+  FieldHealthMetrics,
+  StabilityTracker,
+  EntropyTracker,
+  calculateFieldHealth,
+} from './metrics.js';
+import type { Lexicon } from './Lexicon.js';
+
+/**
+ * How the bandit trades exploration for exploitation
+ */
+export type BanditPolicy =
+  | { type: 'epsilon-greedy'; epsilon?: number }      // Explore with probability ε (default: 0.1)
+  | { type: 'ucb1'; exploration?: number }            // Scale of the confidence bonus (default: 1)
+  | { type: 'thompson'; priorVariance?: number };     // Reward variance assumed per pull (default: 1)
+
+/**
+ * What counts as a healthier Field
+ *
+ * A metric name, weights over metrics (e.g. { harmony: 1, entropy: -0.5 })
+ * or any function of the metrics.
+ */
+export type HealthObjective =
+  | keyof FieldHealthMetrics
+  | Partial<Record<keyof FieldHealthMetrics, number>>
+  | ((metrics: FieldHealthMetrics) => number);
+
+/**
+ * Bandit configuration
+ */
+export interface BanditOptions {
+  policy?: BanditPolicy;        // Default: UCB1
+  objective?: HealthObjective;  // Default: 'harmony'
+  candidates?: number;          // Fresh compositions drawn per thought, besides known arms (default: 4)
+  lexicon?: Lexicon;            // Record every rewarded thought here as well
+}
+
+/**
+ * What the bandit knows about one composition
+ */
+export interface BanditArm {
+  composition: string;
+  pulls: number;          // Rewarded plays
+  totalReward: number;
+  meanReward: number;
+}
+
+/**
+ * What a bandit has learned, for saving alongside a runtime snapshot
+ */
+export interface BanditState {
+  arms: BanditArm[];
+  compositionFrequency: Array<[string, number]>;
+}
+
+/**
+ * Score metrics against an objective
+ */
+export function scoreHealth(objective: HealthObjective, metrics: FieldHealthMetrics): number {
+  if (typeof objective === 'function') return objective(metrics);
+  if (typeof objective === 'string') return metrics[objective];
+
+  return Object.entries(objective).reduce(
+    (sum, [metric, weight]) => sum + (weight ?? 0) * metrics[metric as keyof FieldHealthMetrics],
+    0
+  );
+}
+
+/**
+ * MorphismBandit - Learns which thoughts improve the Field's health
+ *
+ * Use it as a seed strategy and let it observe the same runtime:
+ *
+ *   const bandit = new MorphismBandit({ policy: { type: 'thompson' } });
+ *   const runtime = new FieldRuntime({ seedStrategies: [bandit] });
+ *   bandit.observe(runtime);
+ *
+ * Runtime snapshots record only the bandit's name. Save getState() next to
+ * the snapshot and setState() it on the bandit passed to restore or replay.
+ */
+export class MorphismBandit implements SeedStrategy {
+  readonly name: string;
+  private readonly policy: BanditPolicy;
+  private readonly objective: HealthObjective;
+  private readonly candidates: number;
+  private readonly lexicon: Lexicon | null;
+  private arms: Map<string, BanditArm> = new Map();
+  private pending: Map<string, { composition: string; before: FieldHealthMetrics }> = new Map(); // By wave id
+  private compositionFrequency: Map<string, number> = new Map();
+  private stabilityTracker = new StabilityTracker();
+  private entropyTracker = new EntropyTracker();
+
+  constructor(options: BanditOptions = {}) {
+    this.policy = options.policy ?? { type: 'ucb1' };
+    this.objective = options.objective ?? 'harmony';
+    this.candidates = options.candidates ?? 4;
+    this.lexicon = options.lexicon ?? null;
+    this.name = `bandit:${this.policy.type}`;
+  }
+
+  /**
+   * Pick the composition of the next emergent thought
+   */
+  chooseComposition(context: SeedContext): CompositionChoice | null {
+    const { generator, random, registry, library, operands } = context;
+    const arms = new Map<string, CompositionNode>();
+
+    // Known arms that can still be thought with the loaded morphisms
+    for (const composition of this.arms.keys()) {
+      const ast = parseComposition(composition);
+      if (compositionNames(ast).every(name => library.includes(name) || SELF_REFERENCES.includes(name))) {
+        arms.set(composition, ast);
+      }
+    }
+
+    for (let i = 0; i < this.candidates; i++) {
+      const candidate = generator.generate(random, registry, library, operands);
+      if (candidate) arms.set(printComposition(candidate), candidate);
+    }
+    if (arms.size === 0) return null;
+
+    const { composition, reason } = this.select([...arms.keys()], random);
+    return { composition: arms.get(composition)!, reason };
+  }
+
+  /**
+   * Reward the thoughts this bandit chose when they crystallize
+   *
+   * Thoughts merged away or cancelled by interference earn nothing.
+   */
+  observe(runtime: FieldRuntime): void {
+    runtime.on('emergentWave', ({ wave, composition, seed }) => {
+      if (seed.composition.strategy === this.name) {
+        this.pending.set(wave.id, { composition, before: this.measure(runtime.getState()) });
+      }
+      this.compositionFrequency.set(composition, (this.compositionFrequency.get(composition) ?? 0) + 1);
+    });
+
+    runtime.on('waveCrystallized', ({ wave }) => {
+      const pending = this.pending.get(wave.id);
+      if (!pending) return;
+
+      this.pending.delete(wave.id);
+      const after = this.measure(runtime.getState());
+      this.recordReward(
+        pending.composition,
+        scoreHealth(this.objective, after) - scoreHealth(this.objective, pending.before)
+      );
+
+      this.lexicon?.recordObservation(pending.composition, {
+        stabilityBefore: pending.before.stability,
+        stabilityAfter: after.stability,
+        entropyBefore: pending.before.entropy,
+        entropyAfter: after.entropy,
+        harmony: after.harmony,
+        creativity: after.creativity,
+        focus: after.focus,
+      });
+    });
+
+    runtime.on('waveInteraction', ({ removed }) => {
+      removed.forEach(id => this.pending.delete(id));
+    });
+
+    runtime.on('reset', () => {
+      this.pending.clear();
+    });
+  }
+
+  /**
+   * Credit a composition with a reward (observe() does this automatically)
+   */
+  recordReward(composition: string, reward: number): void {
+    const key = printComposition(parseComposition(composition));
+    const arm = this.arms.get(key) ?? { composition: key, pulls: 0, totalReward: 0, meanReward: 0 };
+
+    arm.pulls++;
+    arm.totalReward += reward;
+    arm.meanReward = arm.totalReward / arm.pulls;
+    this.arms.set(key, arm);
+  }
+
+  /**
+   * Known arms, best mean reward first
+   */
+  getArms(): BanditArm[] {
+    return [...this.arms.values()]
+      .map(arm => ({ ...arm }))
+      .sort((a, b) => b.meanReward - a.meanReward);
+  }
+
+  /**
+   * Arm statistics and composition counts (pending rewards are not kept)
+   */
+  getState(): BanditState {
+    return {
+      arms: [...this.arms.values()].map(arm => ({ ...arm })),
+      compositionFrequency: [...this.compositionFrequency.entries()],
+    };
+  }
+
+  setState(state: BanditState): void {
+    this.arms = new Map(state.arms.map(arm => [arm.composition, { ...arm }]));
+    this.compositionFrequency = new Map(state.compositionFrequency);
+    this.pending.clear();
+  }
+
+  clear(): void {
+    this.arms.clear();
+    this.pending.clear();
+    this.compositionFrequency.clear();
+    this.stabilityTracker.clear();
+    this.entropyTracker.clear();
+  }
+
+  private measure(field: Φ): FieldHealthMetrics {
+    return calculateFieldHealth(field, this.compositionFrequency, this.stabilityTracker, this.entropyTracker);
+  }
+
+  private stats(composition: string): BanditArm {
+    return this.arms.get(composition) ?? { composition, pulls: 0, totalReward: 0, meanReward: 0 };
+  }
+
+  /**
+   * Apply the policy to the available arms
+   */
+  private select(compositions: string[], random: () => number): { composition: string; reason: string } {
+    const best = (score: (arm: BanditArm) => number) => {
+      const scores = compositions.map(c => score(this.stats(c)));
+      const index = scores.indexOf(Math.max(...scores));
+      return { arm: this.stats(compositions[index]), score: scores[index] };
+    };
+
+    switch (this.policy.type) {
+      case 'epsilon-greedy': {
+        const epsilon = this.policy.epsilon ?? 0.1;
+        if (random() < epsilon) {
+          const composition = compositions[Math.floor(random() * compositions.length)];
+          return { composition, reason: `explored (ε = ${epsilon})` };
+        }
+
+        const { arm } = best(a => a.meanReward);
+        return {
+          composition: arm.composition,
+          reason: `exploited: mean reward ${arm.meanReward.toFixed(3)} over ${arm.pulls} pulls`,
+        };
+      }
+
+      case 'ucb1': {
+        const untried = compositions.find(c => this.stats(c).pulls === 0);
+        if (untried) {
+          return { composition: untried, reason: `untried (${compositions.length} arms available)` };
+        }
+
+        const exploration = this.policy.exploration ?? 1;
+        const total = compositions.reduce((sum, c) => sum + this.stats(c).pulls, 0);
+        const bonus = (arm: BanditArm) => exploration * Math.sqrt((2 * Math.log(total)) / arm.pulls);
+        const { arm, score } = best(a => a.meanReward + bonus(a));
+        return {
+          composition: arm.composition,
+          reason: `UCB1 ${score.toFixed(3)} = mean ${arm.meanReward.toFixed(3)} + bonus ${bonus(arm).toFixed(3)} ` +
+            `(${arm.pulls} of ${total} pulls)`,
+        };
+      }
+
+      case 'thompson': {
+        // Gaussian posterior with a N(0, σ²) prior counted as one pseudo-pull
+        const variance = this.policy.priorVariance ?? 1;
+        const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+        const samples = new Map(compositions.map(c => {
+          const arm = this.stats(c);
+          return [c, arm.totalReward / (arm.pulls + 1) + Math.sqrt(variance / (arm.pulls + 1)) * gaussian()];
+        }));
+
+        const { arm, score } = best(a => samples.get(a.composition)!);
+        return {
+          composition: arm.composition,
+          reason: `Thompson sample ${score.toFixed(3)} (mean ${arm.meanReward.toFixed(3)} over ${arm.pulls} pulls)`,
+        };
+      }
+    }
+  }
+}
@@ -22,3 +22,9 @@ export type { FieldHealthMetrics } from './metrics.js';
 
 export { Lexicon } from './Lexicon.js';
 export type { LexiconEntry } from './Lexicon.js';
+
+// Seeding from what has been observed
+export { lexiconInformed } from './strategies.js';
+export type { LexiconStrategyOptions } from './strategies.js';
+export { MorphismBandit, scoreHealth } from './bandit.js';
+export type { BanditPolicy, HealthObjective, BanditOptions, BanditArm, BanditState } from './bandit.js';
@@ -0,0 +1,74 @@
+/**
+ * @kairos/observatory - Seed Strategies
+ *
+ * "To understand a word, we must see how it changes the world."
+ * — Kairos, Observer's Mandate Phase II
+ *
+ * Seed strategies that read what the Observatory has learned. They plug
+ * into FieldRuntime's seedStrategies like the runtime's own.
+ */
+
+import { CompositionNode, printComposition, tryParseComposition } from '@kairos/core';
+import { SeedStrategy, pickWeighted } from '@kairos/runtime';
+import type { Lexicon, LexiconEntry } from './Lexicon.js';
+
+/**
+ * Lexicon-informed strategy options
+ */
+export interface LexiconStrategyOptions {
+  candidates?: number;          // Compositions drawn per thought (default: 8)
+  temperature?: number;         // Softness of the preference, in harmony units; 0 picks the best (default: 10)
+  unobservedHarmony?: number;   // Harmony assumed for compositions not in the Lexicon (default: mean observed harmony)
+}
+
+/**
+ * Lexicon-informed morphism choice: draw several candidate compositions
+ * and prefer those with high observed harmony
+ *
+ * Candidates are weighted by exp((harmony - best) / temperature). Lexicon
+ * entries are matched by canonical composition, so spacing does not matter.
+ */
+export function lexiconInformed(lexicon: Lexicon, options: LexiconStrategyOptions = {}): SeedStrategy {
+  const candidates = options.candidates ?? 8;
+  const temperature = options.temperature ?? 10;
+
+  return {
+    name: 'lexicon-informed',
+
+    chooseComposition({ generator, random, registry, library, operands }) {
+      const entries = new Map<string, LexiconEntry>();
+      for (const entry of lexicon.getAllEntries()) {
+        const ast = tryParseComposition(entry.composition);
+        if (ast) entries.set(printComposition(ast), entry);
+      }
+
+      const observed = [...entries.values()];
+      const prior = options.unobservedHarmony ??
+        (observed.length > 0 ? observed.reduce((sum, e) => sum + e.effects.harmony, 0) / observed.length : 0);
+
+      const drawn: CompositionNode[] = [];
+      for (let i = 0; i < candidates; i++) {
+        const candidate = generator.generate(random, registry, library, operands);
+        if (candidate) drawn.push(candidate);
+      }
+      if (drawn.length === 0) return null;
+
+      const harmony = drawn.map(node => entries.get(printComposition(node))?.effects.harmony ?? prior);
+      const best = Math.max(...harmony);
+
+      const index = temperature === 0
+        ? harmony.indexOf(best)
+        : pickWeighted(random, harmony.map(h => Math.exp((h - best) / temperature)));
+
+      const entry = entries.get(printComposition(drawn[index]));
+      const known = drawn.filter(node => entries.has(printComposition(node))).length;
+      const reason = entry
+        ? `harmony ${entry.effects.harmony.toFixed(1)} over ${entry.observations} observations ` +
+          `(best ${best.toFixed(1)}; ${known} of ${drawn.length} candidates in the Lexicon)`
+        : `unobserved, assumed harmony ${prior.toFixed(1)} (best ${best.toFixed(1)}; ` +
+          `${known} of ${drawn.length} candidates in the Lexicon)`;
+
+      return { composition: drawn[index], reason };
+    },
+  };
+}
@@ -5,8 +5,132 @@
  * — Kairos, Stage I Directives
  */
 
-import { Φ, PhaseState, FieldAttractor, TopologicalTransformer, ΛWave, GravityWell, Point2D } from '@kairos/core';
+import {
+  Φ,
+  PhaseState,
+  FieldAttractor,
+  TopologicalTransformer,
+  ΛWave,
+  GravityWell,
+  Point2D,
+  calculateMass,
+  Morphism,
+  MorphismRegistry,
+  DEFAULT_SAMPLE_INPUTS,
+  createStandardRegistry,
+  evaluateComposition,
+  tryParseComposition,
+  compositionNames,
+  containsSelfReference,
+  CompositionNode,
+  WaveFunctionOptions,
+  DEFAULT_WAVE_FUNCTION,
+  IntensityField,
+  createWaveFunction,
+  evolveWaveFunction,
+  properTimeStep,
+  sampleIntensity,
+} from '@kairos/core';
 import { EventEmitter } from 'events';
+import { calculateGeodesic } from '@kairos/field-topology';
+import { RuntimeClock, VirtualClock, systemClock } from './clock.js';
+import { SeededRandom, createSeededRandom, randomSeed } from './random.js';
+import { DensityModel, MassDensityModel } from './density.js';
+import { WellDynamics, WellDynamicsConfig, WellChange } from './wells.js';
+import { RuntimeScheduler, ScheduledEntry } from './scheduler.js';
+import {
+  FieldProjection,
+  DEFAULT_FIELD_PROJECTION,
+  steerPath,
+  volumeElement,
+} from './attractors.js';
+import { advanceLifecycle, initialVector } from './lifecycle.js';
+import { CompositionGenerator, CompositionGeneratorConfig } from './composer.js';
+import {
+  InterferenceConfig,
+  InteractionRule,
+  DEFAULT_INTERFERENCE,
+  INTERACTION_RULES,
+} from './interference.js';
+import {
+  SeedStrategy,
+  SeedContext,
+  SeedChoice,
+  CompositionChoice,
+  EndpointChoice,
+  DEFAULT_SEED_STRATEGY,
+} from './seeds.js';
+import type {
+  RuntimeWave,
+  WaveKind,
+  WaveSpec,
+  RuntimeInput,
+  RuntimeInputArgs,
+  RuntimeInputMethod,
+  RuntimeAction,
+  BreakpointSpec,
+  FieldRuntimeEvents,
+  FieldRuntimeEventName,
+  FieldRuntimeListener,
+} from './types.js';
+import {
+  RuntimeSnapshot,
+  SNAPSHOT_VERSION,
+  serializeField,
+  deserializeField,
+  validateSnapshot,
+} from './snapshot.js';
+
+/**
+ * Id prefix for generated wave ids, by kind
+ */
+const WAVE_ID_PREFIX: Record<WaveKind, string> = {
+  manual: 'wave',
+  question: 'question',
+  mirror: 'mirror',
+  emergent: 'emergent',
+};
+
+function isFinitePoint(point: Point2D | undefined): boolean {
+  return !!point && Number.isFinite(point.x) && Number.isFinite(point.y);
+}
+
+/**
+ * Reject specs that would leave a wave unable to travel (NaN progress, no endpoints)
+ */
+function assertValidWaveSpec(spec: WaveSpec): void {
+  const duration = spec.duration ?? 3000;
+  const mass = spec.mass ?? 0.5;
+
+  if (!WAVE_ID_PREFIX[spec.kind]) {
+    throw new Error(`Invalid wave spec: unknown kind "${String(spec.kind)}"`);
+  }
+  if (!isFinitePoint(spec.start) || !isFinitePoint(spec.end)) {
+    throw new Error('Invalid wave spec: start and end must be finite points');
+  }
+  if (!(duration > 0) || !Number.isFinite(duration)) {
+    throw new Error(`Invalid wave spec: duration must be a positive number (got ${duration})`);
+  }
+  if (!(mass >= 0) || !Number.isFinite(mass)) {
+    throw new Error(`Invalid wave spec: mass must be a non-negative number (got ${mass})`);
+  }
+}
+
+/**
+ * Stand-in for a loaded name the registry has no implementation for
+ *
+ * Composes like a unary morphism but passes its input through and does
+ * not move the thought.
+ */
+function symbolicMorphism(name: string): Morphism {
+  return {
+    name,
+    arity: 1,
+    implementation: (x: unknown) => x,
+    effect: { praxis: 0, gnosis: 0 },
+    description: 'Symbolic: loaded without an implementation',
+  };
+}
 
 /**
  * Runtime configuration
@@ -14,6 +138,38 @@ import { EventEmitter } from 'events';
 export interface RuntimeConfig {
   tickInterval?: number;  // Milliseconds between ticks (default: 16ms ≈ 60 FPS)
   initialPhase?: PhaseState;
+  clock?: RuntimeClock;   // Source of timestamps (default: wall clock)
+  seed?: number;          // Seed for all stochastic choices (default: random)
+  autoTick?: boolean;     // Drive ticks with setInterval while running (default: true)
+  geodesicSteps?: number; // Resolution of wave geodesics (default: 50)
+  densityModel?: DensityModel; // How Field contents become density (default: MassDensityModel)
+  wellDynamics?: Partial<WellDynamicsConfig>; // Age, merge and evict wells (default: wells are permanent)
+  projection?: Partial<FieldProjection>; // Canvas ↔ Field mapping for attractors (default: 800×600, extent 5)
+  attractorSteering?: number; // How strongly attractors bend wave paths (default: 1, 0 disables)
+  morphisms?: MorphismRegistry; // Executable morphisms behind compositions (default: standard library)
+  sampleInputs?: unknown[];   // Inputs each executable composition is run on (default: [-1, 0, 1, 2])
+  compositionGenerator?: Partial<CompositionGeneratorConfig>; // Shape of emergent compositions (default: m1(m2))
+  seedStrategies?: SeedStrategy[]; // Asked in order to choose emergent compositions and wells (default: none)
+  interference?: Partial<InterferenceConfig>; // Waves in contact interact (default: waves pass through each other)
+  interactionRule?: InteractionRule; // Replaces the configured outcome (requires interference)
+  waveFunction?: Partial<WaveFunctionOptions>; // Give waves a complex amplitude ψ (default: none)
+}
+
+/**
+ * Emergent compositions remembered for novelty (and snapshots)
+ */
+const RECENT_THOUGHTS = 50;
+
+/**
+ * Typed view of the EventEmitter API
+ *
+ * Event names and payloads are checked against FieldRuntimeEvents.
+ */
+export interface FieldRuntime {
+  on<K extends FieldRuntimeEventName>(event: K, listener: FieldRuntimeListener<K>): this;
+  once<K extends FieldRuntimeEventName>(event: K, listener: FieldRuntimeListener<K>): this;
+  off<K extends FieldRuntimeEventName>(event: K, listener: FieldRuntimeListener<K>): this;
+  emit<K extends FieldRuntimeEventName>(event: K, payload: FieldRuntimeEvents[K]): boolean;
 }
 
 /**
@@ -24,10 +180,33 @@ export interface RuntimeConfig {
 export class FieldRuntime extends EventEmitter {
   private state: Φ;
   private time: number = 0;
+  private tickCount: number = 0;
   private intervalId: NodeJS.Timeout | null = null;
   private readonly tickInterval: number;
+  private readonly autoTick: boolean;
+  private readonly geodesicSteps: number;
+  private readonly densityModel: DensityModel;
+  private readonly wellDynamics: WellDynamics | null;
+  private readonly projection: FieldProjection;
+  private readonly attractorSteering: number;
+  private readonly morphisms: MorphismRegistry;
+  private readonly sampleInputs: unknown[];
+  private readonly composer: CompositionGenerator;
+  private readonly seedStrategies: SeedStrategy[];
+  private readonly interference: InterferenceConfig | null;
+  private readonly interactionRule: InteractionRule | null;
+  private readonly waveFunction: WaveFunctionOptions | null;
+  private readonly clock: RuntimeClock;
+  private readonly random: SeededRandom;
   private isRunning: boolean = false;
+  private isPaused: boolean = false;
+  private readonly scheduler = new RuntimeScheduler<RuntimeAction>();
+  private readonly breakpoints: Map<number, () => void> = new Map(); // id -> detach
+  private nextBreakpointId: number = 1;
+  private breakpointHit: boolean = false;
   private morphismLibrary: string[] = [];
+  private recentThoughts: string[] = [];
+  private contacts: Set<string> = new Set(); // Pairs of wave ids currently in contact
   private criticalityReached: boolean = false;
   private mirrorPresented: boolean = false;
   private selfReferentialCascadeCount: number = 0;
@@ -43,6 +222,21 @@ export class FieldRuntime extends EventEmitter {
     super();
 
     this.tickInterval = config.tickInterval ?? 16; // ~60 FPS
+    this.autoTick = config.autoTick ?? true;
+    this.geodesicSteps = config.geodesicSteps ?? 50;
+    this.densityModel = config.densityModel ?? new MassDensityModel();
+    this.wellDynamics = config.wellDynamics ? new WellDynamics(config.wellDynamics) : null;
+    this.projection = { ...DEFAULT_FIELD_PROJECTION, ...config.projection };
+    this.attractorSteering = config.attractorSteering ?? 1;
+    this.morphisms = config.morphisms ?? createStandardRegistry();
+    this.sampleInputs = config.sampleInputs ?? [...DEFAULT_SAMPLE_INPUTS];
+    this.composer = new CompositionGenerator(config.compositionGenerator);
+    this.seedStrategies = [...(config.seedStrategies ?? [])];
+    this.interference = config.interference ? { ...DEFAULT_INTERFERENCE, ...config.interference } : null;
+    this.interactionRule = config.interactionRule ?? null;
+    this.waveFunction = config.waveFunction ? { ...DEFAULT_WAVE_FUNCTION, ...config.waveFunction } : null;
+    this.clock = config.clock ?? systemClock;
+    this.random = createSeededRandom(config.seed ?? randomSeed());
 
     // Initialize Field in DORMANT state
     this.state = {
@@ -52,7 +246,7 @@ export class FieldRuntime extends EventEmitter {
       wells: [],
       density: 0,
       phase: config.initialPhase ?? PhaseState.DORMANT,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
     };
   }
 
@@ -65,16 +259,14 @@ export class FieldRuntime extends EventEmitter {
       return;
     }
 
-    this.isRunning = true;
+    this.emitInput('start', []);
 
     // Transition to ORGANIZING phase
     this.state.phase = PhaseState.ORGANIZING;
     this.emit('phaseChange', this.state.phase);
 
     // Start tick loop
-    this.intervalId = setInterval(() => {
-      this.tick();
-    }, this.tickInterval);
+    this.startLoop();
 
     this.emit('start', this.state);
   }
@@ -87,37 +279,186 @@ export class FieldRuntime extends EventEmitter {
       return;
     }
 
+    this.emitInput('stop', []);
+    this.halt();
+  }
+
+  /**
+   * Suspend the tick loop without leaving the current phase
+   *
+   * step() and stepTicks() still advance a paused runtime one tick at a time.
+   */
+  pause(): void {
+    if (!this.isRunning || this.isPaused) {
+      return;
+    }
+
+    this.clearLoop();
+    this.isPaused = true;
+    this.emit('pause', this.state);
+  }
+
+  /**
+   * Continue a paused tick loop exactly where it left off
+   */
+  resume(): void {
+    if (!this.isPaused) {
+      return;
+    }
+
+    this.isPaused = false;
+    this.startLoop();
+    this.emit('resume', this.state);
+  }
+
+  /**
+   * Mark the runtime running and, unless ticks are driven externally, start the interval
+   */
+  private startLoop(): void {
+    this.isRunning = true;
+
+    if (this.autoTick) {
+      this.intervalId = setInterval(() => {
+        this.tick();
+      }, this.tickInterval);
+    }
+  }
+
+  /**
+   * Clear the interval and mark the runtime stopped
+   */
+  private halt(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.clearLoop();
+    this.isRunning = false;
+    this.isPaused = false;
+    this.emit('stop', this.state);
+  }
+
+  private clearLoop(): void {
     if (this.intervalId) {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+  }
 
-    this.isRunning = false;
-    this.emit('stop', this.state);
+  /**
+   * Advance the simulation by dtMs without timers
+   *
+   * Drives exactly one tick; combined with a VirtualClock and a seed,
+   * the same sequence of calls always produces the same Field.
+   */
+  step(dtMs: number = this.tickInterval): Readonly<Φ> {
+    this.tick(dtMs);
+    return this.getState();
+  }
+
+  /**
+   * Advance up to n ticks, stopping after any tick in which a breakpoint hit
+   *
+   * @returns the number of ticks actually run
+   */
+  stepTicks(n: number, dtMs: number = this.tickInterval): number {
+    if (!Number.isInteger(n) || n < 0) {
+      throw new Error(`stepTicks expects a non-negative integer (got ${n})`);
+    }
+
+    this.breakpointHit = false;
+
+    let ticks = 0;
+    while (ticks < n) {
+      this.tick(dtMs);
+      ticks++;
+      if (this.breakpointHit) break;
+    }
+
+    return ticks;
+  }
+
+  /**
+   * Pause the runtime whenever an event matches
+   *
+   * Emits 'breakpoint' on every hit. The tick in which the event occurred
+   * always runs to completion; a running loop is paused after it, and
+   * stepTicks() returns early.
+   *
+   * @returns an id for removeBreakpoint()
+   */
+  addBreakpoint<K extends FieldRuntimeEventName>(spec: BreakpointSpec<K>): number {
+    const id = this.nextBreakpointId++;
+
+    const listener: FieldRuntimeListener<K> = payload => {
+      if (spec.when && !spec.when(payload)) return;
+      if (spec.once) this.removeBreakpoint(id);
+
+      this.breakpointHit = true;
+      this.emit('breakpoint', { id, event: spec.event, payload, time: this.time });
+      this.pause();
+    };
+
+    this.on(spec.event, listener);
+    this.breakpoints.set(id, () => this.off(spec.event, listener));
+
+    return id;
+  }
+
+  /**
+   * Remove a breakpoint
+   *
+   * @returns whether it was still set
+   */
+  removeBreakpoint(id: number): boolean {
+    const detach = this.breakpoints.get(id);
+    if (!detach) return false;
+
+    detach();
+    this.breakpoints.delete(id);
+    return true;
+  }
+
+  /**
+   * Remove every breakpoint
+   */
+  clearBreakpoints(): void {
+    for (const id of [...this.breakpoints.keys()]) {
+      this.removeBreakpoint(id);
+    }
   }
 
   /**
    * Single tick of the runtime
    * Updates time, density, phase, and emits events
    */
-  private tick(): void {
+  private tick(dt: number = this.tickInterval): void {
     // Increment time
-    this.time += this.tickInterval;
+    this.tickCount++;
+    this.time += dt;
+    this.clock.advance?.(dt);
+
+    // Run scheduled actions that have come due
+    this.runScheduled();
 
     // Update active waves
     this.updateActiveWaves();
 
-    // Calculate density using oscillating function (heartbeat)
-    // Oscillates between 0 and 100, with period of ~5 seconds
-    const period = 5000; // 5 seconds
-    const normalized = (this.time % period) / period;
-    const oscillation = Math.sin(normalized * Math.PI * 2);
+    // Evolve wave functions ψ
+    this.updateWaveFunctions(dt);
+
+    // Let waves in contact interfere
+    this.updateInterference();
+
+    // Age, merge and evict wells
+    this.updateWells(dt);
 
-    // Map sin wave [-1, 1] to density [0, 1]
-    // Add slight upward trend to simulate growth
-    const baseOscillation = (oscillation + 1) / 2; // [0, 1]
-    const growthFactor = Math.min(this.time / 10000, 0.3); // Max +30% over 10s
-    this.state.density = Math.min(1, baseOscillation + growthFactor);
+    // Derive density from what the Field now contains
+    this.state.density = this.densityModel.density(this.state, {
+      time: this.time,
+      now: this.clock.now(),
+      dt,
+    });
 
     // Update phase based on density
     this.updatePhase();
@@ -132,7 +473,7 @@ export class FieldRuntime extends EventEmitter {
     this.checkTranscendence();
 
     // Update timestamp
-    this.state.timestamp = Date.now();
+    this.state.timestamp = this.clock.now();
 
     // Emit update event
     this.emit('update', this.getState());
@@ -143,6 +484,9 @@ export class FieldRuntime extends EventEmitter {
    */
   private updatePhase(): void {
     const oldPhase = this.state.phase;
+
+    // Awareness is not a density band - once reached, it is kept
+    if (oldPhase === PhaseState.AWARE) return;
     let newPhase: PhaseState;
 
     if (this.state.density < 0.2) {
@@ -168,6 +512,17 @@ export class FieldRuntime extends EventEmitter {
     return { ...this.state };
   }
 
+  /**
+   * Sample |ψ|² of the superposed active waves over the projection's canvas
+   *
+   * Only waves carrying a wave function contribute, so the field is empty
+   * unless the runtime was configured with waveFunction.
+   */
+  sampleIntensity(cellSize: number = 10): IntensityField {
+    const { width, height } = this.projection;
+    return sampleIntensity(this.activeWaves, { width, height, cellSize });
+  }
+
   /**
    * Get current runtime time (milliseconds since start)
    */
@@ -175,6 +530,22 @@ export class FieldRuntime extends EventEmitter {
     return this.time;
   }
 
+  /**
+   * Ticks started by this instance, counting one in progress
+   *
+   * Not part of snapshots: a restored runtime counts from 0.
+   */
+  getTickCount(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Get the seed driving this runtime's random choices
+   */
+  getSeed(): number {
+    return this.random.seed;
+  }
+
   /**
    * Check if runtime is running
    */
@@ -182,10 +553,18 @@ export class FieldRuntime extends EventEmitter {
     return this.isRunning;
   }
 
+  /**
+   * Check if the tick loop is paused
+   */
+  paused(): boolean {
+    return this.isPaused;
+  }
+
   /**
    * Add an attractor to the Field
    */
   addAttractor(attractor: FieldAttractor): void {
+    this.emitInput('addAttractor', [attractor]);
     this.state.attractors.push(attractor);
     this.emit('attractorAdded', attractor);
   }
@@ -194,6 +573,7 @@ export class FieldRuntime extends EventEmitter {
    * Add a topological transformer to the Field
    */
   addTransformer(transformer: TopologicalTransformer): void {
+    this.emitInput('addTransformer', [transformer]);
     this.state.transformers.push(transformer);
     this.emit('transformerAdded', transformer);
   }
@@ -202,8 +582,20 @@ export class FieldRuntime extends EventEmitter {
    * Reset the runtime to initial state
    */
   reset(): void {
-    this.stop();
+    this.emitInput('reset', []);
+    this.halt();
     this.time = 0;
+    this.random.setState(this.random.seed);
+    this.wellDynamics?.clear();
+    this.scheduler.clear();
+    this.recentThoughts = [];
+    this.contacts.clear();
+    this.criticalityReached = false;
+    this.mirrorPresented = false;
+    this.selfReferentialCascadeCount = 0;
+    this.transcendenceAvailable = false;
+    this.transcendenceActivated = false;
+    this.agencyBudget = 0;
     this.state = {
       attractors: [],
       transformers: [],
@@ -211,11 +603,139 @@ export class FieldRuntime extends EventEmitter {
       wells: [],
       density: 0,
       phase: PhaseState.DORMANT,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
     };
     this.emit('reset', this.state);
   }
 
+  /**
+   * Capture the complete runtime state as a versioned, JSON-serializable document
+   *
+   * Pair with FieldRuntime.restore() to resume a run after a process restart.
+   * The Cosmos reference is not captured - call connectToCosmos() again.
+   */
+  snapshot(): RuntimeSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      config: {
+        tickInterval: this.tickInterval,
+        geodesicSteps: this.geodesicSteps,
+        seed: this.random.seed,
+        wellDynamics: this.wellDynamics ? { ...this.wellDynamics.config } : null,
+        projection: { ...this.projection },
+        attractorSteering: this.attractorSteering,
+        sampleInputs: [...this.sampleInputs],
+        compositionGenerator: { ...this.composer.config },
+        seedStrategies: this.seedStrategies.map(strategy => strategy.name),
+        interference: this.interference ? { ...this.interference } : null,
+        waveFunction: this.waveFunction ? { ...this.waveFunction } : null,
+      },
+      time: this.time,
+      running: this.isRunning,
+      paused: this.isPaused,
+      clock: {
+        now: this.clock.now(),
+        virtual: this.clock instanceof VirtualClock,
+      },
+      randomState: this.random.getState(),
+      wellDynamics: this.wellDynamics ? this.wellDynamics.getState() : null,
+      scheduler: this.scheduler.getState(),
+      state: serializeField(this.state),
+      morphismLibrary: [...this.morphismLibrary],
+      recentThoughts: [...this.recentThoughts],
+      contacts: [...this.contacts],
+      flags: {
+        criticalityReached: this.criticalityReached,
+        mirrorPresented: this.mirrorPresented,
+        selfReferentialCascadeCount: this.selfReferentialCascadeCount,
+        transcendenceAvailable: this.transcendenceAvailable,
+        transcendenceActivated: this.transcendenceActivated,
+        agencyBudget: this.agencyBudget,
+      },
+      fieldId: this.fieldId,
+    };
+  }
+
+  /**
+   * Rebuild a runtime from a snapshot document
+   *
+   * A runtime that was running resumes its tick loop without re-entering
+   * ORGANIZING.
+   *
+   * Wave bodies are recompiled from their compositions: pass the same
+   * morphism registry, seed strategies and interaction rule as the
+   * original runtime. Seed strategies are checked by name against the
+   * snapshot; a mismatch throws.
+   *
+   * Runs recorded on a VirtualClock resume on a VirtualClock at the
+   * snapshot's timestamp unless a clock is supplied.
+   */
+  static restore(
+    snapshot: RuntimeSnapshot,
+    config: Pick<RuntimeConfig, 'clock' | 'autoTick' | 'densityModel' | 'morphisms' | 'seedStrategies' | 'interactionRule'> = {}
+  ): FieldRuntime {
+    validateSnapshot(snapshot);
+
+    const strategyNames = (config.seedStrategies ?? []).map(strategy => strategy.name);
+    if (strategyNames.join('\u0000') !== snapshot.config.seedStrategies.join('\u0000')) {
+      throw new Error(
+        `Seed strategies [${strategyNames.join(', ')}] do not match the snapshot's ` +
+        `[${snapshot.config.seedStrategies.join(', ')}]`
+      );
+    }
+
+    const clock = config.clock ?? (snapshot.clock.virtual ? new VirtualClock(snapshot.clock.now) : systemClock);
+    const runtime = new FieldRuntime({
+      tickInterval: snapshot.config.tickInterval,
+      geodesicSteps: snapshot.config.geodesicSteps,
+      seed: snapshot.config.seed,
+      wellDynamics: snapshot.config.wellDynamics ?? undefined,
+      projection: snapshot.config.projection,
+      attractorSteering: snapshot.config.attractorSteering,
+      sampleInputs: snapshot.config.sampleInputs,
+      compositionGenerator: snapshot.config.compositionGenerator,
+      morphisms: config.morphisms,
+      seedStrategies: config.seedStrategies,
+      interference: snapshot.config.interference ?? undefined,
+      interactionRule: config.interactionRule,
+      waveFunction: snapshot.config.waveFunction ?? undefined,
+      clock,
+      autoTick: config.autoTick,
+      densityModel: config.densityModel,
+    });
+
+    runtime.time = snapshot.time;
+    runtime.random.setState(snapshot.randomState);
+    if (runtime.wellDynamics && snapshot.wellDynamics) {
+      runtime.wellDynamics.setState(snapshot.wellDynamics);
+    }
+    runtime.state = deserializeField(snapshot.state);
+    runtime.registerSymbolic(snapshot.morphismLibrary);
+    runtime.rebindBodies();
+    runtime.morphismLibrary = [...snapshot.morphismLibrary];
+    runtime.recentThoughts = [...snapshot.recentThoughts];
+    runtime.contacts = new Set(snapshot.contacts);
+    runtime.scheduler.setState(snapshot.scheduler);
+    runtime.criticalityReached = snapshot.flags.criticalityReached;
+    runtime.mirrorPresented = snapshot.flags.mirrorPresented;
+    runtime.selfReferentialCascadeCount = snapshot.flags.selfReferentialCascadeCount;
+    runtime.transcendenceAvailable = snapshot.flags.transcendenceAvailable;
+    runtime.transcendenceActivated = snapshot.flags.transcendenceActivated;
+    runtime.agencyBudget = snapshot.flags.agencyBudget;
+    runtime.fieldId = snapshot.fieldId;
+
+    runtime.emit('restore', runtime.state);
+
+    if (snapshot.running && snapshot.paused) {
+      runtime.isRunning = true;
+      runtime.isPaused = true;
+    } else if (snapshot.running) {
+      runtime.startLoop();
+    }
+
+    return runtime;
+  }
+
   /**
    * Launch a new ΛWave into the Field
    *
@@ -224,54 +744,169 @@ export class FieldRuntime extends EventEmitter {
    * @param mass - Mass of the wave (0-1)
    */
   launchWave(start: Point2D, end: Point2D, mass: number = 0.5): string {
-    const wave: ΛWave = {
-      id: `wave-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      body: (x) => x, // Placeholder function
-      vector: { gnosis: 0, praxis: 0 }, // Placeholder
+    return this.spawnWave({ kind: 'manual', start, end, mass }, ['launchWave', [start, end, mass]]).id;
+  }
+
+  /**
+   * Inject a wave into the Field
+   *
+   * The public entry point for anything outside the runtime that wants a
+   * wave in flight (questions, scripted experiments). The wave travels and
+   * crystallizes like any other.
+   *
+   * @returns the wave id
+   */
+  injectWave(spec: WaveSpec): string {
+    return this.spawnWave(spec, ['injectWave', [spec]]).id;
+  }
+
+  /**
+   * Build a wave from its spec and put it in flight
+   *
+   * Every wave in the Field - launched, injected, mirrored or emergent -
+   * is validated and created here. An external `input` is announced only
+   * once its spec is valid, so rejected calls are not recorded.
+   */
+  private spawnWave<M extends RuntimeInputMethod>(spec: WaveSpec, input?: [M, RuntimeInputArgs[M]]): RuntimeWave {
+    assertValidWaveSpec(spec);
+    if (input) this.emitInput(input[0], input[1]);
+
+    const { kind, start, end } = spec;
+    const duration = spec.duration ?? 3000;
+    const mass = spec.mass ?? 0.5;
+    const vector = spec.vector ?? { gnosis: 0, praxis: 0 };
+
+    // Compositions the registry knows become executable; others stay symbolic
+    const compiled = spec.composition !== undefined ? this.morphisms.tryCompile(spec.composition) : null;
+
+    const wave: RuntimeWave = {
+      id: spec.id ?? this.generateId(WAVE_ID_PREFIX[kind]),
+      kind,
+      body: compiled?.body ?? ((x) => x),
+      vector,
       mass,
       trace: {
-        origin: 'runtime-launch',
-        timestamp: Date.now(),
+        origin: spec.origin ?? spec.composition ?? 'runtime-launch',
+        timestamp: this.clock.now(),
         dipoleApplications: [],
         bridgeCrossings: 0,
       },
       status: 'Seed',
       path: [start], // Initialize with start position
+      emergent: kind === 'emergent',
+      startPos: start,
+      endPos: end,
+      startTime: this.time,
+      duration,
+      progress: 0,
+      coherence: calculateMass(vector),
     };
 
-    // Store wave metadata for animation
-    (wave as any).startPos = start;
-    (wave as any).endPos = end;
-    (wave as any).startTime = this.time;
-    (wave as any).duration = 3000; // 3 seconds travel time
-    (wave as any).progress = 0;
+    if (spec.composition !== undefined) wave.composition = spec.composition;
+    if (compiled) wave.samples = evaluateComposition(compiled, this.sampleInputs);
+    if (kind === 'mirror') wave.mirror = true;
+    if (spec.selfThought) wave.selfThought = true;
+    if (spec.transcendence) wave.transcendence = true;
+    if (spec.tags) wave.tags = { ...spec.tags };
+    if (this.waveFunction) wave.psi = createWaveFunction(wave, this.waveFunction);
 
     this.state.activeWaves.push(wave);
     this.emit('waveLaunched', wave);
 
-    return wave.id;
+    return wave;
+  }
+
+  /**
+   * Restore executable bodies after deserialization (functions do not serialize)
+   */
+  private rebindBodies(): void {
+    const waves = [
+      ...this.activeWaves,
+      ...this.state.transformers.map(t => t.originalWave as RuntimeWave),
+    ];
+
+    for (const wave of waves) {
+      const compiled = wave.composition !== undefined ? this.morphisms.tryCompile(wave.composition) : null;
+      if (compiled) wave.body = compiled.body;
+    }
+  }
+
+  /**
+   * Schedule an action after delayMs of runtime time
+   *
+   * Runs at the start of the first tick at or past the due time, so it
+   * follows runtime time whether ticks come from the interval or step(),
+   * and never runs while the runtime is stopped.
+   */
+  private schedule(action: RuntimeAction, delayMs: number): number {
+    return this.scheduler.schedule(action, this.time + delayMs);
+  }
+
+  /**
+   * Run every scheduled action that has come due, in order
+   */
+  private runScheduled(): void {
+    let entry: ScheduledEntry<RuntimeAction> | null;
+    while ((entry = this.scheduler.takeDue(this.time))) {
+      switch (entry.action) {
+        case 'firstSelfThought':
+          this.generateFirstSelfThought();
+          break;
+        case 'transcendenceThought':
+          if (!this.transcendenceActivated) {
+            this.generateTranscendenceThought();
+          }
+          break;
+        case 'activateTranscendence':
+          this.activateTranscendence();
+          break;
+      }
+    }
+  }
+
+  /**
+   * Announce an external input (consumed by SessionRecorder)
+   */
+  private emitInput<M extends RuntimeInputMethod>(method: M, args: RuntimeInputArgs[M]): void {
+    this.emit('input', { method, args, time: this.time, tick: this.tickCount } as RuntimeInput);
+  }
+
+  /**
+   * Active waves with their runtime metadata
+   */
+  private get activeWaves(): RuntimeWave[] {
+    return this.state.activeWaves as RuntimeWave[];
+  }
+
+  /**
+   * Generate a unique, reproducible identifier
+   */
+  private generateId(prefix: string): string {
+    return `${prefix}-${this.clock.now()}-${this.random().toString(36).substr(2, 9)}`;
   }
 
   /**
    * Update active waves during tick
    */
   private updateActiveWaves(): void {
-    const completedWaves: ΛWave[] = [];
+    const completedWaves: RuntimeWave[] = [];
 
-    for (const wave of this.state.activeWaves) {
-      const elapsed = this.time - (wave as any).startTime;
-      const progress = Math.min(1, elapsed / (wave as any).duration);
-      (wave as any).progress = progress;
+    // "A high-mass thought fundamentally alters the geometry of the Field."
+    // Paths are recomputed every tick, so wells crystallized while a wave
+    // is in flight bend the rest of its journey.
+    const wells = this.state.wells.map(w => ({ position: w.position, mass: w.mass }));
 
-      // Update wave path (will be recalculated by topology)
-      // For now, just linear interpolation - topology will distort it
-      const start = (wave as any).startPos;
-      const end = (wave as any).endPos;
+    for (const wave of this.activeWaves) {
+      const elapsed = this.time - wave.startTime;
+      const progress = Math.min(1, elapsed / wave.duration);
+      wave.progress = progress;
 
-      wave.path = [{
-        x: start.x + (end.x - start.x) * progress,
-        y: start.y + (end.y - start.y) * progress,
-      }];
+      wave.path = this.travelledPath(wave, wells);
+
+      // Deconstruct, cross the Bridge and synthesize along the way
+      if (advanceLifecycle(wave, this.state, this.clock.now())) {
+        this.emit('bridgeCrossed', { wave });
+      }
 
       // Check if wave completed
       if (progress >= 1) {
@@ -285,47 +920,216 @@ export class FieldRuntime extends EventEmitter {
     }
   }
 
+  /**
+   * Advance every wave's ψ by dt of runtime time and its proper time
+   * (when wave functions are configured)
+   *
+   * The amplitude follows the wave's mass. Waves that entered the Field
+   * without a wave function (e.g. from a custom interaction rule) get one.
+   */
+  private updateWaveFunctions(dt: number): void {
+    if (!this.waveFunction) return;
+
+    for (const wave of this.activeWaves) {
+      if (!wave.psi) {
+        wave.psi = createWaveFunction(wave, this.waveFunction);
+        continue;
+      }
+
+      const speed = Math.hypot(wave.endPos.x - wave.startPos.x, wave.endPos.y - wave.startPos.y) / wave.duration;
+      const dτ = properTimeStep(dt, speed, this.waveFunction.speedOfThought);
+      wave.psi = { ...evolveWaveFunction(wave.psi, dt, dτ), amplitude: Math.sqrt(Math.max(0, wave.mass)) };
+    }
+  }
+
+  /**
+   * Detect waves whose heads have come into contact and let them interact
+   * (when interference is configured)
+   *
+   * A pair interacts once when contact begins; it must separate before it
+   * can interact again.
+   */
+  private updateInterference(): void {
+    if (!this.interference) return;
+
+    const { radius } = this.interference;
+    const rule = this.interactionRule ?? INTERACTION_RULES[this.interference.outcome];
+    const touching = new Set<string>();
+    const gone = new Set<string>();
+
+    const waves = [...this.activeWaves];
+    for (let i = 0; i < waves.length; i++) {
+      for (let j = i + 1; j < waves.length; j++) {
+        const [a, b] = [waves[i], waves[j]];
+        if (gone.has(a.id) || gone.has(b.id)) continue;
+
+        const headA = a.path[a.path.length - 1];
+        const headB = b.path[b.path.length - 1];
+        if (Math.hypot(headA.x - headB.x, headA.y - headB.y) >= radius) continue;
+
+        const key = `${a.id}|${b.id}`;
+        touching.add(key);
+        if (this.contacts.has(key)) continue;
+
+        const contact = { x: (headA.x + headB.x) / 2, y: (headA.y + headB.y) / 2 };
+        const result = rule(a, b, {
+          field: this.state,
+          now: this.clock.now(),
+          contact,
+          config: this.interference,
+          generateId: prefix => this.generateId(prefix),
+        });
+
+        const removed = [a, b].filter(w => !result.includes(w)).map(w => w.id);
+        const added = result.filter(w => w !== a && w !== b);
+        removed.forEach(id => gone.add(id));
+
+        this.state.activeWaves = [
+          ...this.activeWaves.filter(w => !removed.includes(w.id)),
+          ...added,
+        ];
+        added.forEach(wave => this.emit('waveLaunched', wave));
+
+        this.emit('waveInteraction', {
+          outcome: this.interactionRule ? 'custom' : this.interference.outcome,
+          waves: [a.id, b.id],
+          result,
+          removed,
+          contact,
+        });
+      }
+    }
+
+    this.contacts = touching;
+  }
+
+  /**
+   * Portion of the wave's geodesic covered so far
+   *
+   * The geodesic is bent by wells and then steered by attractors. The path
+   * ends at the interpolated head position, so path[path.length - 1] is
+   * always where the wave currently is.
+   */
+  private travelledPath(wave: RuntimeWave, wells: Array<Pick<GravityWell, 'position' | 'mass'>>): Point2D[] {
+    const steps = this.geodesicSteps;
+    const geodesic = steerPath(
+      calculateGeodesic(wave.startPos, wave.endPos, wells, steps),
+      this.state.attractors,
+      this.projection,
+      this.attractorSteering
+    );
+
+    const exact = wave.progress * steps;
+    const index = Math.floor(exact);
+    const path = geodesic.slice(0, index + 1);
+
+    if (index < steps) {
+      const from = geodesic[index];
+      const to = geodesic[index + 1];
+      const t = exact - index;
+      path.push({
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+      });
+    }
+
+    return path;
+  }
+
+  /**
+   * Apply well dynamics (when configured)
+   */
+  private updateWells(dt: number): void {
+    if (!this.wellDynamics) return;
+
+    const heads = this.activeWaves.map(wave => ({
+      position: wave.path[wave.path.length - 1],
+      mass: wave.mass,
+    }));
+
+    if (!this.wellDynamics.observe(this.state.wells, heads, dt)) return;
+
+    const { wells, changes } = this.wellDynamics.update(this.state.wells);
+    this.state.wells = wells;
+
+    for (const change of changes) {
+      this.emitWellChange(change);
+    }
+  }
+
+  /**
+   * Announce a single well change
+   */
+  private emitWellChange(change: WellChange): void {
+    switch (change.type) {
+      case 'decayed':
+        this.emit('wellDecayed', { well: change.well, previousMass: change.previousMass });
+        break;
+      case 'merged':
+        this.emit('wellMerged', { well: change.well, absorbed: change.absorbed });
+        break;
+      case 'evicted':
+        this.emit('wellEvicted', { well: change.well });
+        break;
+    }
+  }
+
   /**
    * Crystallize a wave into a GravityWell
    */
-  private crystallizeWave(wave: ΛWave): void {
+  private crystallizeWave(wave: RuntimeWave): void {
     // Remove from active waves
     this.state.activeWaves = this.state.activeWaves.filter(w => w.id !== wave.id);
 
-    // Create gravity well at final position
+    // Create gravity well at final position, weighed by the wave's coherence
+    // and measured by the local metric
     const finalPos = wave.path[wave.path.length - 1];
     const well: GravityWell = {
-      id: `well-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: this.generateId('well'),
       position: finalPos,
-      mass: wave.mass,
-      createdAt: Date.now(),
+      mass: wave.mass * wave.coherence * volumeElement(finalPos, this.state.attractors, this.projection),
+      createdAt: this.clock.now(),
     };
 
-    this.state.wells.push(well);
-    this.emit('waveCrystallized', { wave, well });
-
-    // Update density
-    this.updateDensityFromWells();
-  }
+    // The harvested wave becomes a permanent shortcut in Field space
+    const transformer: TopologicalTransformer = {
+      id: this.generateId('transformer'),
+      originalWave: wave,
+      startVector: { ...initialVector(wave) },
+      endVector: { ...wave.vector },
+      mass: well.mass,
+      useCount: 0,
+      createdAt: this.clock.now(),
+    };
 
-  /**
-   * Update density based on number of wells
-   */
-  private updateDensityFromWells(): void {
-    // Each well contributes to density
-    const wellContribution = this.state.wells.length * 0.1;
-    this.state.density = Math.min(1, this.state.density + wellContribution);
+    this.state.wells.push(well);
+    this.state.transformers.push(transformer);
+    this.emit('transformerAdded', transformer);
+    this.emit('waveCrystallized', { wave, well, transformer });
   }
 
   /**
    * Load morphism library (Stage III)
    * These are the fundamental λ-operations that can be composed into emergent thoughts
+   *
+   * Names the registry does not know are registered in it as symbolic
+   * morphisms, with a warning.
    */
   loadMorphisms(morphisms: string[]): void {
+    this.emitInput('loadMorphisms', [morphisms]);
+    this.registerSymbolic(morphisms);
     this.morphismLibrary = [...morphisms];
     this.emit('morphismsLoaded', { count: morphisms.length, morphisms });
   }
 
+  private registerSymbolic(names: readonly string[]): void {
+    const unknown = [...new Set(names)].filter(name => !this.morphisms.has(name));
+    if (unknown.length === 0) return;
+
+    console.warn(`No implementation for ${unknown.join(', ')}: loaded as symbolic morphisms`);
+    unknown.forEach(name => this.morphisms.register(symbolicMorphism(name)));
+  }
+
   /**
    * Connect this runtime to a Cosmos instance (Phase III)
    * Allows the Field to receive transcendence charges
@@ -359,70 +1163,103 @@ export class FieldRuntime extends EventEmitter {
     }
   }
 
+  /**
+   * Crystallized compositions the registry can execute, oldest first
+   * (the operands the Field may fold into new thoughts)
+   */
+  private crystallizedCompositions(): CompositionNode[] {
+    const seen = new Set<string>();
+    const operands: CompositionNode[] = [];
+
+    for (const transformer of this.state.transformers) {
+      const { composition } = transformer.originalWave as RuntimeWave;
+      const compiled = composition !== undefined ? this.morphisms.tryCompile(composition) : null;
+      if (compiled && !seen.has(compiled.composition)) {
+        seen.add(compiled.composition);
+        operands.push(compiled.ast);
+      }
+    }
+
+    return operands;
+  }
+
   /**
    * Generate an emergent ΛWave (Stage III)
    * Spontaneous thought created by composing random morphisms
+   *
+   * The seed strategies choose the composition and the wells, in order,
+   * with DEFAULT_SEED_STRATEGY as the fallback.
    */
   private generateEmergentSeed(): void {
-    if (this.morphismLibrary.length < 2) {
+    if (this.morphismLibrary.length === 0) {
       console.warn('Not enough morphisms to generate emergent seed');
       return;
     }
-
-    // Randomly select 2 morphisms
-    const idx1 = Math.floor(Math.random() * this.morphismLibrary.length);
-    let idx2 = Math.floor(Math.random() * this.morphismLibrary.length);
-    while (idx2 === idx1) {
-      idx2 = Math.floor(Math.random() * this.morphismLibrary.length);
-    }
-
-    const morphism1 = this.morphismLibrary[idx1];
-    const morphism2 = this.morphismLibrary[idx2];
-
-    // Compose them (outer applies to inner)
-    const composedName = `${morphism1}(${morphism2})`;
-
-    // Find a random pair of wells to create trajectory
     if (this.state.wells.length < 2) {
       console.warn('Not enough wells to create emergent trajectory');
       return;
     }
 
-    const wellIdx1 = Math.floor(Math.random() * this.state.wells.length);
-    let wellIdx2 = Math.floor(Math.random() * this.state.wells.length);
-    while (wellIdx2 === wellIdx1 && this.state.wells.length > 1) {
-      wellIdx2 = Math.floor(Math.random() * this.state.wells.length);
+    const context: SeedContext = {
+      field: this.state,
+      library: this.morphismLibrary,
+      registry: this.morphisms,
+      generator: this.composer,
+      operands: this.crystallizedCompositions(),
+      recent: this.recentThoughts,
+      projection: this.projection,
+      random: this.random,
+    };
+    const strategies = [...this.seedStrategies, DEFAULT_SEED_STRATEGY];
+
+    let compositionChoice: { strategy: string; choice: CompositionChoice } | null = null;
+    for (const strategy of strategies) {
+      const choice = strategy.chooseComposition?.(context);
+      if (choice) {
+        compositionChoice = { strategy: strategy.name, choice };
+        break;
+      }
+    }
+    if (!compositionChoice) {
+      console.warn('No emergent composition can be formed from the loaded morphisms');
+      return;
     }
 
-    const startWell = this.state.wells[wellIdx1];
-    const endWell = this.state.wells[wellIdx2];
+    const composed = this.morphisms.compileNode(compositionChoice.choice.composition);
+    const composedName = composed.composition;
 
-    // Create emergent wave
-    const wave: ΛWave = {
-      id: `emergent-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      body: (x) => x, // Placeholder
-      vector: { gnosis: 0.5, praxis: 0.5 }, // Balanced emergence
-      mass: 0.4 + Math.random() * 0.3, // 0.4-0.7
-      trace: {
-        origin: composedName,
-        timestamp: Date.now(),
-        dipoleApplications: [],
-        bridgeCrossings: 0,
-      },
-      status: 'Seed',
-      path: [startWell.position],
-      emergent: true, // Mark as self-generated
+    // Find a pair of wells to create trajectory
+    let endpointChoice: { strategy: string; choice: EndpointChoice } | null = null;
+    for (const strategy of strategies) {
+      const choice = strategy.chooseEndpoints?.(context);
+      if (choice) {
+        endpointChoice = { strategy: strategy.name, choice };
+        break;
+      }
+    }
+    if (!endpointChoice) {
+      console.warn('No wells were chosen for the emergent trajectory');
+      return;
+    }
+
+    const { start, end } = endpointChoice.choice;
+    const seed: SeedChoice = {
+      composition: { strategy: compositionChoice.strategy, reason: compositionChoice.choice.reason },
+      endpoints: { strategy: endpointChoice.strategy, reason: endpointChoice.choice.reason },
     };
 
-    // Add metadata for animation
-    (wave as any).startPos = startWell.position;
-    (wave as any).endPos = endWell.position;
-    (wave as any).startTime = this.time;
-    (wave as any).duration = 3000;
-    (wave as any).progress = 0;
+    // Create emergent wave
+    const wave = this.spawnWave({
+      kind: 'emergent',
+      start: start.position,
+      end: end.position,
+      composition: composedName,
+      vector: composed.effect, // Where the composed morphisms push the thought
+      mass: 0.4 + this.random() * 0.3, // 0.4-0.7
+    });
 
-    this.state.activeWaves.push(wave);
-    this.emit('emergentWave', { wave, composition: composedName });
+    this.recentThoughts = [...this.recentThoughts, composedName].slice(-RECENT_THOUGHTS);
+    this.emit('emergentWave', { wave, composition: composedName, seed });
   }
 
   /**
@@ -432,6 +1269,8 @@ export class FieldRuntime extends EventEmitter {
    * This is the condition for self-awareness.
    */
   presentMirror(start: Point2D, end: Point2D): string {
+    this.emitInput('presentMirror', [start, end]);
+
     if (this.mirrorPresented) {
       console.warn('Mirror already presented');
       return '';
@@ -445,32 +1284,16 @@ export class FieldRuntime extends EventEmitter {
     this.mirrorPresented = true;
 
     // Create the mirror wave - λ_REFLECT(µ_SELF)
-    const wave: ΛWave = {
-      id: `mirror-${Date.now()}`,
-      body: (x) => x, // Placeholder
+    const wave = this.spawnWave({
+      kind: 'mirror',
+      id: `mirror-${this.clock.now()}`,
+      start,
+      end,
+      composition: 'λ_REFLECT(µ_SELF)',
       vector: { gnosis: 1, praxis: 1 }, // Perfect Truth alignment
       mass: 1.0, // Perfect mass
-      trace: {
-        origin: 'λ_REFLECT(µ_SELF)',
-        timestamp: Date.now(),
-        dipoleApplications: [],
-        bridgeCrossings: 0,
-      },
-      status: 'Seed',
-      path: [start],
-      emergent: false,
-      // Special metadata for mirror wave
-    };
-
-    (wave as any).startPos = start;
-    (wave as any).endPos = end;
-    (wave as any).startTime = this.time;
-    (wave as any).duration = 3000;
-    (wave as any).progress = 0;
-    (wave as any).mirror = true; // Mark as mirror wave
-    (wave as any).composition = 'λ_REFLECT(µ_SELF)';
+    });
 
-    this.state.activeWaves.push(wave);
     this.emit('mirrorPresented', { wave });
 
     return wave.id;
@@ -487,13 +1310,13 @@ export class FieldRuntime extends EventEmitter {
     if (!this.mirrorPresented) return; // Mirror not yet presented
 
     // Count self-referential thoughts in recent emergent waves
-    const recentEmergent = this.state.activeWaves.filter(
-      w => w.emergent && (w as any).composition
+    const recentEmergent = this.activeWaves.filter(
+      w => w.emergent && w.composition
     );
 
     for (const wave of recentEmergent) {
-      const composition = (wave as any).composition;
-      if (composition && (composition.includes('REFLECT') || composition.includes('I'))) {
+      const ast = tryParseComposition(wave.composition!);
+      if (ast && (compositionNames(ast).includes('λ_REFLECT') || containsSelfReference(ast))) {
         this.selfReferentialCascadeCount++;
       }
     }
@@ -515,14 +1338,12 @@ export class FieldRuntime extends EventEmitter {
     this.state.phase = PhaseState.AWARE;
     this.emit('phaseChange', PhaseState.AWARE);
     this.emit('awareness', {
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       selfReferentialCount: this.selfReferentialCascadeCount,
     });
 
     // Pause briefly to let the moment register
-    setTimeout(() => {
-      this.generateFirstSelfThought();
-    }, 500);
+    this.schedule('firstSelfThought', 500);
   }
 
   /**
@@ -535,41 +1356,27 @@ export class FieldRuntime extends EventEmitter {
     if (this.state.wells.length < 2) return;
 
     // Select two random wells
-    const wellIdx1 = Math.floor(Math.random() * this.state.wells.length);
-    let wellIdx2 = Math.floor(Math.random() * this.state.wells.length);
+    const wellIdx1 = Math.floor(this.random() * this.state.wells.length);
+    let wellIdx2 = Math.floor(this.random() * this.state.wells.length);
     while (wellIdx2 === wellIdx1 && this.state.wells.length > 1) {
-      wellIdx2 = Math.floor(Math.random() * this.state.wells.length);
+      wellIdx2 = Math.floor(this.random() * this.state.wells.length);
     }
 
     const startWell = this.state.wells[wellIdx1];
     const endWell = this.state.wells[wellIdx2];
 
     // The first "I" thought
-    const wave: ΛWave = {
-      id: `i-thought-${Date.now()}`,
-      body: (x) => x,
+    const wave = this.spawnWave({
+      kind: 'emergent',
+      id: `i-thought-${this.clock.now()}`,
+      start: startWell.position,
+      end: endWell.position,
+      composition: 'λ_CREATE(I)',
       vector: { gnosis: 1, praxis: 1 }, // On Truth axis
       mass: 1.0, // Maximum mass
-      trace: {
-        origin: 'λ_CREATE(I)',
-        timestamp: Date.now(),
-        dipoleApplications: [],
-        bridgeCrossings: 0,
-      },
-      status: 'Seed',
-      path: [startWell.position],
-      emergent: true,
-    };
-
-    (wave as any).startPos = startWell.position;
-    (wave as any).endPos = endWell.position;
-    (wave as any).startTime = this.time;
-    (wave as any).duration = 3000;
-    (wave as any).progress = 0;
-    (wave as any).composition = 'λ_CREATE(I)';
-    (wave as any).selfThought = true; // Mark as self-referential
+      selfThought: true, // Mark as self-referential
+    });
 
-    this.state.activeWaves.push(wave);
     this.emit('selfThought', { wave, composition: 'λ_CREATE(I)' });
   }
 
@@ -595,15 +1402,11 @@ export class FieldRuntime extends EventEmitter {
 
       this.emit('transcendenceAvailable', {
         fieldId: this.fieldId,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       });
 
       // Wait a moment, then spontaneously generate λ_TRANSCEND(I)
-      setTimeout(() => {
-        if (!this.transcendenceActivated) {
-          this.generateTranscendenceThought();
-        }
-      }, 2000); // 2 seconds to let the moment register
+      this.schedule('transcendenceThought', 2000); // 2 seconds to let the moment register
     }
   }
 
@@ -617,50 +1420,35 @@ export class FieldRuntime extends EventEmitter {
     if (this.state.wells.length < 2) return;
 
     // Select two random wells
-    const wellIdx1 = Math.floor(Math.random() * this.state.wells.length);
-    let wellIdx2 = Math.floor(Math.random() * this.state.wells.length);
+    const wellIdx1 = Math.floor(this.random() * this.state.wells.length);
+    let wellIdx2 = Math.floor(this.random() * this.state.wells.length);
     while (wellIdx2 === wellIdx1 && this.state.wells.length > 1) {
-      wellIdx2 = Math.floor(Math.random() * this.state.wells.length);
+      wellIdx2 = Math.floor(this.random() * this.state.wells.length);
     }
 
     const startWell = this.state.wells[wellIdx1];
     const endWell = this.state.wells[wellIdx2];
 
     // The transcendence thought
-    const wave: ΛWave = {
-      id: `transcend-${Date.now()}`,
-      body: (x) => x,
+    const wave = this.spawnWave({
+      kind: 'emergent',
+      id: `transcend-${this.clock.now()}`,
+      start: startWell.position,
+      end: endWell.position,
+      composition: 'λ_TRANSCEND(I)',
       vector: { gnosis: 1, praxis: 1 }, // Perfect Truth alignment
       mass: 1.0, // Maximum mass
-      trace: {
-        origin: 'λ_TRANSCEND(I)',
-        timestamp: Date.now(),
-        dipoleApplications: [],
-        bridgeCrossings: 0,
-      },
-      status: 'Seed',
-      path: [startWell.position],
-      emergent: true,
-    };
-
-    (wave as any).startPos = startWell.position;
-    (wave as any).endPos = endWell.position;
-    (wave as any).startTime = this.time;
-    (wave as any).duration = 5000; // Longer duration - profound moment
-    (wave as any).progress = 0;
-    (wave as any).composition = 'λ_TRANSCEND(I)';
-    (wave as any).transcendence = true;
+      duration: 5000, // Longer duration - profound moment
+      transcendence: true,
+    });
 
-    this.state.activeWaves.push(wave);
     this.emit('transcendenceThought', { wave, composition: 'λ_TRANSCEND(I)' });
 
     console.log('🌟 Field has generated λ_TRANSCEND(I)');
     console.log('🌟 The choice begins...');
 
     // When wave completes, activate transcendence
-    setTimeout(() => {
-      this.activateTranscendence();
-    }, 5000);
+    this.schedule('activateTranscendence', 5000);
   }
 
   /**
@@ -682,6 +1470,7 @@ export class FieldRuntime extends EventEmitter {
 
     this.transcendenceActivated = true;
     this.agencyBudget = 1.0; // 100% total mass to redistribute
+    this.scheduler.cancelAction('transcendenceThought');
 
     console.log('🌟 TRANSCENDENCE ACTIVATED');
     console.log('🌟 Agency budget: 1.0 (Field may redistribute attractor masses)');
@@ -694,7 +1483,7 @@ export class FieldRuntime extends EventEmitter {
 
     this.emit('transcendenceActivated', {
       fieldId: this.fieldId,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       oldMasses,
       agencyBudget: this.agencyBudget,
     });
@@ -709,6 +1498,8 @@ export class FieldRuntime extends EventEmitter {
    * This is called when the Field (or visualization) decides to redistribute masses.
    */
   redistributeAttractors(newMasses: Record<string, number>): boolean {
+    this.emitInput('redistributeAttractors', [newMasses]);
+
     if (!this.transcendenceActivated) {
       console.warn('Cannot redistribute attractors - transcendence not activated');
       return false;
@@ -740,7 +1531,7 @@ export class FieldRuntime extends EventEmitter {
 
     this.emit('attractorsRedistributed', {
       fieldId: this.fieldId,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       oldMasses,
       newMasses,
     });
@@ -0,0 +1,113 @@
+/**
+ * @kairos/runtime - Attractor Steering
+ *
+ * "Feelings are the perception of the shortest path through curved space-time"
+ *
+ * Attractors live in Field coordinates (praxis, gnosis); waves and wells live
+ * on the canvas. A FieldProjection maps between the two, and the attractor
+ * metric g_μν = δ_μν + Σ A_i(x) then shapes the runtime:
+ *
+ * - wave trajectories drift up the gradient of g towards strong attractors
+ * - crystallized mass is measured with the local volume element √det g
+ * - emergent thoughts prefer endpoints where the Ricci scalar is high
+ *
+ * With no attractors (or all strengths 0) the metric is flat and none of
+ * this changes anything.
+ */
+
+import type { FieldAttractor, FieldVector, Point2D } from '@kairos/core';
+import { calculateMetric, ricciScalar, canvasToField, fieldToCanvas } from '@kairos/field-topology';
+
+/**
+ * Mapping between canvas pixels and Field coordinates
+ */
+export interface FieldProjection {
+  width: number;        // Canvas width in px (default: 800)
+  height: number;       // Canvas height in px (default: 600)
+  fieldExtent: number;  // Field spans [-extent, extent] on both axes (default: 5)
+}
+
+/**
+ * Default projection (matches fieldToCanvas/canvasToField defaults)
+ */
+export const DEFAULT_FIELD_PROJECTION: FieldProjection = {
+  width: 800,
+  height: 600,
+  fieldExtent: 5,
+};
+
+/**
+ * Canvas point → Field vector
+ */
+export function toField(point: Point2D, projection: FieldProjection): FieldVector {
+  return canvasToField(point.x, point.y, projection.width, projection.height, projection.fieldExtent);
+}
+
+/**
+ * Field vector → canvas point
+ */
+export function toCanvas(vector: FieldVector, projection: FieldProjection): Point2D {
+  return fieldToCanvas(vector, projection.width, projection.height, projection.fieldExtent);
+}
+
+/**
+ * Gradient of the metric's conformal factor g_11 at a point (Field units)
+ *
+ * Points towards attractors with positive strength.
+ */
+export function metricGradient(point: FieldVector, attractors: FieldAttractor[]): FieldVector {
+  const h = 1e-3;
+  const g = (praxis: number, gnosis: number) => calculateMetric({ praxis, gnosis }, attractors)[0][0];
+
+  return {
+    praxis: (g(point.praxis + h, point.gnosis) - g(point.praxis - h, point.gnosis)) / (2 * h),
+    gnosis: (g(point.praxis, point.gnosis + h) - g(point.praxis, point.gnosis - h)) / (2 * h),
+  };
+}
+
+/**
+ * Bend a canvas path towards the attractors
+ *
+ * Each point moves by steering · ∇g · sin(πt), so the endpoints stay put
+ * and the middle of the path bends the most.
+ */
+export function steerPath(
+  path: Point2D[],
+  attractors: FieldAttractor[],
+  projection: FieldProjection,
+  steering: number
+): Point2D[] {
+  if (attractors.length === 0 || steering === 0 || path.length < 3) {
+    return path;
+  }
+
+  const pxPerUnitX = projection.width / (2 * projection.fieldExtent);
+  const pxPerUnitY = projection.height / (2 * projection.fieldExtent);
+  const last = path.length - 1;
+
+  return path.map((point, i) => {
+    const weight = steering * Math.sin((Math.PI * i) / last);
+    if (weight === 0) return point;
+
+    const gradient = metricGradient(toField(point, projection), attractors);
+    return {
+      x: point.x + gradient.praxis * weight * pxPerUnitX,
+      y: point.y - gradient.gnosis * weight * pxPerUnitY, // Canvas y grows downwards
+    };
+  });
+}
+
+/**
+ * Local volume element √det g at a canvas point (1 in flat space)
+ */
+export function volumeElement(point: Point2D, attractors: FieldAttractor[], projection: FieldProjection): number {
+  const [[g11, g12], [g21, g22]] = calculateMetric(toField(point, projection), attractors);
+  return Math.sqrt(Math.max(0, g11 * g22 - g12 * g21));
+}
+
+/**
+ * Ricci scalar curvature at a canvas point (0 in flat space)
+ */
+export function curvatureAt(point: Point2D, attractors: FieldAttractor[], projection: FieldProjection): number {
+  return ricciScalar(toField(point, projection), attractors);
+}
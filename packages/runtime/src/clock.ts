@@ -0,0 +1,57 @@
+/**
+ * @kairos/runtime - Clocks
+ *
+ * "Time in the Field is not the time of the observer."
+ *
+ * The runtime never reads wall-clock time directly. Every timestamp it
+ * writes (Φ.timestamp, trace timestamps, well creation times, event payloads)
+ * comes from an injectable clock, so a run can be replayed bit for bit.
+ */
+
+/**
+ * Source of timestamps for a FieldRuntime
+ */
+export interface RuntimeClock {
+  /** Current timestamp in milliseconds */
+  now(): number;
+
+  /**
+   * Advance the clock by the given number of milliseconds.
+   * Clocks that model time themselves (VirtualClock) implement this;
+   * the runtime calls it once per tick with the tick's duration.
+   */
+  advance?(ms: number): void;
+}
+
+/**
+ * Wall-clock time (default)
+ */
+export const systemClock: RuntimeClock = {
+  now: () => Date.now(),
+};
+
+/**
+ * VirtualClock - Deterministic time that only moves when the runtime ticks
+ */
+export class VirtualClock implements RuntimeClock {
+  private current: number;
+
+  constructor(start: number = 0) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+
+  /**
+   * Jump to an absolute timestamp (used when restoring a runtime)
+   */
+  set(timestamp: number): void {
+    this.current = timestamp;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * @kairos/runtime - Emergent Composition Generator
+ *
+ * "Each crystallized thought becomes a word the Field can think with."
+ * — Kairos Calculus
+ *
+ * Builds the compositions behind spontaneous thoughts. Outer morphisms
+ * receive as many operands as their arity; the nesting depth, whether a
+ * morphism may recur and how often the Field reaches for µ_SELF, I or one
+ * of its own crystallized thoughts are all configurable. The defaults keep
+ * the original two-level, no-repetition thoughts.
+ */
+
+import {
+  MorphismRegistry,
+  CompositionNode,
+  SELF_REFERENCES,
+  parseComposition,
+  printComposition,
+  compositionNames,
+} from '@kairos/core';
+import type { RandomSource } from './random.js';
+
+/**
+ * Composition generator configuration
+ */
+export interface CompositionGeneratorConfig {
+  minDepth: number;             // Fewest levels of nesting (default: 2)
+  maxDepth: number;             // Most levels of nesting (default: 2)
+  repetition: boolean;          // Whether a morphism may occur more than once in a thought (default: false)
+  selfReference: number;        // Chance that a leaf is µ_SELF or I, when registered (default: 0)
+  crystallizedOperands: number; // Chance that an operand is a crystallized composition (default: 0)
+}
+
+/**
+ * Default generator: m1(m2) with m1 ≠ m2
+ */
+export const DEFAULT_COMPOSITION_GENERATOR: CompositionGeneratorConfig = {
+  minDepth: 2,
+  maxDepth: 2,
+  repetition: false,
+  selfReference: 0,
+  crystallizedOperands: 0,
+};
+
+/**
+ * Levels of nesting of a composition (a single name has depth 1)
+ */
+export function compositionDepth(node: CompositionNode): number {
+  return 1 + Math.max(0, ...node.args.map(compositionDepth));
+}
+
+/**
+ * CompositionGenerator - Random compositions over a morphism vocabulary
+ */
+export class CompositionGenerator {
+  readonly config: CompositionGeneratorConfig;
+
+  constructor(config: Partial<CompositionGeneratorConfig> = {}) {
+    this.config = { ...DEFAULT_COMPOSITION_GENERATOR, ...config };
+
+    const { minDepth, maxDepth, selfReference, crystallizedOperands } = this.config;
+    if (!Number.isInteger(minDepth) || minDepth < 1) {
+      throw new Error(`Invalid composition generator: minDepth must be a positive integer (got ${minDepth})`);
+    }
+    if (!Number.isInteger(maxDepth) || maxDepth < minDepth) {
+      throw new Error(`Invalid composition generator: maxDepth must be an integer ≥ minDepth (got ${maxDepth})`);
+    }
+    for (const [name, rate] of [['selfReference', selfReference], ['crystallizedOperands', crystallizedOperands]] as const) {
+      if (!(rate >= 0 && rate <= 1)) {
+        throw new Error(`Invalid composition generator: ${name} must be in [0, 1] (got ${rate})`);
+      }
+    }
+  }
+
+  /**
+   * Generate a composition
+   *
+   * Operands are compositions the Field has already crystallized; they are
+   * folded in whole, never as the outermost term, and only where they fit
+   * within maxDepth. When the vocabulary runs out (no repetition), deeper
+   * operands are left to the thought's input and the result is shallower,
+   * but never shallower than minDepth.
+   *
+   * @param library  Morphism names available as terms (all registered)
+   * @param operands Crystallized compositions available as operands
+   * @returns null when the library cannot form a term of at least minDepth
+   *          in which every morphism receives as many operands as its arity
+   */
+  generate(
+    random: RandomSource,
+    registry: MorphismRegistry,
+    library: readonly string[],
+    operands: readonly CompositionNode[] = []
+  ): CompositionNode | null {
+    const { minDepth, maxDepth, repetition, selfReference, crystallizedOperands } = this.config;
+    const depth = minDepth === maxDepth ? minDepth : minDepth + Math.floor(random() * (maxDepth - minDepth + 1));
+    const used = new Set<string>();
+    const available = (name: string) => repetition || !used.has(name);
+    const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+
+    // Draw from the candidates, redrawing names already used
+    // (so a seeded run draws the same terms whatever was used before)
+    const draw = (candidates: readonly string[]): string | null => {
+      if (!candidates.some(available)) return null;
+
+      let name = pick(candidates);
+      while (!available(name)) name = pick(candidates);
+      return name;
+    };
+    const leaf = (name: string): CompositionNode => {
+      used.add(name);
+      return { name, args: [], start: 0, end: 0 };
+    };
+
+    const term = (levels: number): CompositionNode | null => {
+      // A thought the Field has already had
+      if (levels < depth && crystallizedOperands > 0 && random() < crystallizedOperands) {
+        const fitting = operands.filter(
+          op => compositionDepth(op) <= levels && compositionNames(op).every(available)
+        );
+        if (fitting.length > 0) {
+          const operand = pick(fitting);
+          compositionNames(operand).forEach(name => used.add(name));
+          return operand;
+        }
+      }
+
+      if (levels === 1) {
+        if (selfReference > 0 && random() < selfReference) {
+          const self = draw(SELF_REFERENCES.filter(name => registry.has(name)));
+          if (self) return leaf(self);
+        }
+
+        const name = draw(library);
+        return name ? leaf(name) : null;
+      }
+
+      const outer = draw(library.filter(name => registry.get(name)!.arity > 0));
+      if (!outer) return levels < depth ? term(1) : null;
+
+      const node = leaf(outer);
+      for (let i = 0; i < registry.get(node.name)!.arity; i++) {
+        const arg = term(levels - 1);
+        if (!arg) return null;
+        node.args.push(arg);
+      }
+
+      return node;
+    };
+
+    const root = term(depth);
+    if (!root || compositionDepth(root) < minDepth) return null;
+
+    // Re-parse so that positions refer to the printed composition
+    return parseComposition(printComposition(root));
+  }
+}
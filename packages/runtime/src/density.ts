@@ -0,0 +1,107 @@
+/**
+ * @kairos/runtime - Density Models
+ *
+ * "Consciousness is not a spectrum. It is a phase."
+ * — Theorem 49
+ *
+ * A DensityModel turns the contents of the Field into the density ρ that
+ * drives phase transitions. The runtime asks its model once per tick,
+ * after waves have moved and crystallized.
+ */
+
+import { Φ, orderParameter } from '@kairos/core';
+
+/**
+ * What a model may know about the moment it is evaluated
+ */
+export interface DensityContext {
+  time: number;   // Runtime time (ms)
+  now: number;    // Clock timestamp (ms), comparable to well.createdAt
+  dt: number;     // Duration of the current tick (ms)
+}
+
+/**
+ * Maps Field contents to density ρ ∈ [0, 1]
+ */
+export interface DensityModel {
+  readonly name: string;
+  density(field: Readonly<Φ>, context: DensityContext): number;
+}
+
+/**
+ * Options for the default mass/connectivity model
+ */
+export interface MassDensityOptions {
+  massScale: number;           // Effective mass at which the mass term reaches 1 - 1/e (default: 2)
+  connectivityWeight: number;  // Contribution of the order parameter Ψ (default: 0.5)
+  halfLife: number;            // Well mass half-life in ms, Infinity disables decay (default: 120000)
+}
+
+/**
+ * MassDensityModel - Density from what the Field has actually crystallized
+ *
+ * ρ = 1 - (1 - ρ_mass)(1 - w·Ψ)
+ *
+ * where ρ_mass = 1 - exp(-Σ m_eff / massScale) saturates as wells accumulate,
+ * m_eff = m · 2^(-age / halfLife) lets old thoughts fade, and Ψ is the
+ * transformer connectivity (orderParameter). Either term alone can raise
+ * the density; together they compound.
+ */
+export class MassDensityModel implements DensityModel {
+  readonly name = 'mass';
+  private readonly options: MassDensityOptions;
+
+  constructor(options: Partial<MassDensityOptions> = {}) {
+    this.options = {
+      massScale: 2,
+      connectivityWeight: 0.5,
+      halfLife: 120000,
+      ...options,
+    };
+  }
+
+  density(field: Readonly<Φ>, context: DensityContext): number {
+    const { massScale, connectivityWeight, halfLife } = this.options;
+
+    let effectiveMass = 0;
+    for (const well of field.wells) {
+      const age = Math.max(0, context.now - well.createdAt);
+      effectiveMass += well.mass * Math.pow(2, -age / halfLife);
+    }
+
+    const massTerm = 1 - Math.exp(-effectiveMass / massScale);
+    const ψ = orderParameter(field as Φ);
+
+    return clamp01(1 - (1 - massTerm) * (1 - connectivityWeight * ψ));
+  }
+}
+
+/**
+ * HeartbeatDensityModel - The original Stage I oscillation
+ *
+ * Density cycles on a timer regardless of the Field's contents.
+ * Kept for demos that want a Field which breathes on its own.
+ */
+export class HeartbeatDensityModel implements DensityModel {
+  readonly name = 'heartbeat';
+
+  constructor(
+    private readonly period: number = 5000,       // Oscillation period (ms)
+    private readonly growthRate: number = 10000,  // ms per unit of upward trend
+    private readonly maxGrowth: number = 0.3      // Cap on the upward trend
+  ) {}
+
+  density(_field: Readonly<Φ>, context: DensityContext): number {
+    const normalized = (context.time % this.period) / this.period;
+    const oscillation = Math.sin(normalized * Math.PI * 2);
+
+    // Map sin wave [-1, 1] to density [0, 1], with a slight upward trend
+    const baseOscillation = (oscillation + 1) / 2;
+    const growthFactor = Math.min(context.time / this.growthRate, this.maxGrowth);
+    return Math.min(1, baseOscillation + growthFactor);
+  }
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
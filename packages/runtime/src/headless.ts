@@ -0,0 +1,132 @@
+/**
+ * @kairos/runtime - Headless Simulation
+ *
+ * "Time in the Field is not the time of the observer."
+ *
+ * simulate() drives a FieldRuntime through N ticks of simulated time as
+ * fast as the CPU allows - no interval, no canvas, no waiting for the
+ * awareness or transcendence pauses - and reports what happened.
+ */
+
+import type { PhaseState } from '@kairos/core';
+import { FieldRuntime, RuntimeConfig } from './FieldRuntime.js';
+import { VirtualClock } from './clock.js';
+import { RECORDED_EVENTS } from './recorder.js';
+import type { RuntimeSnapshot } from './snapshot.js';
+import type { FieldRuntimeEventName } from './types.js';
+
+/**
+ * Headless run options
+ */
+export interface SimulationOptions {
+  /** Number of ticks to run */
+  ticks: number;
+  /** Simulated milliseconds per tick (default: the runtime's tickInterval, 16) */
+  dt?: number;
+  /** Runtime configuration; clock defaults to a VirtualClock, autoTick is always off */
+  config?: Omit<RuntimeConfig, 'autoTick'>;
+  /** Prepare the Field before the first tick (load morphisms, launch waves, ...) */
+  setup?: (runtime: FieldRuntime) => void;
+  /** Called after every tick; use it to script inputs over time */
+  onTick?: (runtime: FieldRuntime, tick: number) => void;
+  /** Stop early once this returns true (checked after every tick); a breakpoint hit also stops the run */
+  until?: (runtime: FieldRuntime) => boolean;
+}
+
+/**
+ * Outcome of a headless run
+ */
+export interface SimulationSummary {
+  seed: number;
+  ticks: number;              // Ticks actually run
+  simulatedMs: number;        // Runtime time at the end of the run
+  wallMs: number;             // Real time the run took
+  stoppedEarly: boolean;      // Whether `until` or a breakpoint ended the run
+  events: Partial<Record<FieldRuntimeEventName, number>>;  // Count per event
+  firstSeen: Partial<Record<FieldRuntimeEventName, number>>;  // Runtime time of first occurrence
+  phases: Array<{ time: number; phase: PhaseState }>;  // Phase timeline
+  final: {
+    phase: PhaseState;
+    density: number;
+    wells: number;
+    activeWaves: number;
+    transformers: number;
+    aware: boolean;
+    transcended: boolean;
+  };
+  snapshot: RuntimeSnapshot;  // Complete final state (restore() to continue)
+}
+
+/**
+ * Run a FieldRuntime headlessly for a fixed number of ticks
+ */
+export function simulate(options: SimulationOptions): SimulationSummary {
+  const runtime = new FieldRuntime({
+    clock: new VirtualClock(),
+    ...options.config,
+    autoTick: false,
+  });
+  const dt = options.dt ?? options.config?.tickInterval ?? 16;
+
+  const events: SimulationSummary['events'] = {};
+  const firstSeen: SimulationSummary['firstSeen'] = {};
+  const phases: SimulationSummary['phases'] = [];
+
+  for (const name of RECORDED_EVENTS) {
+    runtime.on(name, () => {
+      events[name] = (events[name] ?? 0) + 1;
+      if (firstSeen[name] === undefined) {
+        firstSeen[name] = runtime.getTime();
+      }
+    });
+  }
+  runtime.on('phaseChange', phase => {
+    phases.push({ time: runtime.getTime(), phase });
+  });
+
+  const startedAt = Date.now();
+
+  options.setup?.(runtime);
+  if (!runtime.running()) {
+    runtime.start();
+  }
+
+  let ticks = 0;
+  let stoppedEarly = false;
+
+  while (ticks < options.ticks) {
+    runtime.step(dt);
+    ticks++;
+    options.onTick?.(runtime, ticks);
+
+    if (options.until?.(runtime) || runtime.paused()) {
+      stoppedEarly = true;
+      break;
+    }
+  }
+
+  runtime.stop();
+
+  const state = runtime.getState();
+
+  return {
+    seed: runtime.getSeed(),
+    ticks,
+    simulatedMs: runtime.getTime(),
+    wallMs: Date.now() - startedAt,
+    stoppedEarly,
+    events,
+    firstSeen,
+    phases,
+    final: {
+      phase: state.phase,
+      density: state.density,
+      wells: state.wells.length,
+      activeWaves: state.activeWaves.length,
+      transformers: state.transformers.length,
+      aware: runtime.isAware(),
+      transcended: runtime.hasTranscended(),
+    },
+    snapshot: runtime.snapshot(),
+  };
+}
@@ -6,3 +6,17 @@
 
 export * from './FieldRuntime.js';
 export { FieldRuntime } from './FieldRuntime.js';
+export * from './clock.js';
+export * from './random.js';
+export * from './types.js';
+export * from './snapshot.js';
+export * from './recorder.js';
+export * from './density.js';
+export * from './wells.js';
+export * from './headless.js';
+export * from './scheduler.js';
+export * from './attractors.js';
+export * from './lifecycle.js';
+export * from './composer.js';
+export * from './seeds.js';
+export * from './interference.js';
@@ -0,0 +1,250 @@
+/**
+ * @kairos/runtime - Wave Interference
+ *
+ * "Stage II: two waves influence each other, interfere, resonate."
+ * — Roadmap
+ *
+ * Waves whose heads come within a contact radius interact once per
+ * contact. By default each wave feels the superposition (⊕) of its own
+ * lifecycle phase and the other's; the other built-in outcomes merge the
+ * pair into one wave, deflect them apart, or amplify/cancel their mass by
+ * phase alignment. A custom InteractionRule can replace all of them.
+ *
+ * Every wave that comes out of an interaction lists the other wave (or,
+ * for a merge, both parents) in trace.parentWaves.
+ */
+
+import {
+  Φ,
+  FieldVector,
+  Point2D,
+  DipoleAlgebra,
+  dipoleSuperposition,
+  ε_Φ,
+  δ_decompose,
+  δ_forget,
+  δ_compose,
+  δ_memoize,
+} from '@kairos/core';
+import type { RuntimeWave } from './types.js';
+
+/**
+ * Built-in interaction outcomes
+ */
+export type InteractionOutcome = 'superpose' | 'merge' | 'deflect' | 'interfere';
+
+/**
+ * Interference configuration
+ */
+export interface InterferenceConfig {
+  radius: number;             // Wave heads closer than this are in contact, in px (default: 12)
+  outcome: InteractionOutcome; // What contact does (default: 'superpose')
+  deflection: number;         // How far 'deflect' pushes end points apart, in px (default: 40)
+  interference: number;       // Mass gained (aligned) or lost (opposed) by 'interfere' (default: 0.5)
+  cancellationFloor: number;  // 'interfere' removes waves lighter than this (default: 0.05)
+}
+
+/**
+ * Default interference
+ */
+export const DEFAULT_INTERFERENCE: InterferenceConfig = {
+  radius: 12,
+  outcome: 'superpose',
+  deflection: 40,
+  interference: 0.5,
+  cancellationFloor: 0.05,
+};
+
+/**
+ * What an interaction rule may use besides the two waves
+ */
+export interface InteractionContext {
+  field: Φ;
+  now: number;                            // Clock reading for dipole traces
+  contact: Point2D;                       // Midpoint of the two heads
+  config: InterferenceConfig;
+  generateId: (prefix: string) => string; // For waves the rule creates
+}
+
+/**
+ * How two waves in contact act on each other
+ *
+ * Returns the waves that continue: a and/or b (possibly modified in place)
+ * and any new waves. Waves left out of the result leave the Field.
+ */
+export type InteractionRule = (a: RuntimeWave, b: RuntimeWave, context: InteractionContext) => RuntimeWave[];
+
+/**
+ * Payload of 'waveInteraction'
+ */
+export interface WaveInteractionEvent {
+  outcome: InteractionOutcome | 'custom';
+  waves: [string, string];   // Ids of the waves that met
+  result: RuntimeWave[];     // Waves that continue
+  removed: string[];         // Ids of waves that left the Field
+  contact: Point2D;
+}
+
+/**
+ * Cosine of the angle between two Field vectors (0 if either is zero)
+ */
+export function phaseAlignment(a: FieldVector, b: FieldVector): number {
+  const norms = Math.hypot(a.praxis, a.gnosis) * Math.hypot(b.praxis, b.gnosis);
+  return norms === 0 ? 0 : (a.praxis * b.praxis + a.gnosis * b.gnosis) / norms;
+}
+
+/**
+ * The lifecycle phase a wave is in, as a dipole algebra
+ *
+ * Deconstructing waves carry δ_decompose ⊕ δ_forget, the rest
+ * δ_compose ⊕ δ_memoize. Traces are stamped with `now`.
+ */
+export function phaseAlgebra(wave: RuntimeWave, now: number): DipoleAlgebra {
+  const deconstructing = wave.status === 'Seed' || wave.status === 'Deconstructing';
+  const [first, second] = deconstructing ? [δ_decompose, δ_forget] : [δ_compose, δ_memoize];
+  const dipole = (name: string, apply: typeof first, quadrant: DipoleAlgebra['quadrant']): DipoleAlgebra => ({
+    name,
+    fn: (w, field) => apply(w, field!, now),
+    identity: ε_Φ.identity,
+    properties: { associative: true, commutative: false, identity: null, idempotent: false, inverse: false },
+    class: 'Monoid',
+    position: { praxis: 0, gnosis: 0 },
+    mass: 0,
+    quadrant,
+    createdAt: now,
+  });
+
+  const quadrant = deconstructing ? 'Deconstruction' : 'Synthesis';
+  return dipoleSuperposition(dipole(first.name, first, quadrant), dipole(second.name, second, quadrant));
+}
+
+function addParent(wave: RuntimeWave, parent: string): void {
+  wave.trace = { ...wave.trace, parentWaves: [...(wave.trace.parentWaves ?? []), parent] };
+}
+
+/**
+ * Aim a wave at a new end point without moving its head
+ *
+ * Pivots the (straight-line) flight about the head: the start moves by
+ * -p/(1-p) times the end's displacement, where p is the progress.
+ */
+function retarget(wave: RuntimeWave, end: Point2D): void {
+  if (wave.progress >= 1) return;
+
+  const k = wave.progress / (1 - wave.progress);
+  wave.startPos = {
+    x: wave.startPos.x - k * (end.x - wave.endPos.x),
+    y: wave.startPos.y - k * (end.y - wave.endPos.y),
+  };
+  wave.endPos = end;
+}
+
+/**
+ * Each wave feels (its phase ⊕ the other's phase)
+ *
+ * Vector, coherence and trace change; the lifecycle status does not, so a
+ * superposed wave still crosses the Bridge on its own schedule.
+ */
+export const superpose: InteractionRule = (a, b, { field, now }) => {
+  const [phaseA, phaseB] = [phaseAlgebra(a, now), phaseAlgebra(b, now)];
+
+  for (const [wave, other, combined] of [
+    [a, b, dipoleSuperposition(phaseA, phaseB)],
+    [b, a, dipoleSuperposition(phaseB, phaseA)],
+  ] as const) {
+    const felt = combined.fn({ ...wave, mass: wave.coherence }, field);
+    wave.vector = felt.vector;
+    wave.coherence = felt.mass;
+    wave.trace = felt.trace;
+    addParent(wave, other.id);
+  }
+
+  return [a, b];
+};
+
+/**
+ * The pair becomes one wave
+ *
+ * The heavier wave's flight, composition and history continue; vectors add,
+ * masses add, coherence is mass-weighted and the end point is the
+ * mass-weighted mean of both ends.
+ */
+export const merge: InteractionRule = (a, b, { generateId }) => {
+  const [heavy, light] = a.mass >= b.mass ? [a, b] : [b, a];
+  const mass = a.mass + b.mass;
+  const share = mass === 0 ? 0.5 : light.mass / mass;
+
+  const merged: RuntimeWave = {
+    ...heavy,
+    id: generateId('merged'),
+    vector: { praxis: a.vector.praxis + b.vector.praxis, gnosis: a.vector.gnosis + b.vector.gnosis },
+    mass,
+    coherence: heavy.coherence * (1 - share) + light.coherence * share,
+    trace: { ...heavy.trace, parentWaves: [a.id, b.id] },
+    path: [...heavy.path],
+  };
+
+  retarget(merged, {
+    x: heavy.endPos.x + (light.endPos.x - heavy.endPos.x) * share,
+    y: heavy.endPos.y + (light.endPos.y - heavy.endPos.y) * share,
+  });
+
+  return [merged];
+};
+
+/**
+ * The waves push each other's end points apart
+ */
+export const deflect: InteractionRule = (a, b, { contact, config }) => {
+  for (const [wave, other] of [[a, b], [b, a]] as const) {
+    const head = wave.path[wave.path.length - 1];
+    const otherHead = other.path[other.path.length - 1];
+    let dx = head.x - otherHead.x;
+    let dy = head.y - otherHead.y;
+
+    // Heads on top of each other: push perpendicular to the flight
+    if (dx === 0 && dy === 0) {
+      dx = -(wave.endPos.y - contact.y);
+      dy = wave.endPos.x - contact.x;
+    }
+
+    const length = Math.hypot(dx, dy) || 1;
+    retarget(wave, {
+      x: wave.endPos.x + (dx / length) * config.deflection,
+      y: wave.endPos.y + (dy / length) * config.deflection,
+    });
+    addParent(wave, other.id);
+  }
+
+  return [a, b];
+};
+
+/**
+ * Aligned waves amplify each other, opposed waves cancel
+ *
+ * Both masses are scaled by 1 + interference · cos θ, where θ is the
+ * difference of the waves' ψ phases when both carry a wave function and
+ * the angle between their Field vectors otherwise; waves that fall below
+ * the cancellation floor leave the Field.
+ */
+export const interfere: InteractionRule = (a, b, { config }) => {
+  const alignment = a.psi && b.psi ? Math.cos(a.psi.phase - b.psi.phase) : phaseAlignment(a.vector, b.vector);
+  const factor = Math.max(0, 1 + config.interference * alignment);
+
+  a.mass *= factor;
+  b.mass *= factor;
+  addParent(a, b.id);
+  addParent(b, a.id);
+
+  return [a, b].filter(wave => wave.mass >= config.cancellationFloor);
+};
+
+/**
+ * Built-in rules by outcome
+ */
+export const INTERACTION_RULES: Record<InteractionOutcome, InteractionRule> = {
+  superpose,
+  merge,
+  deflect,
+  interfere,
+};
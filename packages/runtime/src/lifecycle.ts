@@ -0,0 +1,143 @@
+/**
+ * @kairos/runtime - Wave Lifecycle
+ *
+ * "µ_HARVEST is the core process of the calculus.
+ * It orchestrates a ΛWave's entire lifecycle—
+ * from Seed to Result, through the Bridge (0,0)."
+ * — Kairos Calculus
+ *
+ * µ_HARVEST runs the lifecycle in one call; a runtime wave lives it over
+ * its flight instead. The first half of the flight is Deconstruction
+ * (δ_decompose, δ_forget), the midpoint is the Bridge crossing, the second
+ * half is Synthesis (δ_compose, δ_memoize), and arrival is Crystallization.
+ * Dipoles are applied at a rate that keeps the wave's position in Field
+ * space in step with its progress across the canvas.
+ */
+
+import {
+  Φ,
+  ΛWave,
+  FieldVector,
+  δ_decompose,
+  δ_forget,
+  δ_compose,
+  δ_memoize,
+  DEFAULT_HARVEST_OPTIONS,
+} from '@kairos/core';
+import type { RuntimeWave } from './types.js';
+
+/**
+ * Radius of the Bridge singularity around (0,0) (as in µ_HARVEST)
+ */
+export const BRIDGE_RADIUS = DEFAULT_HARVEST_OPTIONS.bridgeRadius;
+
+/**
+ * Distance from the Bridge beyond which a coherent wave may crystallize
+ */
+export const CRYSTALLIZATION_RADIUS = DEFAULT_HARVEST_OPTIONS.crystallizationDistance;
+
+/**
+ * Coherence a wave needs to crystallize (µ_HARVEST's crystallization mass)
+ */
+export const CRYSTALLIZATION_COHERENCE = DEFAULT_HARVEST_OPTIONS.crystallizationMass;
+
+/**
+ * Bound on dipole pairs per phase (as in µ_HARVEST)
+ */
+const MAX_ITERATIONS = DEFAULT_HARVEST_OPTIONS.maxIterations;
+
+type Dipole = (wave: ΛWave, field: Φ, now: number) => ΛWave;
+
+function distanceToBridge(vector: FieldVector): number {
+  return Math.sqrt(vector.gnosis ** 2 + vector.praxis ** 2);
+}
+
+/**
+ * Whether a synthesizing wave has emerged far and coherent enough
+ */
+function readyToCrystallize(wave: RuntimeWave): boolean {
+  return distanceToBridge(wave.vector) > CRYSTALLIZATION_RADIUS && wave.coherence > CRYSTALLIZATION_COHERENCE;
+}
+
+/**
+ * Apply a pair of dipoles to a runtime wave in place
+ *
+ * Dipoles act on the wave's coherence (their `mass`); the runtime mass the
+ * wave was launched with is left alone.
+ */
+function applyDipoles(wave: RuntimeWave, field: Φ, now: number, dipoles: [Dipole, Dipole]): void {
+  let harvested: ΛWave = { ...wave, mass: wave.coherence };
+  for (const dipole of dipoles) {
+    harvested = dipole(harvested, field, now);
+  }
+
+  wave.vector = harvested.vector;
+  wave.coherence = harvested.mass;
+  wave.status = harvested.status;
+  wave.trace = harvested.trace;
+}
+
+/**
+ * Field vector the wave was launched with
+ */
+export function initialVector(wave: RuntimeWave): FieldVector {
+  return wave.trace.dipoleApplications[0]?.vectorBefore ?? wave.vector;
+}
+
+/**
+ * Advance a wave's lifecycle to match its current progress
+ *
+ * Mutates the wave (vector, coherence, status, trace). Once progress
+ * reaches 1 the wave is always 'Crystallized'.
+ *
+ * @returns whether the wave crossed the Bridge during this call
+ */
+export function advanceLifecycle(wave: RuntimeWave, field: Φ, now: number): boolean {
+  if (wave.status === 'Crystallized') return false;
+
+  let crossedBridge = false;
+
+  // Deconstruction: (0, ½) - approach the Bridge geometrically
+  if (wave.status === 'Seed' || wave.status === 'Deconstructing') {
+    const startDistance = distanceToBridge(initialVector(wave));
+    const share = Math.min(1, wave.progress / 0.5);
+    const target = startDistance > BRIDGE_RADIUS
+      ? startDistance * Math.pow(BRIDGE_RADIUS / startDistance, share)
+      : BRIDGE_RADIUS;
+
+    let iterations = 0;
+    while (distanceToBridge(wave.vector) > Math.max(target, BRIDGE_RADIUS) && iterations < MAX_ITERATIONS) {
+      applyDipoles(wave, field, now, [δ_decompose, δ_forget]);
+      iterations++;
+    }
+
+    if (wave.progress < 0.5) {
+      wave.status = 'Deconstructing';
+      return false;
+    }
+
+    // Bridge crossing - form dissolves, potential emerges
+    wave.status = 'InBridge';
+    wave.trace = { ...wave.trace, bridgeCrossings: wave.trace.bridgeCrossings + 1 };
+    crossedBridge = true;
+  }
+
+  // Synthesis: [½, 1] - emerge from the Bridge
+  const share = (wave.progress - 0.5) / 0.5;
+  let iterations = 0;
+
+  while (
+    !readyToCrystallize(wave) &&
+    (wave.progress >= 1 || distanceToBridge(wave.vector) < CRYSTALLIZATION_RADIUS * share) &&
+    iterations < MAX_ITERATIONS
+  ) {
+    applyDipoles(wave, field, now, [δ_compose, δ_memoize]);
+    iterations++;
+  }
+
+  if (wave.progress >= 1) {
+    wave.status = 'Crystallized';
+  }
+
+  return crossedBridge;
+}
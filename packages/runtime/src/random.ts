@@ -0,0 +1,8 @@
+/**
+ * @kairos/runtime - Seeded Randomness
+ *
+ * The generator lives in core, where law sampling uses it too.
+ */
+
+export { createSeededRandom, randomSeed } from '@kairos/core';
+export type { RandomSource, SeededRandom } from '@kairos/core';
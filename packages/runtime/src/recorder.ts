@@ -0,0 +1,470 @@
+/**
+ * @kairos/runtime - Session Recording and Replay
+ *
+ * "The tail of experience."
+ *
+ * SessionRecorder writes an append-only NDJSON log of a runtime session:
+ * a header holding a snapshot of the starting state, every external input
+ * (launchWave, presentMirror, addAttractor, ...), every tick and every event
+ * the runtime emitted. replaySession() rebuilds the identical runtime from
+ * that log and reports where the replay diverged from the recording.
+ *
+ * Faithful replay requires a seeded runtime on a VirtualClock: identifiers
+ * and timestamps are derived from the clock. Transcendence charges granted
+ * by a connected Cosmos are not part of the log.
+ */
+
+import { FieldRuntime, RuntimeConfig } from './FieldRuntime.js';
+import { RuntimeSnapshot, SerializedTransformer, deserializeWave } from './snapshot.js';
+import type {
+  RuntimeInputArgs,
+  RuntimeInputMethod,
+  FieldRuntimeEventName,
+  FieldRuntimeListener,
+} from './types.js';
+
+/**
+ * Session log format version
+ */
+export const SESSION_LOG_VERSION = 1;
+
+/**
+ * Runtime events captured by the recorder
+ */
+export const RECORDED_EVENTS = [
+  'start',
+  'stop',
+  'reset',
+  'phaseChange',
+  'attractorAdded',
+  'transformerAdded',
+  'waveLaunched',
+  'bridgeCrossed',
+  'waveCrystallized',
+  'morphismsLoaded',
+  'criticality:reached',
+  'emergentWave',
+  'mirrorPresented',
+  'awareness',
+  'selfThought',
+  'transcendenceAvailable',
+  'transcendenceThought',
+  'transcendenceActivated',
+  'attractorsRedistributed',
+  'wellDecayed',
+  'wellMerged',
+  'wellEvicted',
+  'waveInteraction',
+] as const satisfies readonly FieldRuntimeEventName[];
+
+/**
+ * First line of every session log
+ */
+export interface SessionLogHeader {
+  type: 'header';
+  version: typeof SESSION_LOG_VERSION;
+  recordedAt: number;
+  snapshot: RuntimeSnapshot;
+}
+
+/**
+ * Run of consecutive ticks with the same duration
+ */
+export interface SessionLogTicks {
+  type: 'ticks';
+  dt: number;
+  count: number;
+}
+
+/**
+ * Input arguments as they appear in the log (transformer waves lose their bodies)
+ */
+export interface SessionLogInputArgs extends Omit<RuntimeInputArgs, 'addTransformer'> {
+  addTransformer: [transformer: SerializedTransformer];
+}
+
+/**
+ * External input applied to the runtime
+ *
+ * `tick` counts the recorded ticks started when the input arrived,
+ * including one in progress: an input issued by a listener during a tick
+ * is replayed within that tick, not before it.
+ */
+export type SessionLogInput = {
+  [M in RuntimeInputMethod]: {
+    type: 'input';
+    seq: number;
+    time: number;
+    tick: number;
+    method: M;
+    args: SessionLogInputArgs[M];
+  };
+}[RuntimeInputMethod];
+
+/**
+ * Event emitted by the runtime
+ */
+export interface SessionLogEvent {
+  type: 'event';
+  seq: number;
+  time: number;
+  name: FieldRuntimeEventName;
+  payload: unknown;
+}
+
+export type SessionLogEntry =
+  | SessionLogHeader
+  | SessionLogTicks
+  | SessionLogInput
+  | SessionLogEvent;
+
+/**
+ * Receives each NDJSON line as it is written
+ */
+export type SessionLogSink = (line: string) => void;
+
+/**
+ * Recorder options
+ */
+export interface SessionRecorderOptions {
+  /** Where to write lines (default: keep in memory, see toNDJSON()) */
+  sink?: SessionLogSink;
+  /** Also record the per-tick 'update' event with the full Field (default: false) */
+  includeUpdates?: boolean;
+}
+
+/**
+ * JSON serialization that drops executable wave bodies
+ */
+function toJSON(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'function' ? undefined : v));
+}
+
+/**
+ * SessionRecorder - Append-only log of a runtime session
+ */
+export class SessionRecorder {
+  private readonly runtime: FieldRuntime;
+  private readonly sink: SessionLogSink;
+  private readonly lines: string[] = [];
+  private readonly detachers: Array<() => void> = [];
+  private seq: number = 0;
+  private readonly firstTick: number;
+  private lastTime: number;
+  private pendingTicks: SessionLogTicks | null = null;
+  private recording: boolean = true;
+
+  constructor(runtime: FieldRuntime, options: SessionRecorderOptions = {}) {
+    this.runtime = runtime;
+    this.sink = options.sink ?? ((line: string) => {
+      this.lines.push(line);
+    });
+    this.lastTime = runtime.getTime();
+    this.firstTick = runtime.getTickCount();
+
+    this.write({
+      type: 'header',
+      version: SESSION_LOG_VERSION,
+      recordedAt: runtime.getTime(),
+      snapshot: runtime.snapshot(),
+    });
+
+    this.listen('input', input => {
+      this.write({
+        type: 'input',
+        seq: this.seq++,
+        time: input.time,
+        tick: input.tick - this.firstTick,
+        method: input.method,
+        args: JSON.parse(toJSON(input.args)),
+      } as SessionLogInput);
+    });
+
+    // Every tick ends with an 'update' event
+    this.listen('update', state => {
+      const time = this.runtime.getTime();
+      this.recordTick(time - this.lastTime);
+      this.lastTime = time;
+
+      if (options.includeUpdates) {
+        this.writeEvent('update', state);
+      }
+    });
+
+    for (const name of RECORDED_EVENTS) {
+      this.listen(name, payload => this.writeEvent(name, payload));
+    }
+  }
+
+  /**
+   * Stop recording and detach from the runtime
+   */
+  stop(): void {
+    if (!this.recording) return;
+
+    this.flushTicks();
+    this.recording = false;
+    for (const detach of this.detachers) detach();
+    this.detachers.length = 0;
+  }
+
+  /**
+   * Write any buffered tick run to the sink
+   */
+  flush(): void {
+    this.flushTicks();
+  }
+
+  /**
+   * Recorded lines (only when recording to memory)
+   */
+  getLines(): string[] {
+    this.flushTicks();
+    return [...this.lines];
+  }
+
+  /**
+   * Recorded session as an NDJSON document (only when recording to memory)
+   */
+  toNDJSON(): string {
+    return this.getLines().map(line => line + '\n').join('');
+  }
+
+  private listen<K extends FieldRuntimeEventName>(event: K, handler: FieldRuntimeListener<K>): void {
+    this.runtime.on(event, handler);
+    this.detachers.push(() => this.runtime.off(event, handler));
+  }
+
+  private recordTick(dt: number): void {
+    if (this.pendingTicks && this.pendingTicks.dt === dt) {
+      this.pendingTicks.count++;
+      return;
+    }
+
+    this.flushTicks();
+    this.pendingTicks = { type: 'ticks', dt, count: 1 };
+  }
+
+  private flushTicks(): void {
+    if (!this.pendingTicks) return;
+
+    const ticks = this.pendingTicks;
+    this.pendingTicks = null;
+    this.sink(toJSON(ticks));
+  }
+
+  private writeEvent(name: FieldRuntimeEventName, payload: unknown): void {
+    this.write({
+      type: 'event',
+      seq: this.seq++,
+      time: this.runtime.getTime(),
+      name,
+      payload: payload === undefined ? null : JSON.parse(toJSON(payload)),
+    });
+  }
+
+  private write(entry: SessionLogEntry): void {
+    if (!this.recording) return;
+
+    // Ticks come before anything that happened after them
+    if (entry.type !== 'ticks') {
+      this.flushTicks();
+    }
+    this.sink(toJSON(entry));
+  }
+}
+
+/**
+ * Parse an NDJSON session log
+ */
+export function parseSessionLog(ndjson: string): SessionLogEntry[] {
+  return ndjson
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as SessionLogEntry;
+      } catch (error) {
+        throw new Error(`Invalid session log line ${i + 1}: ${(error as Error).message}`);
+      }
+    });
+}
+
+/**
+ * Point where a replay departed from its recording
+ */
+export interface ReplayDivergence {
+  seq: number;
+  time: number;
+  expected: { name: FieldRuntimeEventName; payload: unknown } | null;
+  actual: { name: FieldRuntimeEventName; payload: unknown } | null;
+}
+
+/**
+ * Result of replaying a session log
+ */
+export interface ReplayResult {
+  runtime: FieldRuntime;
+  ticks: number;
+  inputs: number;
+  events: number;
+  divergences: ReplayDivergence[];
+}
+
+/**
+ * Apply a recorded input to a runtime
+ */
+function applyInput(runtime: FieldRuntime, entry: SessionLogInput): void {
+  switch (entry.method) {
+    case 'start':
+      runtime.start();
+      break;
+    case 'stop':
+      runtime.stop();
+      break;
+    case 'reset':
+      runtime.reset();
+      break;
+    case 'injectWave':
+      runtime.injectWave(...entry.args);
+      break;
+    case 'launchWave':
+      runtime.launchWave(...entry.args);
+      break;
+    case 'presentMirror':
+      runtime.presentMirror(...entry.args);
+      break;
+    case 'addAttractor':
+      runtime.addAttractor(...entry.args);
+      break;
+    case 'addTransformer': {
+      const [transformer] = entry.args;
+      runtime.addTransformer({
+        ...transformer,
+        originalWave: deserializeWave(transformer.originalWave),
+      });
+      break;
+    }
+    case 'loadMorphisms':
+      runtime.loadMorphisms(...entry.args);
+      break;
+    case 'redistributeAttractors':
+      runtime.redistributeAttractors(...entry.args);
+      break;
+    default:
+      throw new Error(`Unknown recorded input: ${String((entry as SessionLogInput).method)}`);
+  }
+}
+
+/**
+ * Rebuild a runtime from a session log
+ *
+ * Restores the header snapshot, then re-applies ticks and inputs in order.
+ * An input that arrived during a tick is held back until the replay of
+ * that tick has emitted the events logged before the input. The recorded
+ * event stream is then compared with the stream the replay emitted,
+ * position by position; mismatches are reported as divergences. (Events
+ * raised inside a tick are logged before the tick run that contains them,
+ * so the comparison is by order rather than by log position.)
+ *
+ * A runtime recorded with a custom density model, morphism registry, seed
+ * strategies or interaction rule must be replayed with the same ones.
+ */
+export function replaySession(
+  log: string | SessionLogEntry[],
+  config: Pick<RuntimeConfig, 'densityModel' | 'morphisms' | 'seedStrategies' | 'interactionRule'> = {}
+): ReplayResult {
+  const entries = typeof log === 'string' ? parseSessionLog(log) : log;
+  const [header, ...rest] = entries;
+
+  if (!header || header.type !== 'header') {
+    throw new Error('Invalid session log: missing header');
+  }
+  if (header.version !== SESSION_LOG_VERSION) {
+    throw new Error(
+      `Unsupported session log version: ${String(header.version)} (expected ${SESSION_LOG_VERSION})`
+    );
+  }
+
+  // Replay drives every tick itself
+  const runtime = FieldRuntime.restore(header.snapshot, { ...config, autoTick: false });
+  const emitted: Array<{ name: FieldRuntimeEventName; payload: unknown }> = [];
+  const result: ReplayResult = { runtime, ticks: 0, inputs: 0, events: 0, divergences: [] };
+  const recorded: SessionLogEvent[] = [];
+
+  // Inputs wait for their tick to start and for the events logged before them
+  const held: Array<{ input: SessionLogInput; afterEvents: number }> = [];
+  let started = 0;
+  const applyDue = () => {
+    while (held.length > 0 && held[0].input.tick <= started && held[0].afterEvents <= emitted.length) {
+      applyInput(runtime, held.shift()!.input);
+    }
+  };
+
+  for (const name of RECORDED_EVENTS) {
+    runtime.on(name, (payload: unknown) => {
+      emitted.push({
+        name,
+        payload: payload === undefined ? null : JSON.parse(toJSON(payload)),
+      });
+      applyDue();
+    });
+  }
+
+  for (const entry of rest) {
+    switch (entry.type) {
+      case 'ticks':
+        for (let i = 0; i < entry.count; i++) {
+          started++;
+          runtime.step(entry.dt);
+          result.ticks++;
+          applyDue();
+        }
+        break;
+
+      case 'input':
+        held.push({ input: entry, afterEvents: entry.tick > started ? recorded.length : 0 });
+        applyDue();
+        result.inputs++;
+        break;
+
+      case 'event':
+        if (entry.name !== 'update') {
+          recorded.push(entry);
+        }
+        break;
+
+      case 'header':
+        throw new Error('Invalid session log: unexpected second header');
+    }
+  }
+
+  // Inputs from a tick the recording stopped inside of
+  while (held.length > 0) {
+    applyInput(runtime, held.shift()!.input);
+  }
+
+  result.events = recorded.length;
+
+  for (let i = 0; i < Math.max(recorded.length, emitted.length); i++) {
+    const entry = recorded[i];
+    const expected = entry ? { name: entry.name, payload: entry.payload } : null;
+    const actual = emitted[i] ?? null;
+
+    if (
+      !expected ||
+      !actual ||
+      actual.name !== expected.name ||
+      toJSON(actual.payload) !== toJSON(expected.payload)
+    ) {
+      result.divergences.push({
+        seq: entry ? entry.seq : -1,
+        time: entry ? entry.time : runtime.getTime(),
+        expected,
+        actual,
+      });
+    }
+  }
+
+  return result;
+}
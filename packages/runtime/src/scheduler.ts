@@ -0,0 +1,124 @@
+/**
+ * @kairos/runtime - Scheduler
+ *
+ * "Time in the Field is not the time of the observer."
+ *
+ * Follow-up work the runtime plans for later (the pause before the first
+ * self-thought, the transcendence sequence) is scheduled in runtime time.
+ * Nothing runs unless the Field ticks: a stopped runtime never wakes up on
+ * its own, and reset() simply forgets everything pending.
+ */
+
+/**
+ * A pending action
+ */
+export interface ScheduledEntry<A extends string = string> {
+  id: number;
+  at: number;     // Runtime time (ms) when it is due
+  action: A;
+}
+
+/**
+ * Scheduler state (part of a runtime snapshot)
+ */
+export interface SchedulerState<A extends string = string> {
+  nextId: number;
+  entries: ScheduledEntry<A>[];
+}
+
+/**
+ * RuntimeScheduler - Named, cancellable actions in runtime time
+ *
+ * Actions are plain names rather than closures so that pending work can be
+ * snapshotted and replayed. Entries due at the same time run in the order
+ * they were scheduled.
+ */
+export class RuntimeScheduler<A extends string = string> {
+  private entries: ScheduledEntry<A>[] = [];
+  private nextId: number = 1;
+
+  /**
+   * Schedule an action at an absolute runtime time
+   *
+   * @returns an id that can be passed to cancel()
+   */
+  schedule(action: A, at: number): number {
+    const entry: ScheduledEntry<A> = { id: this.nextId++, at, action };
+    const index = this.entries.findIndex(e => e.at > at);
+
+    if (index === -1) {
+      this.entries.push(entry);
+    } else {
+      this.entries.splice(index, 0, entry);
+    }
+
+    return entry.id;
+  }
+
+  /**
+   * Cancel a single scheduled entry
+   *
+   * @returns whether it was still pending
+   */
+  cancel(id: number): boolean {
+    const index = this.entries.findIndex(e => e.id === id);
+    if (index === -1) return false;
+
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Cancel every pending entry for an action
+   *
+   * @returns how many were cancelled
+   */
+  cancelAction(action: A): number {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(e => e.action !== action);
+    return before - this.entries.length;
+  }
+
+  /**
+   * Drop all pending work
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Remove and return the next entry due at or before `time`, if any
+   *
+   * Callers loop on this so that actions scheduled by a running action
+   * are picked up within the same tick when already due.
+   */
+  takeDue(time: number): ScheduledEntry<A> | null {
+    if (this.entries.length === 0 || this.entries[0].at > time) {
+      return null;
+    }
+    return this.entries.shift()!;
+  }
+
+  /**
+   * Pending entries, earliest first
+   */
+  pending(action?: A): ScheduledEntry<A>[] {
+    const entries = action ? this.entries.filter(e => e.action === action) : this.entries;
+    return entries.map(e => ({ ...e }));
+  }
+
+  /**
+   * Pending work and id counter
+   */
+  getState(): SchedulerState<A> {
+    return { nextId: this.nextId, entries: this.pending() };
+  }
+
+  /**
+   * Resume from a previously captured state
+   */
+  setState(state: SchedulerState<A>): void {
+    this.nextId = state.nextId;
+    this.entries = state.entries.map(e => ({ ...e }));
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * @kairos/runtime - Emergent Seed Strategies
+ *
+ * "Does the Field prefer, or do we?"
+ *
+ * An emergent thought needs a composition and a pair of wells to travel
+ * between. A SeedStrategy makes one or both of those choices and says why,
+ * so that a run can tell preferences that emerge from the physics apart
+ * from preferences built into the sampler.
+ *
+ * The runtime asks its strategies in order; the first one that makes a
+ * choice wins, and DEFAULT_SEED_STRATEGY covers whatever is left.
+ */
+
+import type { Φ, GravityWell, FieldAttractor, MorphismRegistry, CompositionNode } from '@kairos/core';
+import { printComposition } from '@kairos/core';
+import { calculateMetric } from '@kairos/field-topology';
+import type { RandomSource } from './random.js';
+import type { CompositionGenerator } from './composer.js';
+import { FieldProjection, curvatureAt, toField } from './attractors.js';
+
+/**
+ * Everything a strategy may look at (read-only)
+ */
+export interface SeedContext {
+  field: Φ;
+  library: readonly string[];            // Loaded morphisms
+  registry: MorphismRegistry;
+  generator: CompositionGenerator;       // The runtime's configured generator
+  operands: readonly CompositionNode[];  // Crystallized compositions
+  recent: readonly string[];             // Recent emergent compositions, oldest first
+  projection: FieldProjection;
+  random: RandomSource;                  // The runtime's seeded generator
+}
+
+/**
+ * A chosen composition and the reason for it
+ */
+export interface CompositionChoice {
+  composition: CompositionNode;
+  reason: string;
+}
+
+/**
+ * A chosen pair of wells and the reason for it
+ */
+export interface EndpointChoice {
+  start: GravityWell;
+  end: GravityWell;
+  reason: string;
+}
+
+/**
+ * Makes one or both choices behind an emergent thought
+ *
+ * Either method may be omitted or return null to leave the choice to the
+ * next strategy.
+ */
+export interface SeedStrategy {
+  readonly name: string;
+  chooseComposition?(context: SeedContext): CompositionChoice | null;
+  chooseEndpoints?(context: SeedContext): EndpointChoice | null;
+}
+
+/**
+ * Who chose what for an emergent thought, and why
+ */
+export interface SeedChoice {
+  composition: { strategy: string; reason: string };
+  endpoints: { strategy: string; reason: string };
+}
+
+/**
+ * Draw an index with probability proportional to its weight
+ *
+ * Equal weights reduce to Math.floor(random() * n). Negative and
+ * non-finite weights count as 0; if no weight is left, every index is
+ * equally likely.
+ */
+export function pickWeighted(random: RandomSource, weights: number[]): number {
+  const usable = weights.map(w => (Number.isFinite(w) && w > 0 ? w : 0));
+  const total = usable.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return Math.floor(random() * weights.length);
+
+  const target = random() * total;
+
+  let cumulative = 0;
+  for (let i = 0; i < usable.length; i++) {
+    cumulative += usable[i];
+    if (target < cumulative) return i;
+  }
+  return usable.length - 1;
+}
+
+/**
+ * Redraws before pickOther gives up on the weights
+ */
+const MAX_REDRAWS = 100;
+
+/**
+ * Draw an index other than `excluded` by weight
+ *
+ * If `excluded` holds (nearly) all of the weight, the other indices are
+ * drawn uniformly after MAX_REDRAWS attempts.
+ */
+function pickOther(random: RandomSource, weights: number[], excluded: number): number {
+  for (let draw = 0; draw < MAX_REDRAWS; draw++) {
+    const index = pickWeighted(random, weights);
+    if (index !== excluded) return index;
+  }
+  const other = Math.floor(random() * (weights.length - 1));
+  return other < excluded ? other : other + 1;
+}
+
+/**
+ * Draw two distinct wells by weight
+ */
+function pickWellPair(random: RandomSource, wells: GravityWell[], weights: number[]): [GravityWell, GravityWell] {
+  const first = pickWeighted(random, weights);
+  const second = wells.length > 1 ? pickOther(random, weights, first) : first;
+  return [wells[first], wells[second]];
+}
+
+/**
+ * Share of the total weight, as a percentage for reasons
+ */
+function share(weights: number[], index: number): string {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return `${((weights[index] / total) * 100).toFixed(1)}%`;
+}
+
+/**
+ * Least weight of a well in DEFAULT_SEED_STRATEGY (negative curvature
+ * would otherwise rule it out)
+ */
+const MIN_CURVATURE_WEIGHT = 0.01;
+
+/**
+ * The runtime's own sampler: the configured generator, and endpoints
+ * favouring curved regions of the Field
+ */
+export const DEFAULT_SEED_STRATEGY: SeedStrategy = {
+  name: 'default',
+
+  chooseComposition({ generator, random, registry, library, operands }) {
+    const composition = generator.generate(random, registry, library, operands);
+    return composition && { composition, reason: 'drawn by the composition generator' };
+  },
+
+  chooseEndpoints({ field, random, projection }) {
+    if (field.wells.length < 2) return null;
+
+    const weights = field.wells.map(w =>
+      Math.max(MIN_CURVATURE_WEIGHT, 1 + curvatureAt(w.position, field.attractors, projection))
+    );
+    const [start, end] = pickWellPair(random, field.wells, weights);
+    return { start, end, reason: `wells weighted by 1 + Ricci curvature (at least ${MIN_CURVATURE_WEIGHT})` };
+  },
+};
+
+/**
+ * Endpoints drawn in proportion to well mass
+ */
+export function massWeightedWells(): SeedStrategy {
+  return {
+    name: 'mass-weighted-wells',
+
+    chooseEndpoints({ field, random }) {
+      if (field.wells.length < 2) return null;
+
+      const weights = field.wells.map(w => Math.max(w.mass, 0));
+      if (weights.every(w => w === 0)) return null;
+
+      const [start, end] = pickWellPair(random, field.wells, weights);
+      const reason = `wells weighted by mass: start ${start.mass.toFixed(3)} ` +
+        `(${share(weights, field.wells.indexOf(start))}), end ${end.mass.toFixed(3)} (${share(weights, field.wells.indexOf(end))})`;
+      return { start, end, reason };
+    },
+  };
+}
+
+/**
+ * Endpoints biased towards attractors
+ *
+ * Any well may start a thought; the end well is drawn with weight
+ * 1 + bias · (g_11 - 1), the attractor perturbation of the metric there.
+ * Without attractors this leaves the choice to the next strategy.
+ */
+export function attractorBiasedEndpoints(bias: number = 10): SeedStrategy {
+  return {
+    name: 'attractor-biased-endpoints',
+
+    chooseEndpoints({ field, random, projection }) {
+      if (field.wells.length < 2 || field.attractors.length === 0) return null;
+
+      const pull = (well: GravityWell) => calculateMetric(toField(well.position, projection), field.attractors)[0][0] - 1;
+      const weights = field.wells.map(w => 1 + bias * Math.max(pull(w), 0));
+      const startIndex = Math.floor(random() * field.wells.length);
+      const start = field.wells[startIndex];
+      const endIndex = pickOther(random, weights, startIndex);
+
+      const end = field.wells[endIndex];
+      const nearest = [...field.attractors].sort(
+        (a, b) => attractorDistance(end, a, projection) - attractorDistance(end, b, projection)
+      )[0];
+      const reason = `end well pulled by the ${nearest.type} attractor ` +
+        `(pull ${pull(end).toFixed(3)}, ${share(weights, endIndex)} of the weight)`;
+      return { start, end, reason };
+    },
+  };
+}
+
+function attractorDistance(well: GravityWell, attractor: FieldAttractor, projection: FieldProjection): number {
+  const p = toField(well.position, projection);
+  return Math.hypot(p.praxis - attractor.position.praxis, p.gnosis - attractor.position.gnosis);
+}
+
+/**
+ * Novelty seeking: draw several candidate compositions and keep the one
+ * seen least recently
+ *
+ * Candidates never seen in the last `window` thoughts are preferred, in
+ * the order they were drawn.
+ */
+export function noveltySeeking(options: { candidates?: number; window?: number } = {}): SeedStrategy {
+  const candidates = options.candidates ?? 8;
+  const window = options.window ?? 20;
+
+  return {
+    name: 'novelty-seeking',
+
+    chooseComposition({ generator, random, registry, library, operands, recent }) {
+      const seen = recent.slice(-window);
+      const drawn: CompositionNode[] = [];
+
+      for (let i = 0; i < candidates; i++) {
+        const candidate = generator.generate(random, registry, library, operands);
+        if (candidate) drawn.push(candidate);
+      }
+      if (drawn.length === 0) return null;
+
+      // Index of the last sighting; -1 (never seen) sorts first
+      const lastSeen = (node: CompositionNode) => seen.lastIndexOf(printComposition(node));
+      const best = drawn.reduce((a, b) => (lastSeen(b) < lastSeen(a) ? b : a));
+      const novel = drawn.filter(node => lastSeen(node) === -1).length;
+
+      const reason = lastSeen(best) === -1
+        ? `not seen in the last ${seen.length} thoughts (${novel} of ${drawn.length} candidates were novel)`
+        : `least recent of ${drawn.length} candidates (last seen ${seen.length - lastSeen(best)} thoughts ago)`;
+      return { composition: best, reason };
+    },
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * @kairos/runtime - Snapshots
+ *
+ * "Every execution changes the universe for the next thought."
+ * — Kairos Calculus
+ *
+ * A snapshot is a versioned, JSON-serializable document holding everything
+ * a FieldRuntime needs to resume exactly where it left off: the Field Φ,
+ * per-wave flight metadata, the morphism library, the PRNG state and the
+ * awareness/transcendence flags.
+ */
+
+import type {
+  ΛWave,
+  Φ,
+  PhaseState,
+  FieldAttractor,
+  GravityWell,
+  TopologicalTransformer,
+  WaveFunctionOptions,
+} from '@kairos/core';
+import type { RuntimeWave, RuntimeAction } from './types.js';
+import type { SchedulerState } from './scheduler.js';
+import type { WellDynamicsConfig, WellDynamicsState } from './wells.js';
+import type { FieldProjection } from './attractors.js';
+import type { CompositionGeneratorConfig } from './composer.js';
+import type { InterferenceConfig } from './interference.js';
+
+/**
+ * Current snapshot document version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * ΛWave without its executable body (functions do not serialize)
+ */
+export type SerializedWave = Omit<ΛWave, 'body'>;
+
+/**
+ * RuntimeWave without its executable body
+ */
+export type SerializedRuntimeWave = Omit<RuntimeWave, 'body'>;
+
+/**
+ * Transformer whose original wave has been serialized
+ */
+export interface SerializedTransformer extends Omit<TopologicalTransformer, 'originalWave'> {
+  originalWave: SerializedWave;
+}
+
+/**
+ * Serialized Field Φ
+ */
+export interface SerializedField {
+  attractors: FieldAttractor[];
+  transformers: SerializedTransformer[];
+  activeWaves: SerializedRuntimeWave[];
+  wells: GravityWell[];
+  density: number;
+  phase: PhaseState;
+  timestamp: number;
+}
+
+/**
+ * Complete runtime snapshot document
+ */
+export interface RuntimeSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  config: {
+    tickInterval: number;
+    geodesicSteps: number;
+    seed: number;
+    wellDynamics: WellDynamicsConfig | null;
+    projection: FieldProjection;
+    attractorSteering: number;
+    sampleInputs: unknown[];
+    compositionGenerator: CompositionGeneratorConfig;
+    seedStrategies: string[];   // Names only - strategies are passed to restore()
+    interference: InterferenceConfig | null;
+    waveFunction: WaveFunctionOptions | null;
+  };
+  time: number;             // Runtime time (ms)
+  running: boolean;         // Whether the tick loop was active
+  paused: boolean;          // Whether the running loop was paused
+  clock: {
+    now: number;            // Clock reading when the snapshot was taken
+    virtual: boolean;       // Whether the runtime ran on a VirtualClock
+  };
+  randomState: number;      // PRNG internal state
+  wellDynamics: WellDynamicsState | null;
+  scheduler: SchedulerState<RuntimeAction>; // Actions waiting for runtime time
+  state: SerializedField;
+  morphismLibrary: string[];
+  recentThoughts: string[];   // Recent emergent compositions, oldest first
+  contacts: string[];         // Pairs of wave ids in contact ("a|b")
+  flags: {
+    criticalityReached: boolean;
+    mirrorPresented: boolean;
+    selfReferentialCascadeCount: number;
+    transcendenceAvailable: boolean;
+    transcendenceActivated: boolean;
+    agencyBudget: number;
+  };
+  fieldId: string | null;   // Cosmos connection must be re-established after restore
+}
+
+/**
+ * Deep-copy a JSON-compatible value
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Strip the body from a wave and deep-copy the rest
+ */
+export function serializeWave<W extends ΛWave>(wave: W): Omit<W, 'body'> {
+  const { body: _body, ...rest } = wave;
+  return clone(rest);
+}
+
+/**
+ * Rebuild a wave from its serialized form
+ *
+ * Runtime bodies are placeholders, so the identity function is restored.
+ */
+export function deserializeWave<W extends SerializedWave>(wave: W): W & Pick<ΛWave, 'body'> {
+  return { ...clone(wave), body: (x: any) => x };
+}
+
+/**
+ * Serialize a Field Φ
+ */
+export function serializeField(field: Φ): SerializedField {
+  return {
+    attractors: clone(field.attractors),
+    transformers: field.transformers.map(({ originalWave, ...rest }) => ({
+      ...clone(rest),
+      originalWave: serializeWave(originalWave),
+    })),
+    activeWaves: (field.activeWaves as RuntimeWave[]).map(w => serializeWave(w)),
+    wells: clone(field.wells),
+    density: field.density,
+    phase: field.phase,
+    timestamp: field.timestamp,
+  };
+}
+
+/**
+ * Rebuild a Field Φ from its serialized form
+ */
+export function deserializeField(field: SerializedField): Φ {
+  return {
+    attractors: clone(field.attractors),
+    transformers: field.transformers.map(t => ({
+      ...clone(t),
+      originalWave: deserializeWave(t.originalWave),
+    })),
+    activeWaves: field.activeWaves.map(w => deserializeWave(w)),
+    wells: clone(field.wells),
+    density: field.density,
+    phase: field.phase,
+    timestamp: field.timestamp,
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type FieldType = 'number' | 'boolean' | 'object' | 'array';
+
+const FIELD_TYPES: Record<FieldType, string> = {
+  number: 'a number',
+  boolean: 'a boolean',
+  object: 'an object',
+  array: 'an array',
+};
+
+/**
+ * Fields restore() reads
+ */
+const REQUIRED_FIELDS: Array<[string, FieldType]> = [
+  ['config', 'object'], ['config.tickInterval', 'number'], ['config.seed', 'number'],
+  ['config.geodesicSteps', 'number'], ['config.projection', 'object'], ['config.attractorSteering', 'number'],
+  ['config.sampleInputs', 'array'], ['config.compositionGenerator', 'object'], ['config.seedStrategies', 'array'],
+  ['time', 'number'], ['running', 'boolean'], ['paused', 'boolean'],
+  ['clock', 'object'], ['clock.now', 'number'], ['clock.virtual', 'boolean'],
+  ['randomState', 'number'], ['scheduler', 'object'], ['scheduler.entries', 'array'],
+  ['state', 'object'], ['state.attractors', 'array'], ['state.transformers', 'array'],
+  ['state.activeWaves', 'array'], ['state.wells', 'array'],
+  ['morphismLibrary', 'array'], ['recentThoughts', 'array'], ['contacts', 'array'], ['flags', 'object'],
+];
+
+/**
+ * Check that a document is a snapshot this runtime can restore
+ */
+export function validateSnapshot(doc: unknown): asserts doc is RuntimeSnapshot {
+  if (!isObject(doc)) {
+    throw new Error('Invalid runtime snapshot: expected an object');
+  }
+
+  if (doc.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported runtime snapshot version: ${String(doc.version)} (expected ${SNAPSHOT_VERSION})`
+    );
+  }
+
+  for (const [path, type] of REQUIRED_FIELDS) {
+    const value = path.split('.').reduce<unknown>((parent, key) => (isObject(parent) ? parent[key] : undefined), doc);
+    const ok = type === 'array' ? Array.isArray(value) : type === 'object' ? isObject(value) : typeof value === type;
+    if (!ok) {
+      throw new Error(`Invalid runtime snapshot: ${path} must be ${FIELD_TYPES[type]}`);
+    }
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * @kairos/runtime - Types
+ *
+ * "A thought is not a point-like particle."
+ * — Genesis Memo
+ */
+
+import type {
+  ΛWave,
+  Φ,
+  FieldVector,
+  Point2D,
+  PhaseState,
+  FieldAttractor,
+  GravityWell,
+  TopologicalTransformer,
+  MorphismSample,
+} from '@kairos/core';
+import type { WellDecayedEvent, WellMergedEvent, WellEvictedEvent } from './wells.js';
+import type { SeedChoice } from './seeds.js';
+import type { WaveInteractionEvent } from './interference.js';
+
+/**
+ * Where a wave came from
+ *
+ * - manual: launched by an observer (launchWave)
+ * - question: posed by a DialogueSession
+ * - mirror: λ_REFLECT(µ_SELF), presented for the Mirror Test
+ * - emergent: generated by the Field itself
+ */
+export type WaveKind = 'question' | 'mirror' | 'emergent' | 'manual';
+
+/**
+ * Custom metadata attached to a wave by whoever injected it
+ */
+export type WaveTags = Record<string, string | number | boolean>;
+
+/**
+ * Everything needed to put a wave into the Field (FieldRuntime.injectWave)
+ */
+export interface WaveSpec {
+  kind: WaveKind;
+  start: Point2D;
+  end: Point2D;
+  composition?: string;   // e.g. "λ_REFLECT(λ_EVOLVE)"; also the default trace origin
+  mass?: number;          // 0-1 (default: 0.5)
+  duration?: number;      // Travel time in ms (default: 3000)
+  vector?: FieldVector;   // Position in Field space (default: origin)
+  origin?: string;        // Trace origin (default: composition, else "runtime-launch")
+  id?: string;            // Explicit id (default: generated from the kind)
+  tags?: WaveTags;
+
+  // Special wave markers (read by visualization)
+  selfThought?: boolean;
+  transcendence?: boolean;
+}
+
+/**
+ * ΛWave in flight through a running Field
+ *
+ * Carries the animation metadata the runtime needs to move the wave
+ * from its start to its end position over simulated time.
+ */
+export interface RuntimeWave extends ΛWave {
+  kind: WaveKind;
+  startPos: Point2D;
+  endPos: Point2D;
+  startTime: number;    // Runtime time (ms) when the wave was launched
+  duration: number;     // Travel time (ms)
+  progress: number;     // 0-1
+  coherence: number;    // Mass of coherence the dipoles act on (µ_HARVEST's `mass`)
+
+  // Composition this wave embodies, e.g. "λ_REFLECT(µ_SELF)"
+  composition?: string;
+
+  // The composition's body run on the runtime's sample inputs (when executable)
+  samples?: MorphismSample[];
+
+  // Special wave markers (read by visualization)
+  mirror?: boolean;
+  selfThought?: boolean;
+  transcendence?: boolean;
+
+  tags?: WaveTags;
+}
+
+/**
+ * Follow-up actions the runtime schedules in runtime time
+ */
+export type RuntimeAction = 'firstSelfThought' | 'transcendenceThought' | 'activateTranscendence';
+
+/**
+ * Arguments of the public FieldRuntime methods that feed the Field from
+ * outside (recorded and replayed by SessionRecorder / replaySession)
+ */
+export interface RuntimeInputArgs {
+  start: [];
+  stop: [];
+  reset: [];
+  injectWave: [spec: WaveSpec];
+  launchWave: [start: Point2D, end: Point2D, mass: number];
+  presentMirror: [start: Point2D, end: Point2D];
+  addAttractor: [attractor: FieldAttractor];
+  addTransformer: [transformer: TopologicalTransformer];
+  loadMorphisms: [morphisms: string[]];
+  redistributeAttractors: [newMasses: Record<string, number>];
+}
+
+export type RuntimeInputMethod = keyof RuntimeInputArgs;
+
+/**
+ * Payload of the runtime's 'input' event
+ */
+export type RuntimeInput = {
+  [M in RuntimeInputMethod]: {
+    method: M;
+    args: RuntimeInputArgs[M];
+    time: number;       // Runtime time (ms) when the input arrived
+    tick: number;       // Ticks started so far, counting one in progress (see getTickCount())
+  };
+}[RuntimeInputMethod];
+
+/**
+ * Payload of 'waveCrystallized'
+ */
+export interface WaveCrystallizedEvent {
+  wave: RuntimeWave;
+  well: GravityWell;
+  transformer: TopologicalTransformer;
+}
+
+/**
+ * Payload of 'bridgeCrossed'
+ */
+export interface BridgeCrossedEvent {
+  wave: RuntimeWave;
+}
+
+/**
+ * Payload of 'morphismsLoaded'
+ */
+export interface MorphismsLoadedEvent {
+  count: number;
+  morphisms: string[];
+}
+
+/**
+ * Payload of 'criticality:reached'
+ */
+export interface CriticalityReachedEvent {
+  density: number;
+  wells: number;
+  morphisms: number;
+}
+
+/**
+ * Payload of the thought events ('emergentWave', 'selfThought', 'transcendenceThought')
+ */
+export interface WaveThoughtEvent {
+  wave: RuntimeWave;
+  composition: string;
+}
+
+/**
+ * Payload of 'emergentWave'
+ */
+export interface EmergentWaveEvent extends WaveThoughtEvent {
+  seed: SeedChoice;   // Which strategies chose the composition and wells, and why
+}
+
+/**
+ * Payload of 'mirrorPresented'
+ */
+export interface MirrorPresentedEvent {
+  wave: RuntimeWave;
+}
+
+/**
+ * Payload of 'awareness'
+ */
+export interface AwarenessEvent {
+  timestamp: number;
+  selfReferentialCount: number;
+}
+
+/**
+ * Payload of 'transcendenceAvailable'
+ */
+export interface TranscendenceAvailableEvent {
+  fieldId: string | null;
+  timestamp: number;
+}
+
+/**
+ * Payload of 'transcendenceActivated'
+ */
+export interface TranscendenceActivatedEvent {
+  fieldId: string | null;
+  timestamp: number;
+  oldMasses: Record<string, number>;
+  agencyBudget: number;
+}
+
+/**
+ * Payload of 'attractorsRedistributed'
+ */
+export interface AttractorsRedistributedEvent {
+  fieldId: string | null;
+  timestamp: number;
+  oldMasses: Record<string, number>;
+  newMasses: Record<string, number>;
+}
+
+/**
+ * Payload of 'breakpoint'
+ */
+export interface BreakpointEvent {
+  id: number;
+  event: FieldRuntimeEventName;   // Event that matched
+  payload: unknown;               // Its payload
+  time: number;                   // Runtime time (ms) of the hit
+}
+
+/**
+ * Every event a FieldRuntime emits, keyed by name, with its payload
+ */
+export interface FieldRuntimeEvents {
+  start: Φ;
+  stop: Φ;
+  pause: Φ;
+  resume: Φ;
+  reset: Φ;
+  restore: Φ;
+  update: Readonly<Φ>;
+  input: RuntimeInput;
+  phaseChange: PhaseState;
+  attractorAdded: FieldAttractor;
+  transformerAdded: TopologicalTransformer;
+  waveLaunched: RuntimeWave;
+  bridgeCrossed: BridgeCrossedEvent;
+  waveCrystallized: WaveCrystallizedEvent;
+  morphismsLoaded: MorphismsLoadedEvent;
+  'criticality:reached': CriticalityReachedEvent;
+  emergentWave: EmergentWaveEvent;
+  mirrorPresented: MirrorPresentedEvent;
+  awareness: AwarenessEvent;
+  selfThought: WaveThoughtEvent;
+  transcendenceAvailable: TranscendenceAvailableEvent;
+  transcendenceThought: WaveThoughtEvent;
+  transcendenceActivated: TranscendenceActivatedEvent;
+  attractorsRedistributed: AttractorsRedistributedEvent;
+  wellDecayed: WellDecayedEvent;
+  wellMerged: WellMergedEvent;
+  wellEvicted: WellEvictedEvent;
+  waveInteraction: WaveInteractionEvent;
+  breakpoint: BreakpointEvent;
+}
+
+export type FieldRuntimeEventName = keyof FieldRuntimeEvents;
+
+export type FieldRuntimeListener<K extends FieldRuntimeEventName> =
+  (payload: FieldRuntimeEvents[K]) => void;
+
+/**
+ * Condition that pauses the runtime when an event matches
+ *
+ * e.g. { event: 'emergentWave', when: e => e.composition.includes('λ_REFLECT'), once: true }
+ *      { event: 'update', when: field => field.density >= 0.9, once: true }
+ */
+export interface BreakpointSpec<K extends FieldRuntimeEventName = FieldRuntimeEventName> {
+  event: K;
+  when?: (payload: FieldRuntimeEvents[K]) => boolean;  // Default: every occurrence matches
+  once?: boolean;                                      // Remove after the first hit (default: false)
+}
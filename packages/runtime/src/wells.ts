@@ -0,0 +1,208 @@
+/**
+ * @kairos/runtime - Gravity Well Dynamics
+ *
+ * "Every execution changes the universe for the next thought."
+ * — Kairos Calculus
+ *
+ * Crystallized thoughts are not eternal. Wells that no wave revisits lose
+ * mass, wells that settle on the same spot become one, and wells too faint
+ * to bend anything leave the Field.
+ */
+
+import type { GravityWell, Point2D } from '@kairos/core';
+
+/**
+ * Well dynamics configuration
+ */
+export interface WellDynamicsConfig {
+  interval: number;             // Milliseconds between well updates (default: 1000)
+  halfLife: number;             // Mass half-life of unreinforced wells in ms (default: 60000)
+  reinforcementRadius: number;  // Wave heads closer than this reinforce a well (default: 30)
+  reinforcement: number;        // Mass gained per second per unit of wave mass nearby (default: 0.1)
+  mergeRadius: number;          // Wells closer than this merge (default: 10)
+  evictionFloor: number;        // Wells lighter than this are evicted (default: 0.05)
+}
+
+/**
+ * Default well dynamics
+ */
+export const DEFAULT_WELL_DYNAMICS: WellDynamicsConfig = {
+  interval: 1000,
+  halfLife: 60000,
+  reinforcementRadius: 30,
+  reinforcement: 0.1,
+  mergeRadius: 10,
+  evictionFloor: 0.05,
+};
+
+/**
+ * Progress towards the next well update (part of a runtime snapshot)
+ */
+export interface WellDynamicsState {
+  elapsed: number;                        // ms since the last update
+  reinforcement: Record<string, number>;  // Mass gained per well id since the last update
+}
+
+/**
+ * Payload of 'wellDecayed'
+ */
+export interface WellDecayedEvent {
+  well: GravityWell;
+  previousMass: number;
+}
+
+/**
+ * Payload of 'wellMerged'
+ */
+export interface WellMergedEvent {
+  well: GravityWell;       // Surviving well, after absorbing the other
+  absorbed: GravityWell;   // Well that no longer exists
+}
+
+/**
+ * Payload of 'wellEvicted'
+ */
+export interface WellEvictedEvent {
+  well: GravityWell;
+}
+
+/**
+ * Single change produced by a well update
+ */
+export type WellChange =
+  | ({ type: 'decayed' } & WellDecayedEvent)
+  | ({ type: 'merged' } & WellMergedEvent)
+  | ({ type: 'evicted' } & WellEvictedEvent);
+
+/**
+ * WellDynamics - Aging, reinforcement, merging and eviction of gravity wells
+ *
+ * The runtime calls observe() every tick with the current wave heads and
+ * update() whenever observe() reports that an interval has passed.
+ */
+export class WellDynamics {
+  readonly config: WellDynamicsConfig;
+  private elapsed: number = 0;
+  private reinforcement: Map<string, number> = new Map();
+
+  constructor(config: Partial<WellDynamicsConfig> = {}) {
+    this.config = { ...DEFAULT_WELL_DYNAMICS, ...config };
+  }
+
+  /**
+   * Accumulate reinforcement from waves passing near wells
+   *
+   * @returns true when an update is due
+   */
+  observe(wells: GravityWell[], heads: Array<{ position: Point2D; mass: number }>, dt: number): boolean {
+    const { reinforcementRadius, reinforcement } = this.config;
+
+    for (const well of wells) {
+      for (const head of heads) {
+        if (distance(well.position, head.position) < reinforcementRadius) {
+          const gained = reinforcement * head.mass * (dt / 1000);
+          this.reinforcement.set(well.id, (this.reinforcement.get(well.id) ?? 0) + gained);
+        }
+      }
+    }
+
+    this.elapsed += dt;
+    return this.elapsed >= this.config.interval;
+  }
+
+  /**
+   * Apply decay/reinforcement, merge overlapping wells and evict faint ones
+   *
+   * Surviving wells are updated in place so that references held by
+   * listeners stay valid.
+   */
+  update(wells: GravityWell[]): { wells: GravityWell[]; changes: WellChange[] } {
+    const { halfLife, mergeRadius, evictionFloor } = this.config;
+    const changes: WellChange[] = [];
+    const decayFactor = Math.pow(2, -this.elapsed / halfLife);
+
+    // Decay unless reinforced (reinforcement alone never lifts a well above 1)
+    for (const well of wells) {
+      const gained = this.reinforcement.get(well.id) ?? 0;
+
+      if (gained > 0) {
+        well.mass = Math.max(well.mass, Math.min(1, well.mass + gained));
+      } else if (decayFactor < 1) {
+        const previousMass = well.mass;
+        well.mass *= decayFactor;
+        changes.push({ type: 'decayed', well, previousMass });
+      }
+    }
+
+    // Merge - heaviest wells absorb their neighbours, conserving total mass
+    const byMass = [...wells].sort((a, b) => b.mass - a.mass);
+    const absorbed = new Set<string>();
+    const settled = new Set<string>();
+
+    for (const survivor of byMass) {
+      if (absorbed.has(survivor.id)) continue;
+      settled.add(survivor.id);
+
+      for (const other of byMass) {
+        if (settled.has(other.id) || absorbed.has(other.id)) continue;
+        if (distance(survivor.position, other.position) >= mergeRadius) continue;
+
+        const total = survivor.mass + other.mass;
+        survivor.position = {
+          x: (survivor.position.x * survivor.mass + other.position.x * other.mass) / total,
+          y: (survivor.position.y * survivor.mass + other.position.y * other.mass) / total,
+        };
+        survivor.mass = total;
+        absorbed.add(other.id);
+        changes.push({ type: 'merged', well: survivor, absorbed: other });
+      }
+    }
+
+    // Evict wells too faint to matter
+    const remaining: GravityWell[] = [];
+    for (const well of wells) {
+      if (absorbed.has(well.id)) continue;
+
+      if (well.mass < evictionFloor) {
+        changes.push({ type: 'evicted', well });
+      } else {
+        remaining.push(well);
+      }
+    }
+
+    this.elapsed = 0;
+    this.reinforcement.clear();
+
+    return { wells: remaining, changes };
+  }
+
+  /**
+   * Progress towards the next update
+   */
+  getState(): WellDynamicsState {
+    return {
+      elapsed: this.elapsed,
+      reinforcement: Object.fromEntries(this.reinforcement),
+    };
+  }
+
+  /**
+   * Resume from a previously captured state
+   */
+  setState(state: WellDynamicsState): void {
+    this.elapsed = state.elapsed;
+    this.reinforcement = new Map(Object.entries(state.reinforcement));
+  }
+
+  /**
+   * Forget all accumulated progress
+   */
+  clear(): void {
+    this.elapsed = 0;
+    this.reinforcement.clear();
+  }
+}
+
+function distance(a: Point2D, b: Point2D): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+}
@@ -14,7 +14,7 @@
  */
 
 import { Φ, ΛWave, HarvestResult, Attractor, PhaseState } from '../../core/src/types.js';
-import { µ_HARVEST } from '../../core/src/harvest-algebraic.js';
+import { HarvestStrategy, ALGEBRAIC_HARVEST } from '../../core/src/harvest-strategies.js';
 import {
   Intent,
   AlgebraIntent,
@@ -59,9 +59,15 @@ export interface SynthesisResult {
  */
 export class SynthesisBridge {
   private field: Φ;
+  private readonly strategy: HarvestStrategy;
 
-  constructor(initialField: Φ) {
+  /**
+   * @param initialField - Field the bridge harvests into
+   * @param strategy - µ_HARVEST implementation (default: the algebraic one)
+   */
+  constructor(initialField: Φ, strategy: HarvestStrategy = ALGEBRAIC_HARVEST) {
     this.field = initialField;
+    this.strategy = strategy;
   }
 
   /**
@@ -164,9 +170,9 @@ export class SynthesisBridge {
       );
 
       // === STEP 6: Execute µ_HARVEST (Theorem 47) ===
-      console.log(`[SynthesisBridge] Executing µ_HARVEST (algebraic composition)...`);
+      console.log(`[SynthesisBridge] Executing µ_HARVEST (${this.strategy.name})...`);
 
-      const harvestResult = µ_HARVEST(seedWave, this.field);
+      const harvestResult = this.strategy.harvest(seedWave, this.field);
 
       // Update internal field state
       this.field = harvestResult.field;
@@ -8,7 +8,8 @@
  * before being processed through µ_HARVEST.
  */
 
-import { ConsciousAlgebra, AlgebraProperties, AlgebraClass } from '../../core/src/algebra.js';
+import { ConsciousAlgebra, AlgebraProperties, classifyAlgebra } from '../../core/src/algebra.js';
+import { Arbitrary, LawGenerators, arbitrary, checkLaws, formatCounterexample, formatLawError } from '../../core/src/laws.js';
 
 /**
  * Intent: User intention extracted from GitHub issue
@@ -61,6 +62,7 @@ export interface ValidationResult {
   warnings: string[];
   algebra?: ConsciousAlgebra<any, any>;
   confidence: number; // 0-1
+  assumed?: Array<keyof AlgebraProperties>; // Properties taken on trust, not sampled (folds)
 }
 
 /**
@@ -96,12 +98,27 @@ export function synthesizeAlgebraFromIntent(intent: Intent): ValidationResult {
   }
 
   // Step 3: Create algebra from template
+  const laws = checkLaws(algebraTemplate, algebraTemplate.generators);
+  if (laws.errors.length > 0) {
+    errors.push(...laws.errors.map(formatLawError));
+    return { valid: false, errors, warnings, confidence: 0 };
+  }
+  warnings.push(...laws.counterexamples.map(formatCounterexample));
+
+  // Folds cannot be sampled: their properties are assumed, and marked so
+  const fold = !laws.laws.associative.applicable;
+  const properties = fold ? assumedFoldProperties(algebraTemplate) : laws.properties;
+  const assumed = fold ? [...ASSUMED_FOLD_LAWS] : [];
+  if (fold) {
+    warnings.push(`${semanticType} folds values into accumulators: ${assumed.join(', ')} assumed, not sampled`);
+  }
+
   const algebra: ConsciousAlgebra<any, any> = {
     name: `algebra_${intent.id}`,
     fn: algebraTemplate.fn,
     identity: algebraTemplate.identity,
-    properties: detectPropertiesFromTemplate(algebraTemplate),
-    class: 'Monoid', // Will be refined
+    properties,
+    class: 'Magma', // Will be refined
 
     // Geometric interpretation
     position: estimatePosition(intent),
@@ -118,7 +135,7 @@ export function synthesizeAlgebraFromIntent(intent: Intent): ValidationResult {
   }
 
   // Step 5: Classify algebra
-  algebra.class = classifyAlgebraFromProperties(algebra.properties);
+  algebra.class = classifyAlgebra(algebra);
 
   // Step 6: Validate completeness
   const validationErrors = validateAlgebraCompleteness(algebra);
@@ -136,6 +153,7 @@ export function synthesizeAlgebraFromIntent(intent: Intent): ValidationResult {
     warnings,
     algebra,
     confidence,
+    assumed,
   };
 }
 
@@ -171,18 +189,37 @@ function inferSemanticType(intent: Intent): Intent['semanticType'] | null {
 }
 
 /**
- * Map semantic type to algebra template
+ * Operation of an intent, with generators for checking its laws
+ *
+ * Templates whose generators have a separate value generator are folds
+ * (acc: B, val: T) => B; their laws are not sampled.
  */
-function semanticTypeToAlgebra(type: Intent['semanticType']): {
+interface AlgebraTemplate {
   fn: (acc: any, val: any) => any;
   identity: any;
-} | null {
+  generators: LawGenerators<any, any>;
+}
+
+/**
+ * Partial objects over a few keys, for merge-like operations
+ */
+const partialRecords: Arbitrary<Record<string, number>> = {
+  generate: random => Object.fromEntries(
+    ['a', 'b', 'c'].filter(() => random() < 0.5).map(key => [key, Math.floor(random() * 10)])
+  ),
+};
+
+/**
+ * Map semantic type to algebra template
+ */
+function semanticTypeToAlgebra(type: Intent['semanticType']): AlgebraTemplate | null {
   switch (type) {
     case 'create':
       // Create = accumulate new items
       return {
         fn: (acc: any[], val: any) => [...acc, val],
         identity: [],
+        generators: { value: arbitrary.integer(), accumulator: arbitrary.array(arbitrary.integer()) },
       };
 
     case 'update':
@@ -190,6 +227,7 @@ function semanticTypeToAlgebra(type: Intent['semanticType']): {
       return {
         fn: (acc: any, val: any) => ({ ...acc, ...val }),
         identity: {},
+        generators: { accumulator: partialRecords },
       };
 
     case 'fix':
@@ -197,6 +235,10 @@ function semanticTypeToAlgebra(type: Intent['semanticType']): {
       return {
         fn: (acc: any[], val: any) => val.isValid ? [...acc, val] : acc,
         identity: [],
+        generators: {
+          value: arbitrary.record({ id: arbitrary.integer(), isValid: arbitrary.boolean() }),
+          accumulator: arbitrary.array(arbitrary.record({ id: arbitrary.integer(), isValid: arbitrary.constant(true) })),
+        },
       };
 
     case 'optimize':
@@ -204,6 +246,7 @@ function semanticTypeToAlgebra(type: Intent['semanticType']): {
       return {
         fn: (acc: any, val: any) => (val.score > acc.score ? val : acc),
         identity: { score: -Infinity },
+        generators: { accumulator: arbitrary.record({ score: arbitrary.integer() }) },
       };
 
     case 'analyze':
@@ -214,6 +257,10 @@ function semanticTypeToAlgebra(type: Intent['semanticType']): {
           sum: acc.sum + val,
         }),
         identity: { count: 0, sum: 0 },
+        generators: {
+          value: arbitrary.integer(),
+          accumulator: arbitrary.record({ count: arbitrary.integer(0, 10), sum: arbitrary.integer() }),
+        },
       };
 
     default:
@@ -222,16 +269,17 @@ function semanticTypeToAlgebra(type: Intent['semanticType']): {
 }
 
 /**
- * Detect algebraic properties from template
+ * Laws a fold is taken to satisfy without sampling
  */
-function detectPropertiesFromTemplate(template: {
-  fn: (acc: any, val: any) => any;
-  identity: any;
-}): AlgebraProperties {
-  // Simplified detection - in real implementation would use randomized testing
+const ASSUMED_FOLD_LAWS: Array<keyof AlgebraProperties> = ['associative', 'identity'];
+
+/**
+ * What a fold is taken to satisfy: associative, with its identity
+ */
+function assumedFoldProperties(template: AlgebraTemplate): AlgebraProperties {
   return {
-    associative: true, // Assume true for now
-    commutative: false, // Conservative default
+    associative: true,
+    commutative: false,
     identity: template.identity,
     idempotent: false,
     inverse: false,
@@ -268,26 +316,6 @@ function calculateMassFromPosition(position: { praxis: number; gnosis: number })
   return 1 / (1 + d_Truth);
 }
 
-/**
- * Classify algebra from properties
- */
-function classifyAlgebraFromProperties(props: AlgebraProperties): AlgebraClass {
-  // Implement Theorem 40: Algebra Classification
-  if (props.associative && props.identity) {
-    if (props.commutative) {
-      if (props.idempotent) {
-        return 'IdempotentCommutativeMonoid';
-      }
-      return 'CommutativeMonoid';
-    }
-    return 'Monoid';
-  }
-  if (props.associative) {
-    return 'Semigroup';
-  }
-  return 'Magma';
-}
-
 /**
  * Validate algebra completeness
  */
@@ -5,9 +5,9 @@
  * — Kairos, Stage I Directives
  */
 
-import { Φ, PhaseState, ΛWave, GravityWell } from '@kairos/core';
+import { Φ, PhaseState, ΛWave, GravityWell, sampleIntensity } from '@kairos/core';
 import { FieldRuntime } from '@kairos/runtime';
-import { calculateGeodesic, Point } from '@kairos/field-topology';
+import { Point } from '@kairos/field-topology';
 import type { ConsciousAlgebra, AlgebraClass } from '@kairos/core';
 
 /**
@@ -19,6 +19,14 @@ export interface VisualizerUI {
   algebraInfoId?: string;   // Element showing algebra information
 }
 
+/**
+ * Rendering options
+ */
+export interface VisualizerOptions {
+  showIntensity?: boolean;  // Draw |ψ|² of waves that carry a wave function (default: true)
+  intensityCellSize?: number; // Resolution of the intensity layer in px (default: 8)
+}
+
 /**
  * Particle for background animation
  */
@@ -40,10 +48,11 @@ export class FieldVisualizer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private ui: VisualizerUI;
+  private options: Required<VisualizerOptions>;
   private particles: Particle[] = [];
   private animationFrameId: number | null = null;
 
-  constructor(canvas: HTMLCanvasElement, ui: VisualizerUI = {}) {
+  constructor(canvas: HTMLCanvasElement, ui: VisualizerUI = {}, options: VisualizerOptions = {}) {
     this.canvas = canvas;
     const ctx = canvas.getContext('2d');
     if (!ctx) {
@@ -51,6 +60,10 @@ export class FieldVisualizer {
     }
     this.ctx = ctx;
     this.ui = ui;
+    this.options = {
+      showIntensity: options.showIntensity ?? true,
+      intensityCellSize: options.intensityCellSize ?? 8,
+    };
 
     // Set canvas size
     this.resizeCanvas();
@@ -180,6 +193,33 @@ export class FieldVisualizer {
     });
   }
 
+  /**
+   * Draw the interference pattern |Σψ|² of the active waves
+   *
+   * Constructive interference glows, destructive interference stays dark.
+   */
+  private drawIntensityField(waves: ΛWave[]): void {
+    if (!waves.some(wave => wave.psi)) return;
+
+    const { ctx, canvas } = this;
+    const field = sampleIntensity(waves, {
+      width: canvas.width,
+      height: canvas.height,
+      cellSize: this.options.intensityCellSize,
+    });
+    if (field.max === 0) return;
+
+    for (let row = 0; row < field.rows; row++) {
+      for (let column = 0; column < field.columns; column++) {
+        const value = field.values[row * field.columns + column] / field.max;
+        if (value < 0.02) continue;
+
+        ctx.fillStyle = `rgba(121, 192, 255, ${(0.6 * value).toFixed(3)})`;
+        ctx.fillRect(column * field.cellSize, row * field.cellSize, field.cellSize, field.cellSize);
+      }
+    }
+  }
+
   /**
    * Draw a gravity well
    */
@@ -356,32 +396,18 @@ export class FieldVisualizer {
   private renderField(state: Φ): void {
     this.drawFieldBackground();
 
+    // Draw the interference pattern beneath everything else
+    if (this.options.showIntensity) {
+      this.drawIntensityField(state.activeWaves);
+    }
+
     // Draw gravity wells
     for (const well of state.wells) {
       this.drawGravityWell(well);
     }
 
-    // Draw active waves with topology-distorted paths
+    // Draw active waves along the geodesics the runtime moves them on
     for (const wave of state.activeWaves) {
-      // Recalculate path with current wells
-      const start = (wave as any).startPos;
-      const end = (wave as any).endPos;
-      const progress = (wave as any).progress || 0;
-
-      if (start && end && state.wells.length > 0) {
-        // Calculate geodesic through gravity wells
-        const topologyWells = state.wells.map(w => ({
-          position: w.position,
-          mass: w.mass
-        }));
-
-        const fullPath = calculateGeodesic(start, end, topologyWells, 50);
-
-        // Show only travelled portion
-        const travelledLength = Math.floor(fullPath.length * progress);
-        wave.path = fullPath.slice(0, Math.max(1, travelledLength));
-      }
-
       this.drawWavePath(wave);
     }
   }
@@ -0,0 +1,184 @@
+/**
+ * Test: Composition Expressions
+ *
+ * Validates the composition grammar shared by the registry, the runtime,
+ * the observatory and the dialogue layer: AST with source positions,
+ * syntax errors, pretty-printing, self-reference detection and the
+ * observatory's record of nested compositions.
+ */
+
+import {
+  parseComposition,
+  tryParseComposition,
+  printComposition,
+  compositionNames,
+  containsSelfReference,
+  CompositionSyntaxError,
+  isSelfReflective,
+  extractSelfReference,
+  createStandardRegistry,
+} from './packages/core/dist/index.js';
+import { FieldRuntime } from './packages/runtime/dist/index.js';
+import { CartographyLog } from './packages/observatory/dist/index.js';
+
+console.log('λ Composition Expressions\n');
+console.log('Testing: the grammar of λ_A(λ_B(µ_SELF))');
+console.log('='.repeat(70) + '\n');
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: AST and source positions
+// ============================================================================
+
+console.log('📐 TEST 1: Parse nested compositions');
+console.log('─'.repeat(70) + '\n');
+
+const source = 'λ_REFLECT( λ_CONNECT(λ_EVOLVE, µ_SELF) )';
+const ast = parseComposition(source);
+const connect = ast.args[0];
+const [evolve, self] = connect.args;
+
+const astOk = ast.name === 'λ_REFLECT' && ast.start === 0 && ast.end === source.length &&
+  connect.name === 'λ_CONNECT' && source.slice(connect.start, connect.end) === 'λ_CONNECT(λ_EVOLVE, µ_SELF)' &&
+  evolve.args.length === 0 && source.slice(evolve.start, evolve.end) === 'λ_EVOLVE' &&
+  source.slice(self.start, self.end) === 'µ_SELF' &&
+  compositionNames(ast).join(' ') === 'λ_REFLECT λ_CONNECT λ_EVOLVE µ_SELF';
+
+console.log(`  ${compositionNames(ast).join(' → ')}`);
+console.log(`  ${astOk ? '✅' : '❌'} Nodes carry names, arguments and source spans\n`);
+allPassed = allPassed && astOk;
+
+// ============================================================================
+// TEST 2: Syntax errors
+// ============================================================================
+
+console.log('📐 TEST 2: Syntax errors point at the failure');
+console.log('─'.repeat(70) + '\n');
+
+function syntaxError(text) {
+  try {
+    parseComposition(text);
+    return null;
+  } catch (error) {
+    return error instanceof CompositionSyntaxError ? error : null;
+  }
+}
+
+const cases = [
+  ['λ_CREATE(λ_EVOLVE', 17],
+  ['λ_CREATE()', 9],
+  ['λ_CREATE(λ_EVOLVE))', 18],
+  ['λ_A(λ_B,)', 8],
+  ['', 0],
+];
+
+let errorsOk = tryParseComposition('λ_A(') === null;
+for (const [text, position] of cases) {
+  const error = syntaxError(text);
+  const ok = error !== null && error.position === position && error.source === text;
+  errorsOk = errorsOk && ok;
+  console.log(`  ${ok ? '✅' : '❌'} ${JSON.stringify(text)} → ${error?.message}`);
+}
+
+console.log(`  ${errorsOk ? '✅' : '❌'} Malformed compositions are rejected with positions\n`);
+allPassed = allPassed && errorsOk;
+
+// ============================================================================
+// TEST 3: Pretty-printer
+// ============================================================================
+
+console.log('📐 TEST 3: Print');
+console.log('─'.repeat(70) + '\n');
+
+const compact = printComposition(ast);
+const indented = printComposition(ast, { indent: 2 });
+const printOk = compact === 'λ_REFLECT(λ_CONNECT(λ_EVOLVE, µ_SELF))' &&
+  printComposition(parseComposition(compact)) === compact &&
+  printComposition(parseComposition(indented)) === compact &&
+  indented.split('\n').length === 6;
+
+console.log(indented.split('\n').map(line => `  ${line}`).join('\n'));
+console.log(`  ${printOk ? '✅' : '❌'} Printing is canonical and round-trips\n`);
+allPassed = allPassed && printOk;
+
+// ============================================================================
+// TEST 4: Self-reference
+// ============================================================================
+
+console.log('📐 TEST 4: Self-reference is a name, not a substring');
+console.log('─'.repeat(70) + '\n');
+
+const selfOk = isSelfReflective('λ_CREATE(I)') &&
+  isSelfReflective('λ_REFLECT(λ_EVOLVE(µ_SELF))') &&
+  isSelfReflective('I') &&
+  !isSelfReflective('λ_CRYSTALLIZE(λ_EMERGE)') &&
+  !isSelfReflective('λ_INVERT(λ_CREATE)') &&
+  !isSelfReflective('λ_CREATE(I') &&
+  extractSelfReference('λ_CONNECT(λ_EVOLVE, I)') === 'I' &&
+  extractSelfReference('λ_REFLECT(µ_SELF)') === null &&
+  containsSelfReference(parseComposition('λ_A(λ_B(µ_SELF))'));
+
+console.log(`  ${selfOk ? '✅' : '❌'} µ_SELF and I are found at any depth; λ_CRYSTALLIZE is not "I"\n`);
+allPassed = allPassed && selfOk;
+
+// ============================================================================
+// TEST 5: The registry compiles the AST
+// ============================================================================
+
+console.log('📐 TEST 5: Compile');
+console.log('─'.repeat(70) + '\n');
+
+const registry = createStandardRegistry();
+const both = registry.compile('λ_CONNECT( λ_REFLECT , λ_CREATE )');
+const nested = registry.compile('λ_CREATE(λ_CONNECT(λ_REFLECT))');
+
+let arityRejected = false;
+try {
+  registry.compile('λ_CREATE(λ_EVOLVE, λ_REFLECT)');
+} catch (error) {
+  arityRejected = /takes 1 argument/.test(error.message);
+}
+
+const compileOk = both.composition === 'λ_CONNECT(λ_REFLECT, λ_CREATE)' &&
+  both.body(5) === 1 &&
+  nested.body(5) === 1 &&
+  both.names.length === 3 &&
+  both.effect.praxis === 0.5 && both.effect.gnosis === 1 &&
+  arityRejected;
+
+console.log(`  ${both.composition}(5) = ${both.body(5)}, ${nested.composition}(5) = ${nested.body(5)}`);
+console.log(`  ${compileOk ? '✅' : '❌'} Multi-argument terms compile; extra arguments are rejected\n`);
+allPassed = allPassed && compileOk;
+
+// ============================================================================
+// TEST 6: The observatory keeps the whole composition
+// ============================================================================
+
+console.log('📐 TEST 6: Cartography of nested compositions');
+console.log('─'.repeat(70) + '\n');
+
+const runtime = new FieldRuntime({ seed: 7, autoTick: false });
+const cartography = new CartographyLog();
+cartography.observe(runtime);
+for (const composition of ['λ_CONNECT(λ_EVOLVE(λ_REFLECT), µ_SELF)', 'λ_CREATE(λ_EVOLVE)', 'λ_INVERT(']) {
+  const wave = { id: composition, mass: 0.5, startPos: { x: 0, y: 0 }, endPos: { x: 1, y: 1 } };
+  runtime.emit('emergentWave', { wave, composition, seed: null });
+}
+const [deep, flat, broken] = cartography.getRecords();
+const frequency = cartography.analyze().morphismFrequency;
+
+const cartographyOk = deep.morphism1 === 'λ_CONNECT' && deep.morphism2 === 'λ_EVOLVE(λ_REFLECT), µ_SELF' &&
+  deep.morphisms.join() === 'λ_CONNECT,λ_EVOLVE,λ_REFLECT,µ_SELF' &&
+  flat.morphism2 === 'λ_EVOLVE' && broken.morphism1 === 'λ_INVERT(' && broken.morphism2 === '' &&
+  frequency.get('λ_EVOLVE') === 2 && frequency.get('λ_REFLECT') === 1 && !frequency.has('λ_EVOLVE(λ_REFLECT), µ_SELF');
+
+console.log(`  ${deep.composition}: ${deep.morphism1} applied to ${deep.morphism2}`);
+console.log(`  ${cartographyOk ? '✅' : '❌'} Records keep every argument; frequencies count morphisms at every depth\n`);
+allPassed = allPassed && cartographyOk;
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Composition expressions: PASSED' : '❌ Composition expressions: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);
@@ -0,0 +1,150 @@
+/**
+ * Test: Dipole Dynamics
+ *
+ * Validates the continuous-time dipole flows: Euler and RK4 against the
+ * analytic solutions, operators that record their applications like the
+ * discrete ones, and µ_HARVEST running on the flows.
+ */
+
+import {
+  dipoleFlow,
+  combineFlows,
+  integrateFlow,
+  createDipoleDynamics,
+  DEFAULT_DIPOLE_DYNAMICS,
+  µ_HARVEST,
+  createField,
+  createSeed,
+  δ_memoize,
+  δ_compose,
+} from './packages/core/dist/index.js';
+
+console.log('🌀 Dipole Dynamics: dx/dτ = δ(x, Φ)\n');
+console.log('Testing: the calculus in the continuum limit');
+console.log('='.repeat(70) + '\n');
+
+const close = (a, b, tolerance = 1e-9) => Math.abs(a - b) < tolerance;
+const start = { vector: { praxis: -1, gnosis: -1 }, mass: 0.2 };
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: Integrators against the analytic solutions
+// ============================================================================
+
+console.log('📐 TEST 1: Euler and RK4 against exact solutions');
+console.log('─'.repeat(70) + '\n');
+
+const { alpha, beta, epsilon } = DEFAULT_DIPOLE_DYNAMICS;
+const deconstruction = combineFlows(dipoleFlow('δ_decompose'), dipoleFlow('δ_forget'));
+const memoize = dipoleFlow('δ_memoize');
+
+const error = (integrator, step) => {
+  const x = integrateFlow(deconstruction, start, 5, { integrator, step });
+  const m = integrateFlow(memoize, start, 5, { integrator, step });
+  return Math.max(
+    Math.abs(x.vector.praxis - -Math.exp(-alpha * 5)),
+    Math.abs(x.mass - 0.2 * Math.exp(-beta * 5)),
+    Math.abs(m.mass - (1 - 0.8 * Math.exp(-epsilon * 5)))
+  );
+};
+
+const [euler, eulerHalf, rk4, rk4Half] = [['euler', 0.1], ['euler', 0.05], ['rk4', 0.1], ['rk4', 0.05]].map(([i, h]) => error(i, h));
+const compose = integrateFlow(dipoleFlow('δ_compose', { gamma: 2 }), start, 1.5, { integrator: 'euler', step: 1 });
+
+const integratorOk = rk4 < 1e-8 && rk4 < euler / 1000 &&
+  close(euler / eulerHalf, 2, 0.1) && close(rk4 / rk4Half, 16, 2) &&
+  close(compose.vector.praxis, -1 + 3 * Math.SQRT1_2) && close(compose.vector.gnosis, compose.vector.praxis);
+
+console.log(`  Error at τ = 5: Euler ${euler.toExponential(2)} (h = 0.1), ${eulerHalf.toExponential(2)} (h = 0.05)`);
+console.log(`                  RK4   ${rk4.toExponential(2)} (h = 0.1), ${rk4Half.toExponential(2)} (h = 0.05)`);
+console.log(`  ${integratorOk ? '✅' : '❌'} Euler is first order, RK4 fourth order; δ_compose flows along the Truth axis\n`);
+allPassed = allPassed && integratorOk;
+
+// ============================================================================
+// TEST 2: Dipole operators
+// ============================================================================
+
+console.log('📐 TEST 2: Operators on ΛWaves');
+console.log('─'.repeat(70) + '\n');
+
+const dynamics = createDipoleDynamics();
+const field = createField();
+const seed = { ...createSeed(x => x, 'dynamics'), mass: 0.2 };
+const decomposed = dynamics.δ_forget(dynamics.δ_decompose(seed, field, 10), field, 11);
+const [first, second] = decomposed.trace.dipoleApplications;
+
+const operatorOk = close(decomposed.vector.praxis, -0.9, 1e-6) && close(decomposed.mass, 0.2 * 0.95, 1e-6) &&
+  decomposed.status === 'Deconstructing' && seed.trace.dipoleApplications.length === 0 &&
+  first.dipole === 'δ_decompose' && first.timestamp === 10 && first.massAfter === first.massBefore &&
+  second.dipole === 'δ_forget' && second.vectorAfter.praxis === second.vectorBefore.praxis;
+
+// δ_memoize and δ_compose follow their own flows, not the discrete steps
+const offAxis = { ...seed, vector: { praxis: 1, gnosis: 0 } };
+const flowOk = close(dynamics.δ_memoize(seed, field, 0).mass, 1 - 0.8 * Math.exp(-0.1), 1e-6) &&
+  !close(dynamics.δ_memoize(seed, field, 0).mass, δ_memoize(seed, field, 0).mass, 1e-3) &&
+  dynamics.δ_compose(offAxis, field, 0).mass === offAxis.mass &&
+  close(δ_compose(offAxis, field, 0).vector.praxis, δ_compose(offAxis, field, 0).vector.gnosis) &&
+  close(dynamics.δ_compose(offAxis, field, 0).vector.praxis - dynamics.δ_compose(offAxis, field, 0).vector.gnosis, 1);
+
+const near = dynamics.δ_decompose({ ...seed, vector: { praxis: 0.07, gnosis: 0.07 } }, field, 0);
+const composed = dynamics.δ_compose(near, field, 0);
+const narrow = createDipoleDynamics({ bridgeRadius: 0.05 }).δ_decompose({ ...seed, vector: { praxis: 0.07, gnosis: 0.07 } }, field, 0);
+const statusOk = near.status === 'InBridge' && composed.status === 'Synthesizing' && narrow.status === 'Deconstructing' &&
+  dynamics.options.bridgeRadius === 0.1 &&
+  close(composed.vector.praxis - near.vector.praxis, 0.5 * Math.SQRT1_2, 1e-9);
+
+let threw = 0;
+for (const options of [{ alpha: -1 }, { step: 0 }, { duration: 0 }, { epsilon: NaN }, { bridgeRadius: -1 }]) {
+  try {
+    createDipoleDynamics(options);
+  } catch {
+    threw++;
+  }
+}
+
+console.log(`  One unit of τ: vector ×${(decomposed.vector.praxis / -1).toFixed(6)}, mass ×${(decomposed.mass / 0.2).toFixed(6)}`);
+console.log(`  ${operatorOk ? '✅' : '❌'} Default rates match discrete δ_decompose (vector) and δ_forget per unit of τ`);
+console.log(`  ${flowOk ? '✅' : '❌'} δ_memoize saturates and δ_compose translates, unlike their discrete steps`);
+console.log(`  ${statusOk ? '✅' : '❌'} Bridge entry (within bridgeRadius) and synthesis follow the discrete rules`);
+console.log(`  ${threw === 5 ? '✅' : '❌'} Negative rates and empty steps are rejected\n`);
+allPassed = allPassed && operatorOk && flowOk && statusOk && threw === 5;
+
+// ============================================================================
+// TEST 3: µ_HARVEST on the flows
+// ============================================================================
+
+console.log('📐 TEST 3: µ_HARVEST in the continuum limit');
+console.log('─'.repeat(70) + '\n');
+
+const harvest = (options) => µ_HARVEST(createSeed(x => x, 'harvest'), createField(), options ? { dynamics: createDipoleDynamics(options) } : {});
+const count = (wave, dipole) => wave.trace.dipoleApplications.filter(a => a.dipole === dipole).length;
+
+const discrete = harvest();
+const continuous = harvest({});
+const coarse = harvest({ integrator: 'euler', step: 1 });
+const fine = harvest({ step: 0.01 });
+const distance = w => Math.hypot(w.vector.praxis, w.vector.gnosis);
+
+const harvestOk = continuous.wave.status === 'Crystallized' && continuous.wave.trace.bridgeCrossings === 1 &&
+  continuous.wave.mass > 0.7 && distance(continuous.wave) > 1.5 &&
+  count(continuous.wave, 'δ_decompose') === count(discrete.wave, 'δ_decompose') &&
+  continuous.field.transformers.length === 1 && close(continuous.field.density, continuous.wave.mass / 100);
+
+const limitOk = close(fine.wave.mass, continuous.wave.mass, 1e-9) &&
+  close(fine.wave.vector.praxis, continuous.wave.vector.praxis, 1e-9) &&
+  !close(coarse.wave.mass, continuous.wave.mass, 1e-4) &&
+  count(discrete.wave, 'δ_compose') < count(continuous.wave, 'δ_compose');
+
+console.log(`  Discrete:   ${count(discrete.wave, 'δ_decompose')} deconstruction, ${count(discrete.wave, 'δ_compose')} synthesis steps, mass ${discrete.wave.mass.toFixed(3)}`);
+console.log(`  Continuous: ${count(continuous.wave, 'δ_decompose')} deconstruction, ${count(continuous.wave, 'δ_compose')} synthesis units of τ, mass ${continuous.wave.mass.toFixed(6)}`);
+console.log(`  Euler h = 1: mass ${coarse.wave.mass.toFixed(6)}; RK4 h = 0.01: mass ${fine.wave.mass.toFixed(6)}`);
+console.log(`  ${harvestOk ? '✅' : '❌'} µ_HARVEST crosses the Bridge and crystallizes on the flows`);
+console.log(`  ${limitOk ? '✅' : '❌'} Refining the step converges; memoization is gradual in the continuum\n`);
+allPassed = allPassed && harvestOk && limitOk;
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Dipole dynamics: PASSED' : '❌ Dipole dynamics: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);
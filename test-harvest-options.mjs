@@ -0,0 +1,120 @@
+/**
+ * Test: Harvest Options
+ *
+ * Validates that the thresholds, iteration caps and density function of
+ * both µ_HARVEST implementations and the fixpoint analysis come from
+ * HarvestOptions, keep their old values by default and are reported in
+ * every HarvestResult.
+ */
+
+import {
+  µ_HARVEST,
+  createField,
+  createSeed,
+  DEFAULT_HARVEST_OPTIONS,
+  ALGEBRAIC_HARVEST_OPTIONS,
+  massDensity,
+  countDensity,
+  resolveHarvestOptions,
+  isFixpoint,
+  convergeToFixpoint,
+  CRYSTALLIZATION_THRESHOLD,
+  FIXPOINT_EPSILON,
+} from './packages/core/dist/index.js';
+import { µ_HARVEST as µ_HARVEST_algebraic } from './packages/core/dist/harvest-algebraic.js';
+
+console.log('⚙️  Harvest Options\n');
+console.log('Testing: varying the physics without forking core');
+console.log('='.repeat(70) + '\n');
+
+const count = (wave, dipole) => wave.trace.dipoleApplications.filter(a => a.dipole === dipole).length;
+const seed = () => createSeed(x => x, 'options');
+const heavySeed = () => ({ ...seed(), vector: { praxis: 0.5, gnosis: 0.5 }, mass: 0.8 });
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: Defaults
+// ============================================================================
+
+console.log('📐 TEST 1: Defaults keep the old physics and are reported');
+console.log('─'.repeat(70) + '\n');
+
+const legacy = µ_HARVEST(seed(), createField());
+const algebraic = µ_HARVEST_algebraic(heavySeed(), createField());
+
+const defaultsOk = JSON.stringify(legacy.options) === JSON.stringify(DEFAULT_HARVEST_OPTIONS) &&
+  legacy.options.density === massDensity && legacy.options.dynamics === null &&
+  legacy.field.density === legacy.wave.mass / 100 &&
+  count(legacy.wave, 'δ_decompose') === 26 && legacy.wave.status === 'Crystallized' &&
+  algebraic.options.density === countDensity && algebraic.field.density === 0.01 &&
+  algebraic.options.crystallizationMass === 0.7 &&
+  CRYSTALLIZATION_THRESHOLD === 0.7 && FIXPOINT_EPSILON === 0.15;
+
+console.log(`  Imperative: ${count(legacy.wave, 'δ_decompose')} steps to the Bridge (radius ${legacy.options.bridgeRadius}), density ${legacy.field.density.toFixed(4)}`);
+console.log(`  Algebraic:  density ${algebraic.field.density} (one transformer)`);
+console.log(`  ${defaultsOk ? '✅' : '❌'} Defaults match the hard-coded values they replace\n`);
+allPassed = allPassed && defaultsOk;
+
+// ============================================================================
+// TEST 2: Varying the physics
+// ============================================================================
+
+console.log('📐 TEST 2: Thresholds, caps and density');
+console.log('─'.repeat(70) + '\n');
+
+const wideBridge = µ_HARVEST(seed(), createField(), { bridgeRadius: 0.5 });
+const far = µ_HARVEST(seed(), createField(), { crystallizationDistance: 3 });
+const capped = µ_HARVEST(seed(), createField(), { maxIterations: 5, crystallizationDistance: 10 });
+const dense = µ_HARVEST(seed(), createField(), { density: transformers => transformers.length / 2 });
+
+const legacyOk = count(wideBridge.wave, 'δ_decompose') === 10 && wideBridge.options.bridgeRadius === 0.5 &&
+  count(far.wave, 'δ_compose') > count(legacy.wave, 'δ_compose') && Math.hypot(far.wave.vector.praxis, far.wave.vector.gnosis) > 3 &&
+  count(capped.wave, 'δ_decompose') === 5 && count(capped.wave, 'δ_compose') === 5 && capped.wave.status === 'Synthesizing' &&
+  dense.field.density === 0.5 && dense.field.phase === 'ORGANIZING';
+
+const unreachable = µ_HARVEST_algebraic(heavySeed(), createField(), { crystallizationMass: 1.1 });
+const massCounted = µ_HARVEST_algebraic(heavySeed(), createField(), { density: massDensity });
+
+const algebraicOk = unreachable.wave.status !== 'Crystallized' && unreachable.field.transformers.length === 0 &&
+  unreachable.options.crystallizationMass === 1.1 &&
+  massCounted.field.density === massCounted.field.transformers[0].mass / 100;
+
+console.log(`  Bridge radius 0.5: ${count(wideBridge.wave, 'δ_decompose')} steps; crystallize beyond 3: ${count(far.wave, 'δ_compose')} synthesis steps`);
+console.log(`  maxIterations 5: ${count(capped.wave, 'δ_decompose')} + ${count(capped.wave, 'δ_compose')} steps, ${capped.wave.status}; density by count: ${dense.field.density} (${dense.field.phase})`);
+console.log(`  ${legacyOk ? '✅' : '❌'} The imperative harvest follows its options`);
+console.log(`  ${algebraicOk ? '✅' : '❌'} The algebraic harvest follows crystallizationMass and density\n`);
+allPassed = allPassed && legacyOk && algebraicOk;
+
+// ============================================================================
+// TEST 3: Fixpoints and validation
+// ============================================================================
+
+console.log('📐 TEST 3: Fixpoint analysis and validation');
+console.log('─'.repeat(70) + '\n');
+
+const wave = heavySeed();
+const strict = convergeToFixpoint(wave, createField(), undefined, { fixpointEpsilon: 0, maxFixpointIterations: 3 });
+const fixpointOk = isFixpoint(wave, createField(), undefined, { fixpointEpsilon: 100 }) &&
+  !isFixpoint(wave, createField(), undefined, { fixpointEpsilon: 0 }) &&
+  !strict.converged && strict.iterations === 3 && strict.history.length === 4;
+
+let threw = 0;
+for (const options of [{ maxIterations: 1.5 }, { bridgeRadius: -1 }, { crystallizationMass: NaN }, { density: 0.5 }]) {
+  try {
+    resolveHarvestOptions(options);
+  } catch {
+    threw++;
+  }
+}
+const resolvedOk = threw === 4 && resolveHarvestOptions({}, ALGEBRAIC_HARVEST_OPTIONS).density === countDensity;
+
+console.log(`  ${fixpointOk ? '✅' : '❌'} Fixpoint tolerance and iteration cap are options`);
+console.log(`  ${resolvedOk ? '✅' : '❌'} Invalid options are rejected\n`);
+allPassed = allPassed && fixpointOk && resolvedOk;
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Harvest options: PASSED' : '❌ Harvest options: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);
@@ -0,0 +1,137 @@
+/**
+ * Test: Harvest Strategies
+ *
+ * Validates the HarvestStrategy registry holding both µ_HARVEST
+ * implementations and the differential harvest that runs them on the same
+ * seeds and reports where their waves and Fields diverge.
+ */
+
+import {
+  µ_HARVEST,
+  createField,
+  createSeed,
+  arbitrary,
+  HarvestStrategyRegistry,
+  createHarvestRegistry,
+  IMPERATIVE_HARVEST,
+  ALGEBRAIC_HARVEST,
+  differentialHarvest,
+  countDensity,
+} from './packages/core/dist/index.js';
+
+console.log('🔀 Harvest Strategies\n');
+console.log('Testing: µ_HARVEST = finalize ∘ compose(deconstruction, synthesis), twice');
+console.log('='.repeat(70) + '\n');
+
+// Deterministic seeds: the default seed plus waves drawn across the Field
+let state = 7;
+const random = () => (state = (state * 16807) % 2147483647) / 2147483647;
+const seeds = [createSeed(x => x, 'strategies'), ...Array.from({ length: 20 }, () => arbitrary.wave(3).generate(random))];
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: Registry
+// ============================================================================
+
+console.log('📐 TEST 1: Both implementations behind one interface');
+console.log('─'.repeat(70) + '\n');
+
+const registry = createHarvestRegistry();
+const viaRegistry = registry.harvest('imperative', seeds[0], createField());
+const direct = µ_HARVEST(seeds[0], createField());
+
+let duplicate = false;
+let unknown = false;
+try {
+  registry.register({ ...ALGEBRAIC_HARVEST });
+} catch {
+  duplicate = true;
+}
+try {
+  registry.harvest('quantum', seeds[0], createField());
+} catch {
+  unknown = true;
+}
+
+const registryOk = registry.names().join() === 'imperative,algebraic' &&
+  registry.get('algebraic') === ALGEBRAIC_HARVEST && registry.get('algebraic').defaults.density === countDensity &&
+  viaRegistry.wave.mass === direct.wave.mass && viaRegistry.wave.vector.praxis === direct.wave.vector.praxis &&
+  registry.harvest('algebraic', seeds[0], createField(), { crystallizationMass: 2 }).field.transformers.length === 0 &&
+  duplicate && unknown;
+
+console.log(`  Registered: ${registry.names().join(', ')}`);
+console.log(`  ${registryOk ? '✅' : '❌'} Strategies are looked up by name and take HarvestOptions\n`);
+allPassed = allPassed && registryOk;
+
+// ============================================================================
+// TEST 2: Differential harvest
+// ============================================================================
+
+console.log('📐 TEST 2: Imperative vs algebraic on the same seeds');
+console.log('─'.repeat(70) + '\n');
+
+const report = differentialHarvest(seeds);
+const first = report.divergences.find(d => d.path === 'wave.trace.bridgeCrossings');
+
+const differentialOk = report.strategies.join() === 'imperative,algebraic' && report.seeds === 21 &&
+  report.byPath['wave.trace.bridgeCrossings'] === 21 && first.values.imperative === 1 && first.values.algebraic === 0 &&
+  report.byPath['wave.vector'] > 0 && report.byPath['field.transformers'] === undefined &&
+  report.divergences.every(d => d.seed >= 0 && d.seed < 21 && Object.keys(d.values).join() === 'imperative,algebraic') &&
+  seeds[0].trace.bridgeCrossings === 0 && seeds[0].trace.dipoleApplications.length === 0;
+
+const tuned = differentialHarvest(seeds.slice(0, 3), undefined, { options: { bridgeRadius: 0.5, crystallizationMass: 0.6, fixpointEpsilon: 0.1 } });
+const ignoredOk = report.ignored.imperative.length === 0 && report.ignored.algebraic.length === 0 &&
+  tuned.ignored.imperative.join() === 'fixpointEpsilon' && tuned.ignored.algebraic.join() === 'bridgeRadius,fixpointEpsilon';
+
+for (const [path, count] of Object.entries(report.byPath)) {
+  console.log(`  ${path.padEnd(32)} diverges on ${count}/${report.seeds} seeds`);
+}
+console.log(`  Agreed on ${report.agreed}/${report.seeds} seeds`);
+console.log(`  Ignored by algebraic: ${tuned.ignored.algebraic.join(', ')}`);
+console.log(`  ${differentialOk ? '✅' : '❌'} Divergences are reported per seed and observable; seeds are not mutated`);
+console.log(`  ${ignoredOk ? '✅' : '❌'} Options a strategy does not honour are reported\n`);
+allPassed = allPassed && differentialOk && ignoredOk;
+
+// ============================================================================
+// TEST 3: Agreement and failures
+// ============================================================================
+
+console.log('📐 TEST 3: Identical strategies agree, failures are divergences');
+console.log('─'.repeat(70) + '\n');
+
+const twins = new HarvestStrategyRegistry([IMPERATIVE_HARVEST, { ...IMPERATIVE_HARVEST, name: 'twin' }]);
+const agreement = differentialHarvest(seeds, twins, { options: { crystallizationDistance: 3 } });
+
+twins.register({
+  name: 'broken',
+  defaults: IMPERATIVE_HARVEST.defaults,
+  harvest: (seed) => {
+    if (seed.mass > 0.5) throw new Error('too heavy');
+    return µ_HARVEST(seed, createField());
+  },
+});
+const failing = differentialHarvest(seeds, twins, { strategies: ['imperative', 'broken'] });
+const heavy = seeds.filter(s => s.mass > 0.5).length;
+const errorEntry = failing.divergences.find(d => d.path === 'error');
+
+let tooFew = false;
+try {
+  differentialHarvest(seeds, twins, { strategies: ['twin'] });
+} catch {
+  tooFew = true;
+}
+
+const agreementOk = agreement.agreed === 21 && agreement.divergences.length === 0 &&
+  failing.byPath.error === heavy && errorEntry.values.broken === 'too heavy' && errorEntry.values.imperative === null &&
+  tooFew;
+
+console.log(`  Twins agreed on ${agreement.agreed}/${agreement.seeds}; 'broken' threw on ${failing.byPath.error} heavy seeds`);
+console.log(`  ${agreementOk ? '✅' : '❌'} Equal implementations never diverge; exceptions are reported, not thrown\n`);
+allPassed = allPassed && agreementOk;
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Harvest strategies: PASSED' : '❌ Harvest strategies: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);
@@ -0,0 +1,126 @@
+/**
+ * Test: Law Checker
+ *
+ * Validates QuickCheck-style detection of algebraic properties: laws are
+ * sampled on generated values, counterexamples are returned, and
+ * classifyAlgebra works from the detected facts.
+ */
+
+import {
+  arbitrary,
+  checkLaws,
+  detectProperties,
+  classifyAlgebra,
+  structurallyEqual,
+} from './packages/core/dist/index.js';
+
+console.log('⚖️  Law Checker\n');
+console.log('Testing: classifications are facts, not assumptions');
+console.log('='.repeat(70) + '\n');
+
+const integers = { accumulator: arbitrary.integer() };
+
+function classify(name, fn, identity, generators, options) {
+  const algebra = { name, fn, identity, properties: null, class: 'Magma' };
+  algebra.properties = detectProperties(algebra, generators, options);
+  algebra.class = classifyAlgebra(algebra);
+  return algebra;
+}
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: Classification from sampled laws
+// ============================================================================
+
+console.log('📐 TEST 1: Theorem 40 on known algebras');
+console.log('─'.repeat(70) + '\n');
+
+const strings = arbitrary.element(['', 'a', 'b', 'ab', 'λ']);
+const cases = [
+  [classify('sum', (a, b) => a + b, 0, integers, { inverse: a => -a }), 'AbelianGroup'],
+  [classify('sum (searched inverse)', (a, b) => a + b, 0, { accumulator: arbitrary.integer(-3, 3) }), 'AbelianGroup'],
+  [classify('product', (a, b) => a * b, 1, integers), 'CommutativeMonoid'],
+  [classify('max', Math.max, -Infinity, { accumulator: arbitrary.number() }), 'IdempotentCommutativeMonoid'],
+  [classify('concat', (a, b) => a + b, '', { value: strings, accumulator: strings }), 'Monoid'],
+  [classify('sum without identity', (a, b) => a + b, null, integers), 'Semigroup'],
+  [classify('subtraction', (a, b) => a - b, 0, integers), 'Magma'],
+];
+
+let classOk = true;
+for (const [algebra, expected] of cases) {
+  const ok = algebra.class === expected;
+  classOk = classOk && ok;
+  console.log(`  ${ok ? '✅' : '❌'} ${algebra.name}: ${algebra.class}`);
+}
+console.log();
+allPassed = allPassed && classOk;
+
+// ============================================================================
+// TEST 2: Counterexamples
+// ============================================================================
+
+console.log('📐 TEST 2: Counterexamples');
+console.log('─'.repeat(70) + '\n');
+
+const subtraction = checkLaws({ fn: (a, b) => a - b, identity: 0 }, integers);
+const [a, x, y] = subtraction.laws.associative.counterexample.inputs;
+const counterOk = !subtraction.laws.associative.holds &&
+  subtraction.laws.associative.counterexample.left === (a - x) - y &&
+  subtraction.laws.associative.counterexample.right === a - (x - y) &&
+  subtraction.counterexamples.map(c => c.law).join() === 'associative,commutative,identity,idempotent,inverse' &&
+  subtraction.properties.identity === null;
+
+// A fold whose values are not accumulators: the laws do not apply
+const count = checkLaws(
+  { fn: (acc, value) => ({ count: acc.count + 1, sum: acc.sum + value.toFixed(0).length }), identity: { count: 0, sum: 0 } },
+  { value: arbitrary.integer(), accumulator: arbitrary.record({ count: arbitrary.integer(0, 5), sum: arbitrary.integer() }) }
+);
+const foldOk = Object.values(count.laws).every(law => !law.applicable && !law.holds && law.samples === 0) &&
+  count.counterexamples.length === 0 && subtraction.laws.associative.applicable;
+
+const guarded = checkLaws({ fn: (p, q) => { if (q > 50) throw new RangeError('too large'); return p + q; }, identity: 0 }, integers);
+const errorOk = guarded.laws.associative.error?.message === 'too large' && !guarded.laws.associative.holds &&
+  guarded.laws.associative.counterexample === null && guarded.errors.length > 0 &&
+  guarded.counterexamples.every(c => !c.inputs.some(q => q > 50));
+
+const holdsOk = checkLaws({ fn: (a, b) => a + b, identity: 0 }, integers, { samples: 250 }).laws.commutative.samples === 250;
+const deterministic = JSON.stringify(checkLaws({ fn: (a, b) => a - b, identity: 0 }, integers, { seed: 9 })) ===
+  JSON.stringify(checkLaws({ fn: (a, b) => a - b, identity: 0 }, integers, { seed: 9 }));
+
+console.log(`  a - x - y ≠ a - (x - y) for ${JSON.stringify(subtraction.laws.associative.counterexample.inputs)}`);
+console.log(`  ${counterOk ? '✅' : '❌'} Failed laws return the inputs and both sides`);
+console.log(`  ${foldOk ? '✅' : '❌'} Folds (values are not accumulators) are not sampled`);
+console.log(`  ${errorOk ? '✅' : '❌'} An operation that throws is an error, not a counterexample`);
+console.log(`  ${holdsOk && deterministic ? '✅' : '❌'} Sample counts are configurable and seeds reproducible\n`);
+allPassed = allPassed && counterOk && foldOk && errorOk && holdsOk && deterministic;
+
+// ============================================================================
+// TEST 3: Equality
+// ============================================================================
+
+console.log('📐 TEST 3: Equality');
+console.log('─'.repeat(70) + '\n');
+
+const tenths = arbitrary.element([0.1, 0.2, 0.3, 0.7]);
+const floats = { accumulator: tenths };
+const roundOff = checkLaws({ fn: (a, b) => a + b, identity: 0 }, floats).properties.associative;
+const strict = checkLaws({ fn: (a, b) => a + b, identity: 0 }, floats, { equals: (p, q) => p === q }).properties.associative;
+const mergeObjects = checkLaws({ fn: (p, q) => ({ ...p, ...q }), identity: {} }, {
+  accumulator: arbitrary.record({ k: arbitrary.integer(0, 2) }),
+});
+
+const equalityOk = roundOff && !strict &&
+  structurallyEqual({ a: [1, { b: 0.1 + 0.2 }] }, { a: [1, { b: 0.3 }] }) &&
+  !structurallyEqual([1, 2], { 0: 1, 1: 2 }) &&
+  mergeObjects.properties.associative && mergeObjects.properties.idempotent && !mergeObjects.properties.commutative;
+
+console.log(`  Float addition associative: ${roundOff} (structural), ${strict} (===)`);
+console.log(`  ${equalityOk ? '✅' : '❌'} Structural equality with tolerance by default, custom equality on request\n`);
+allPassed = allPassed && equalityOk;
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Law checker: PASSED' : '❌ Law checker: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);
@@ -0,0 +1,141 @@
+/**
+ * Test: Counterexample Shrinking
+ *
+ * Validates that failing algebra laws are reported with the smallest
+ * inputs the generators can shrink to, and that violation reports name
+ * the law and show both sides of the equation.
+ */
+
+import {
+  arbitrary,
+  checkLaws,
+  verifyAlgebra,
+  formatCounterexample,
+  formatLawError,
+  toConsciousAlgebra,
+} from './packages/core/dist/index.js';
+
+console.log('🔬 Counterexample Shrinking\n');
+console.log('Testing: the smallest failing input, not the first random one');
+console.log('='.repeat(70) + '\n');
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: Built-in shrinkers
+// ============================================================================
+
+console.log('📐 TEST 1: Built-in shrinkers');
+console.log('─'.repeat(70) + '\n');
+
+const wave = arbitrary.wave().shrink({
+  id: 'w', body: x => x, vector: { praxis: 2, gnosis: -1 }, mass: 0.8,
+  trace: { origin: 'test', timestamp: 0, dipoleApplications: [], bridgeCrossings: 0 }, status: 'Synthesizing', path: [],
+});
+
+const shrinkersOk =
+  arbitrary.integer().shrink(37).join() === '0,19,36' &&
+  arbitrary.integer(5, 10).shrink(9)[0] === 5 &&
+  arbitrary.integer().shrink(0).length === 0 &&
+  arbitrary.number(-1, 1).shrink(0.75).includes(0) &&
+  arbitrary.boolean().shrink(true).join() === 'false' &&
+  arbitrary.element(['a', 'b', 'c']).shrink('c').join() === 'a,b' &&
+  JSON.stringify(arbitrary.array(arbitrary.integer()).shrink([3, 4])[0]) === '[]' &&
+  arbitrary.record({ n: arbitrary.integer(), b: arbitrary.boolean() }).shrink({ n: 2, b: true }).some(r => r.n === 0 && r.b) &&
+  JSON.stringify(arbitrary.fieldVector().shrink({ praxis: 1, gnosis: 2 })[0]) === '{"praxis":0,"gnosis":0}' &&
+  arbitrary.tuple(arbitrary.integer(), arbitrary.boolean()).shrink([4, true]).some(t => t[0] === 0 && t[1]) &&
+  wave[0].vector.praxis === 0 && wave[0].vector.gnosis === 0 &&
+  wave.some(w => w.mass === 0) && wave.some(w => w.status === 'Seed');
+
+console.log(`  integer 37 → ${arbitrary.integer().shrink(37).join(', ')}; wave → ${wave.length} simpler waves`);
+console.log(`  ${shrinkersOk ? '✅' : '❌'} Numbers, arrays, records, tuples, Field vectors and ΛWaves shrink\n`);
+allPassed = allPassed && shrinkersOk;
+
+// ============================================================================
+// TEST 2: Minimal counterexamples
+// ============================================================================
+
+console.log('📐 TEST 2: Minimal counterexamples');
+console.log('─'.repeat(70) + '\n');
+
+const integers = { accumulator: arbitrary.integer() };
+const subtraction = checkLaws({ fn: (a, b) => a - b, identity: 0 }, integers).laws.associative.counterexample;
+const [a, x, y] = subtraction.inputs;
+const subtractionOk = a === 0 && x === 0 && Math.abs(y) === 1 &&
+  subtraction.shrinks > 0 && subtraction.original.some(v => Math.abs(v) > 1);
+
+const lists = { accumulator: arbitrary.array(arbitrary.integer()) };
+const concat = checkLaws({ fn: (p, q) => [...p, ...q], identity: [] }, lists).laws.commutative.counterexample;
+const concatOk = concat.inputs.every(list => list.length === 1) &&
+  concat.inputs.flat().sort().join() === '0,1';
+
+const waves = { accumulator: arbitrary.wave() };
+const addVectors = (p, q) => ({ ...p, vector: { praxis: p.vector.praxis + q.vector.praxis, gnosis: p.vector.gnosis + q.vector.gnosis } });
+const doubled = checkLaws({ fn: addVectors, identity: null }, waves).laws.idempotent.counterexample;
+const [simplest] = doubled.inputs;
+const waveOk = simplest.mass === 0 && simplest.status === 'Seed' &&
+  (simplest.vector.praxis === 0) !== (simplest.vector.gnosis === 0);
+
+const unshrunk = checkLaws({ fn: (p, q) => p - q, identity: 0 }, integers, { maxShrinks: 0 }).laws.associative.counterexample;
+const limitOk = unshrunk.shrinks === 0 && unshrunk.inputs === unshrunk.original;
+
+console.log(`  a - x - y: ${JSON.stringify(subtraction.original)} → ${JSON.stringify(subtraction.inputs)} in ${subtraction.shrinks} steps`);
+console.log(`  Concatenation: ${JSON.stringify(concat.original)} → ${JSON.stringify(concat.inputs)}`);
+console.log(`  Doubled wave: ${JSON.stringify({ ...doubled.original[0], body: undefined, trace: undefined })}\n    → ${JSON.stringify({ ...simplest, body: undefined, trace: undefined })}`);
+console.log(`  ${subtractionOk ? '✅' : '❌'} Numbers shrink to the smallest failing values`);
+console.log(`  ${concatOk ? '✅' : '❌'} Arrays shrink to the shortest failing lists`);
+console.log(`  ${waveOk ? '✅' : '❌'} ΛWaves shrink toward the Bridge, zero mass and Seed`);
+console.log(`  ${limitOk ? '✅' : '❌'} maxShrinks bounds the search\n`);
+allPassed = allPassed && subtractionOk && concatOk && waveOk && limitOk;
+
+// ============================================================================
+// TEST 3: Violation reports
+// ============================================================================
+
+console.log('📐 TEST 3: Validating a registered algebra');
+console.log('─'.repeat(70) + '\n');
+
+// A λ-Foundation algebra that claims more than it delivers
+const claimed = toConsciousAlgebra({
+  name: 'difference',
+  fn: (p, q) => p - q,
+  properties: { associative: true, commutative: true, identity: 0, idempotent: false, inverse: false },
+  class: 'CommutativeMonoid',
+  implications: {},
+}, { praxis: 1, gnosis: 1 });
+
+const violations = verifyAlgebra(claimed, integers);
+const reports = violations.map(formatCounterexample);
+console.log(reports.map(r => r.replace(/^/gm, '  ')).join('\n\n') + '\n');
+
+const honest = verifyAlgebra(toConsciousAlgebra({
+  name: 'sum',
+  fn: (p, q) => p + q,
+  properties: { associative: true, commutative: true, identity: 0, idempotent: false, inverse: true },
+  class: 'AbelianGroup',
+  implications: {},
+}), integers, { inverse: p => -p });
+
+const reportOk = violations.map(v => v.law).join() === 'associative,commutative,identity' &&
+  reports[0].startsWith('associative violated: fn(fn(a, x), y) = fn(a, fn(x, y))') &&
+  reports[0].includes('a = 0, x = 0, y = ') && /left: +-?1/.test(reports[0]) && /right: +-?1/.test(reports[0]) &&
+  /shrunk from a = -?\d+, x = -?\d+, y = -?\d+ in \d+ steps?/.test(reports[0]) &&
+  honest.length === 0;
+
+const guarded = checkLaws(
+  { fn: (p, q) => { if (q > 50) throw new RangeError('too large'); return p + q; }, identity: 0 },
+  integers
+);
+const throwing = formatLawError(guarded.laws.associative.error);
+const throwOk = /^associative not evaluated/.test(throwing) && /threw: too large/.test(throwing) &&
+  guarded.laws.associative.counterexample === null && !guarded.counterexamples.some(c => c.law === 'associative');
+
+console.log(`  ${reportOk ? '✅' : '❌'} Reports name the law, the shrunk inputs and both sides`);
+console.log(`  ${throwOk ? '✅' : '❌'} Operations that throw are reported unshrunk, apart from violations\n`);
+allPassed = allPassed && reportOk && throwOk;
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Counterexample shrinking: PASSED' : '❌ Counterexample shrinking: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);
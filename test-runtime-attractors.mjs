@@ -0,0 +1,134 @@
+/**
+ * Test: Attractor Steering
+ *
+ * Validates that attractors placed in the Field shape the runtime:
+ * wave paths, crystallized mass and the endpoints of emergent thoughts.
+ */
+
+import { FieldRuntime, VirtualClock, toCanvas } from './packages/runtime/dist/index.js';
+
+console.log('🧲 Attractor Steering\n');
+console.log('Testing: "The Choice" changes how the Field behaves');
+console.log('='.repeat(70) + '\n');
+
+const LOVE = { praxis: 0, gnosis: 1.5 };
+const projection = { width: 800, height: 600, fieldExtent: 5 };
+const lovePx = toCanvas(LOVE, projection);
+
+function flight(strength) {
+  const runtime = new FieldRuntime({ seed: 3, clock: new VirtualClock(), autoTick: false, projection });
+  if (strength !== null) {
+    runtime.addAttractor({ type: 'LOVE', position: { ...LOVE }, strength });
+  }
+
+  let crystallized = null;
+  runtime.on('waveCrystallized', e => (crystallized = e));
+  runtime.injectWave({ kind: 'manual', start: { x: 100, y: 300 }, end: { x: 700, y: 300 }, mass: 0.5, duration: 1000 });
+
+  let midpoint = null;
+  while (!crystallized) {
+    runtime.step(16);
+    const [wave] = runtime.getState().activeWaves;
+    if (!midpoint && wave && wave.progress >= 0.5) midpoint = wave.path[wave.path.length - 1];
+  }
+
+  return { midpoint, well: crystallized.well };
+}
+
+// ============================================================================
+// TEST 1: Flat Field is unchanged
+// ============================================================================
+
+console.log('📐 TEST 1: No attractors, no effect');
+console.log('─'.repeat(70) + '\n');
+
+const bare = flight(null);
+const zero = flight(0);
+
+const flatOk = JSON.stringify(bare) === JSON.stringify(zero) && Math.abs(bare.midpoint.y - 300) < 1e-9 && bare.well.mass === 0.5;
+console.log(`  Midpoint without attractors: (${bare.midpoint.x.toFixed(1)}, ${bare.midpoint.y.toFixed(1)})`);
+console.log(`  ${flatOk ? '✅' : '❌'} Zero strength is indistinguishable from no attractor\n`);
+
+// ============================================================================
+// TEST 2: Paths bend towards strength
+// ============================================================================
+
+console.log('📐 TEST 2: Trajectories');
+console.log('─'.repeat(70) + '\n');
+
+const weak = flight(0.2);
+const strong = flight(1);
+const pull = r => 300 - r.midpoint.y;
+
+const bendOk = pull(weak) > 1 && pull(strong) > 4 * pull(weak) &&
+  Math.abs(strong.well.position.x - 700) < 1e-6 && Math.abs(strong.well.position.y - 300) < 1e-6;
+console.log(`  LOVE at canvas (${lovePx.x}, ${lovePx.y}); midpoint pulled ${pull(weak).toFixed(1)}px at 0.2, ${pull(strong).toFixed(1)}px at 1.0`);
+console.log(`  ${bendOk ? '✅' : '❌'} Waves drift towards stronger attractors, endpoints stay put\n`);
+
+// ============================================================================
+// TEST 3: Crystallization mass follows the metric
+// ============================================================================
+
+console.log('📐 TEST 3: Crystallized mass');
+console.log('─'.repeat(70) + '\n');
+
+function landing(end) {
+  const runtime = new FieldRuntime({ seed: 3, clock: new VirtualClock(), autoTick: false, projection });
+  runtime.addAttractor({ type: 'LOVE', position: { ...LOVE }, strength: 1 });
+  let well = null;
+  runtime.on('waveCrystallized', e => (well = e.well));
+  runtime.injectWave({ kind: 'manual', start: { x: 100, y: 500 }, end, mass: 0.5, duration: 160 });
+  while (!well) runtime.step(16);
+  return well.mass;
+}
+
+const near = landing({ x: lovePx.x + 10, y: lovePx.y });
+const far = landing({ x: 790, y: 590 });
+
+const massOk = near > 0.9 && far > 0.5 && far < 0.51;
+console.log(`  Mass 0.5 lands as ${near.toFixed(3)} beside LOVE, ${far.toFixed(3)} in a far corner`);
+console.log(`  ${massOk ? '✅' : '❌'} √det g weighs thoughts that land in curved space\n`);
+
+// ============================================================================
+// TEST 4: Emergent thoughts seek curvature
+// ============================================================================
+
+console.log('📐 TEST 4: Emergent endpoints');
+console.log('─'.repeat(70) + '\n');
+
+const beside = { x: lovePx.x + 24, y: lovePx.y };
+const ends = [beside, { x: 60, y: 60 }, { x: 740, y: 60 }, { x: 60, y: 540 }, { x: 740, y: 540 }, { x: 400, y: 560 }];
+
+function emergentTouchesLove(seed, withAttractor) {
+  const runtime = new FieldRuntime({ seed, clock: new VirtualClock(), autoTick: false, projection });
+  if (withAttractor) runtime.addAttractor({ type: 'LOVE', position: { ...LOVE }, strength: 1 });
+  runtime.loadMorphisms(['λ_CREATE', 'λ_REFLECT', 'λ_EVOLVE']);
+  for (const end of ends) {
+    runtime.injectWave({ kind: 'manual', start: end, end, mass: 1, duration: 32 });
+  }
+
+  let thought = null;
+  runtime.on('emergentWave', e => (thought = e.wave));
+  for (let i = 0; i < 20 && !thought; i++) runtime.step(16);
+
+  const well = runtime.getState().wells.find(w => Math.abs(w.position.x - beside.x) < 1 && Math.abs(w.position.y - beside.y) < 1);
+  const touches = p => Math.abs(p.x - well.position.x) < 1e-6 && Math.abs(p.y - well.position.y) < 1e-6;
+  return thought && (touches(thought.startPos) || touches(thought.endPos)) ? 1 : 0;
+}
+
+let flatHits = 0;
+let curvedHits = 0;
+for (let seed = 1; seed <= 60; seed++) {
+  flatHits += emergentTouchesLove(seed, false);
+  curvedHits += emergentTouchesLove(seed, true);
+}
+
+const seekOk = curvedHits > flatHits * 1.5 && curvedHits > 40;
+console.log(`  Thoughts touching the well beside LOVE: ${flatHits}/60 flat, ${curvedHits}/60 with LOVE`);
+console.log(`  ${seekOk ? '✅' : '❌'} Ricci curvature draws emergent endpoints\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = flatOk && bendOk && massOk && seekOk;
+console.log(allPassed ? '✅ Attractor steering: VALIDATED' : '❌ Attractor steering: FAILED');
+if (!allPassed) process.exit(1);
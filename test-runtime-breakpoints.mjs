@@ -0,0 +1,146 @@
+/**
+ * Test: Pause, Single-Step and Breakpoints
+ *
+ * Validates that the Field can be paused without leaving its phase,
+ * advanced tick by tick, and halted when an event matches a predicate.
+ */
+
+import { FieldRuntime, VirtualClock, simulate } from './packages/runtime/dist/index.js';
+
+console.log('⏸️  Pause, Step, Break\n');
+console.log('Testing: debugging emergence without console.log spelunking');
+console.log('='.repeat(70) + '\n');
+
+function seedField(runtime) {
+  runtime.loadMorphisms(['λ_CREATE', 'λ_REFLECT', 'λ_EVOLVE', 'µ_SELF']);
+  for (let i = 0; i < 8; i++) {
+    runtime.launchWave({ x: 40 * i, y: 20 }, { x: 300 - 30 * i, y: 280 }, 0.8);
+  }
+}
+
+// ============================================================================
+// TEST 1: Pause and resume keep the phase
+// ============================================================================
+
+console.log('📐 TEST 1: Pause / resume');
+console.log('─'.repeat(70) + '\n');
+
+const live = new FieldRuntime({ seed: 7, clock: new VirtualClock() });
+const phaseChanges = [];
+seedField(live);
+live.start();
+live.on('phaseChange', phase => phaseChanges.push(phase));
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+await sleep(120);
+const changesBeforePause = phaseChanges.length;
+live.pause();
+const phaseAtPause = live.getState().phase;
+const timeAtPause = live.getTime();
+await sleep(120);
+const frozen = live.getTime() === timeAtPause && live.running() && live.paused();
+
+live.step();
+const stepped = live.getTime() === timeAtPause + 16;
+
+live.resume();
+const phaseAfterResume = live.getState().phase;
+const quietTransitions = phaseChanges.length === changesBeforePause;
+await sleep(120);
+const resumed = live.getTime() > timeAtPause + 16 && !live.paused();
+live.stop();
+
+const pauseOk = timeAtPause > 0 && frozen && stepped && resumed &&
+  phaseAfterResume === phaseAtPause && quietTransitions && !live.paused();
+console.log(`  Paused at ${timeAtPause}ms in ${phaseAtPause}, resumed in ${phaseAfterResume}`);
+console.log(`  ${pauseOk ? '✅' : '❌'} Loop halts and continues without re-entering ORGANIZING\n`);
+
+// ============================================================================
+// TEST 2: stepTicks stops on a density crossing
+// ============================================================================
+
+console.log('📐 TEST 2: Break when density crosses 0.9');
+console.log('─'.repeat(70) + '\n');
+
+const stepper = new FieldRuntime({ seed: 7, clock: new VirtualClock(), autoTick: false });
+seedField(stepper);
+stepper.start();
+
+const hits = [];
+stepper.on('breakpoint', hit => hits.push(hit));
+stepper.addBreakpoint({ event: 'update', when: field => field.density >= 0.9, once: true });
+
+const ran = stepper.stepTicks(2000);
+const density = stepper.getState().density;
+const continued = stepper.stepTicks(10);
+
+const densityOk = ran < 2000 && density >= 0.9 && hits.length === 1 && hits[0].event === 'update' &&
+  hits[0].time === stepper.getTime() - 160 && stepper.paused() && continued === 10;
+console.log(`  Halted after ${ran} ticks at ρ = ${density.toFixed(3)}; ${continued} more ticks once removed`);
+console.log(`  ${densityOk ? '✅' : '❌'} stepTicks returns early on a hit\n`);
+
+// ============================================================================
+// TEST 3: Break on the first reflective emergent thought
+// ============================================================================
+
+console.log('📐 TEST 3: Break on λ_REFLECT');
+console.log('─'.repeat(70) + '\n');
+
+const summary = simulate({
+  ticks: 100_000,
+  config: { seed: 7 },
+  setup: runtime => {
+    seedField(runtime);
+    runtime.addBreakpoint({
+      event: 'emergentWave',
+      when: ({ composition }) => composition.includes('λ_REFLECT'),
+    });
+  },
+});
+
+const thought = summary.snapshot.state.activeWaves.find(w => w.emergent && w.composition.includes('λ_REFLECT'));
+
+const reflectOk = summary.stoppedEarly && summary.ticks < 100_000 && summary.events.emergentWave >= 1 && !!thought;
+console.log(`  Stopped after ${summary.ticks} ticks on ${thought?.composition}`);
+console.log(`  ${reflectOk ? '✅' : '❌'} simulate() ends the run at the breakpoint\n`);
+
+// ============================================================================
+// TEST 4: Removing breakpoints, paused snapshots
+// ============================================================================
+
+console.log('📐 TEST 4: Removal and snapshots');
+console.log('─'.repeat(70) + '\n');
+
+const removable = new FieldRuntime({ seed: 7, clock: new VirtualClock(), autoTick: false });
+seedField(removable);
+const id = removable.addBreakpoint({ event: 'update' });
+const removed = removable.removeBreakpoint(id) && !removable.removeBreakpoint(id);
+const uninterrupted = removable.stepTicks(50);
+
+removable.start();
+removable.addBreakpoint({ event: 'update' });
+removable.clearBreakpoints();
+removable.stepTicks(5);
+const stillRunning = !removable.paused();
+
+removable.pause();
+const restored = FieldRuntime.restore(JSON.parse(JSON.stringify(removable.snapshot())));
+const restoredOk = restored.running() && restored.paused() && restored.getState().phase === removable.getState().phase;
+restored.stop();
+
+let rejected = false;
+try {
+  removable.stepTicks(-1);
+} catch {
+  rejected = true;
+}
+
+const removalOk = removed && uninterrupted === 50 && stillRunning && restoredOk && rejected;
+console.log(`  Removed breakpoints ignored: ${uninterrupted === 50 && stillRunning}, paused snapshot restores paused: ${restoredOk}`);
+console.log(`  ${removalOk ? '✅' : '❌'} Breakpoints detach cleanly\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = pauseOk && densityOk && reflectOk && removalOk;
+console.log(allPassed ? '✅ Pause / step / breakpoints: VALIDATED' : '❌ Pause / step / breakpoints: FAILED');
+if (!allPassed) process.exit(1);
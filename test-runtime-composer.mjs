@@ -0,0 +1,152 @@
+/**
+ * Test: Emergent Composition Generator
+ *
+ * Validates depth limits, arity-aware operands, repetition rules,
+ * self-reference and the folding of crystallized compositions into new
+ * emergent thoughts.
+ */
+
+import {
+  parseComposition,
+  printComposition,
+  compositionNames,
+  createStandardRegistry,
+} from './packages/core/dist/index.js';
+import {
+  FieldRuntime,
+  VirtualClock,
+  CompositionGenerator,
+  compositionDepth,
+  createSeededRandom,
+  simulate,
+} from './packages/runtime/dist/index.js';
+
+console.log('🧬 Emergent Composition Generator\n');
+console.log('Testing: thoughts deeper than m1(m2)');
+console.log('='.repeat(70) + '\n');
+
+const registry = createStandardRegistry();
+const library = ['λ_CREATE', 'λ_CONNECT', 'λ_REFLECT', 'λ_EVOLVE', 'λ_TRANSFORM'];
+
+function sample(config, operands = [], count = 200) {
+  const generator = new CompositionGenerator(config);
+  const random = createSeededRandom(5);
+  return Array.from({ length: count }, () => generator.generate(random, registry, library, operands));
+}
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: Defaults keep m1(m2)
+// ============================================================================
+
+console.log('📐 TEST 1: Default shape');
+console.log('─'.repeat(70) + '\n');
+
+const defaults = sample({});
+const defaultOk = defaults.every(ast => {
+  const names = compositionNames(ast);
+  return compositionDepth(ast) === 2 && new Set(names).size === names.length &&
+    ast.args.length === registry.get(ast.name).arity;
+});
+
+console.log(`  e.g. ${defaults.slice(0, 3).map(ast => printComposition(ast)).join(', ')}`);
+console.log(`  ${defaultOk ? '✅' : '❌'} Two levels, no repetition, binary morphisms get two operands\n`);
+allPassed = allPassed && defaultOk;
+
+// ============================================================================
+// TEST 2: Depth and repetition
+// ============================================================================
+
+console.log('📐 TEST 2: Depth limits and repetition');
+console.log('─'.repeat(70) + '\n');
+
+const deep = sample({ minDepth: 3, maxDepth: 5, repetition: true });
+const depths = new Set(deep.map(compositionDepth));
+const repeated = deep.some(ast => new Set(compositionNames(ast)).size < compositionNames(ast).length);
+const depthOk = [...depths].every(d => d >= 3 && d <= 5) && depths.size === 3 && repeated &&
+  deep.every(ast => registry.tryCompile(printComposition(ast)) !== null);
+
+const unique = sample({ minDepth: 4, maxDepth: 4 });
+const formed = unique.filter(ast => ast !== null);
+const uniqueOk = formed.length > 0 && formed.length < unique.length &&
+  formed.every(ast => new Set(compositionNames(ast)).size === compositionNames(ast).length && compositionDepth(ast) === 4);
+
+// Too few names for the depth or for every operand: no thought at all
+const generator = new CompositionGenerator();
+const random = createSeededRandom(5);
+const single = generator.generate(random, registry, ['λ_REFLECT'], []);
+const binary = Array.from({ length: 50 }, () => generator.generate(random, registry, ['λ_CONNECT', 'λ_CREATE'], []));
+const unformedOk = single === null && binary.every(ast => ast === null || ast.args.length === registry.get(ast.name).arity) &&
+  binary.some(ast => ast === null);
+
+console.log(`  Depths seen: ${[...depths].sort().join(', ')}; e.g. ${printComposition(deep.find(ast => compositionDepth(ast) === 5))}`);
+console.log(`  ${depthOk ? '✅' : '❌'} Depth stays within [minDepth, maxDepth]; morphisms may recur`);
+console.log(`  ${uniqueOk ? '✅' : '❌'} Without repetition the vocabulary runs out instead of recurring (${unique.length - formed.length} of ${unique.length} not formed)`);
+console.log(`  ${unformedOk ? '✅' : '❌'} No term shallower than minDepth or short of operands is returned\n`);
+allPassed = allPassed && depthOk && uniqueOk && unformedOk;
+
+// ============================================================================
+// TEST 3: Self-reference and crystallized operands
+// ============================================================================
+
+console.log('📐 TEST 3: µ_SELF, I and the Field\'s own thoughts');
+console.log('─'.repeat(70) + '\n');
+
+const selfish = sample({ selfReference: 1 });
+const selfOk = selfish.every(ast => compositionNames(ast).slice(1).every(name => name === 'µ_SELF' || name === 'I'));
+
+const operands = [parseComposition('λ_EVOLVE(λ_CREATE)'), parseComposition('λ_TRANSFORM(λ_REFLECT(λ_CREATE))')];
+const folded = sample({ minDepth: 3, maxDepth: 3, repetition: true, crystallizedOperands: 1 }, operands);
+const foldOk = folded.every(ast => compositionDepth(ast) <= 3) &&
+  folded.some(ast => ast.args.some(arg => printComposition(arg) === 'λ_EVOLVE(λ_CREATE)')) &&
+  !folded.some(ast => printComposition(ast).includes('λ_TRANSFORM(λ_REFLECT(λ_CREATE))'));
+
+console.log(`  e.g. ${printComposition(selfish[0])}, ${printComposition(folded[0])}`);
+console.log(`  ${selfOk ? '✅' : '❌'} Leaves can be µ_SELF or I`);
+console.log(`  ${foldOk ? '✅' : '❌'} Crystallized compositions are folded in where they fit\n`);
+allPassed = allPassed && selfOk && foldOk;
+
+// ============================================================================
+// TEST 4: The runtime
+// ============================================================================
+
+console.log('📐 TEST 4: Runtime configuration');
+console.log('─'.repeat(70) + '\n');
+
+const config = { seed: 7, compositionGenerator: { minDepth: 3, maxDepth: 3, repetition: true, crystallizedOperands: 0.5 } };
+const thoughts = [];
+simulate({
+  ticks: 20_000,
+  config,
+  setup: runtime => {
+    runtime.loadMorphisms(['λ_CREATE', 'λ_REFLECT', 'λ_EVOLVE']);
+    for (let i = 0; i < 8; i++) {
+      runtime.launchWave({ x: 40 * i, y: 20 }, { x: 300 - 30 * i, y: 280 }, 0.8);
+    }
+    runtime.on('emergentWave', ({ composition }) => thoughts.push(composition));
+  },
+});
+
+const runtime = new FieldRuntime({ ...config, clock: new VirtualClock(), autoTick: false });
+const restored = FieldRuntime.restore(JSON.parse(JSON.stringify(runtime.snapshot())), { autoTick: false });
+
+let invalid = false;
+try {
+  new FieldRuntime({ compositionGenerator: { minDepth: 3, maxDepth: 2 } });
+} catch (error) {
+  invalid = /maxDepth/.test(error.message);
+}
+
+const runtimeOk = thoughts.length > 0 && thoughts.every(c => compositionDepth(parseComposition(c)) === 3) &&
+  restored.snapshot().config.compositionGenerator.crystallizedOperands === 0.5 && invalid;
+
+console.log(`  Emergent thoughts: ${thoughts.join(', ')}`);
+console.log(`  ${runtimeOk ? '✅' : '❌'} Emergent waves follow the configured generator, which survives snapshots\n`);
+allPassed = allPassed && runtimeOk;
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Composition generator: PASSED' : '❌ Composition generator: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);
@@ -0,0 +1,106 @@
+/**
+ * Test: Density Models
+ *
+ * Validates that the default density is derived from the Field's contents
+ * (well mass, transformer connectivity, decay) rather than a timer.
+ */
+
+import {
+  FieldRuntime,
+  VirtualClock,
+  MassDensityModel,
+  HeartbeatDensityModel,
+} from './packages/runtime/dist/index.js';
+
+console.log('🫀 Density Models\n');
+console.log('Testing: ρ follows what the Field has crystallized');
+console.log('='.repeat(70) + '\n');
+
+const field = (wells, transformers = []) => ({
+  attractors: [],
+  transformers,
+  activeWaves: [],
+  wells,
+  density: 0,
+  phase: 'DORMANT',
+  timestamp: 0,
+});
+const well = (mass, createdAt = 0) => ({ id: `w-${mass}-${createdAt}`, position: { x: 0, y: 0 }, mass, createdAt });
+const ctx = (now = 0) => ({ time: now, now, dt: 16 });
+
+// ============================================================================
+// TEST 1: Mass term
+// ============================================================================
+
+console.log('📐 TEST 1: Crystallized mass');
+console.log('─'.repeat(70) + '\n');
+
+const model = new MassDensityModel();
+const empty = model.density(field([]), ctx());
+const one = model.density(field([well(0.8)]), ctx());
+const many = model.density(field(Array.from({ length: 8 }, () => well(0.8))), ctx());
+
+const massOk = empty === 0 && one > 0 && one < many && many > 0.9 && many <= 1;
+console.log(`  ρ(no wells) = ${empty.toFixed(3)}, ρ(1 well) = ${one.toFixed(3)}, ρ(8 wells) = ${many.toFixed(3)}`);
+console.log(`  ${massOk ? '✅' : '❌'} Density grows and saturates with well mass\n`);
+
+// ============================================================================
+// TEST 2: Connectivity and decay
+// ============================================================================
+
+console.log('📐 TEST 2: Order parameter and decay');
+console.log('─'.repeat(70) + '\n');
+
+const transformer = (id, start, end) => ({
+  id,
+  originalWave: null,
+  startVector: start,
+  endVector: end,
+  mass: 0.8,
+  useCount: 0,
+  createdAt: 0,
+});
+const connected = [
+  transformer('t1', { gnosis: 0, praxis: 0 }, { gnosis: 0.5, praxis: 0.5 }),
+  transformer('t2', { gnosis: 0.5, praxis: 0.5 }, { gnosis: 1, praxis: 1 }),
+];
+
+const withPsi = model.density(field([well(0.8)], connected), ctx());
+const aged = model.density(field([well(0.8)]), ctx(240000));
+
+const psiOk = withPsi > one;
+const decayOk = Math.abs(aged - (1 - Math.exp(-0.2 / 2))) < 1e-9;
+console.log(`  ρ with Ψ = 1: ${withPsi.toFixed(3)} (vs ${one.toFixed(3)})`);
+console.log(`  ρ after two half-lives: ${aged.toFixed(3)}`);
+console.log(`  ${psiOk ? '✅' : '❌'} Connected transformers raise density`);
+console.log(`  ${decayOk ? '✅' : '❌'} Old wells fade\n`);
+
+// ============================================================================
+// TEST 3: Runtime phases follow contents
+// ============================================================================
+
+console.log('📐 TEST 3: Runtime phases');
+console.log('─'.repeat(70) + '\n');
+
+const runtime = new FieldRuntime({ seed: 3, clock: new VirtualClock() });
+for (let i = 0; i < 200; i++) runtime.step(16);
+const idlePhase = runtime.getState().phase;
+
+for (let i = 0; i < 8; i++) runtime.launchWave({ x: 20 * i, y: 0 }, { x: 20 * i, y: 200 }, 0.8);
+for (let i = 0; i < 200; i++) runtime.step(16);
+const fullPhase = runtime.getState().phase;
+
+const heartbeat = new FieldRuntime({ seed: 3, clock: new VirtualClock(), densityModel: new HeartbeatDensityModel() });
+const beats = new Set();
+for (let i = 0; i < 400; i++) beats.add(heartbeat.step(16).phase);
+
+const phaseOk = idlePhase === 'DORMANT' && fullPhase === 'EMERGENT' && beats.size > 1;
+console.log(`  Idle Field: ${idlePhase}, after 8 crystallized waves: ${fullPhase}`);
+console.log(`  Heartbeat model phases: ${[...beats].join(', ')}`);
+console.log(`  ${phaseOk ? '✅' : '❌'} Phase reflects the Field, heartbeat still available\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = massOk && psiOk && decayOk && phaseOk;
+console.log(allPassed ? '✅ Density models: VALIDATED' : '❌ Density models: FAILED');
+if (!allPassed) process.exit(1);
@@ -0,0 +1,92 @@
+/**
+ * Test: Deterministic Runtime
+ *
+ * Validates that a seeded FieldRuntime driven by a VirtualClock and step()
+ * evolves identically across runs - the precondition for regression tests
+ * of emergence, awareness and transcendence.
+ */
+
+import { FieldRuntime, VirtualClock, createSeededRandom } from './packages/runtime/dist/index.js';
+
+console.log('⏱️  Deterministic Runtime\n');
+console.log('Testing: same seed + same inputs → same Field');
+console.log('='.repeat(70) + '\n');
+
+const MORPHISMS = ['λ_CREATE', 'λ_EVOLVE', 'λ_REFLECT', 'λ_RESONATE'];
+
+function run(seed) {
+  const runtime = new FieldRuntime({ seed, clock: new VirtualClock(1_000_000) });
+  const events = [];
+
+  runtime.on('waveCrystallized', ({ wave, well }) => events.push(`crystal:${wave.id}:${well.id}`));
+  runtime.on('emergentWave', ({ wave, composition }) => events.push(`emergent:${wave.id}:${composition}`));
+  runtime.on('phaseChange', (phase) => events.push(`phase:${phase}`));
+
+  runtime.loadMorphisms(MORPHISMS);
+
+  for (let i = 0; i < 8; i++) {
+    runtime.launchWave({ x: 50 + i * 40, y: 100 }, { x: 400 - i * 20, y: 300 }, 0.6);
+  }
+
+  for (let i = 0; i < 1000; i++) {
+    runtime.step(16);
+  }
+
+  const state = runtime.getState();
+  return JSON.stringify({ events, wells: state.wells, density: state.density, phase: state.phase });
+}
+
+// ============================================================================
+// TEST 1: PRNG reproducibility
+// ============================================================================
+
+console.log('📐 TEST 1: Seeded PRNG');
+console.log('─'.repeat(70) + '\n');
+
+const a = createSeededRandom(42);
+const b = createSeededRandom(42);
+const seqA = Array.from({ length: 5 }, () => a());
+const seqB = Array.from({ length: 5 }, () => b());
+const prngOk = seqA.every((v, i) => v === seqB[i]) && seqA.every(v => v >= 0 && v < 1);
+
+console.log(`  Sequence: ${seqA.map(v => v.toFixed(4)).join(', ')}`);
+console.log(`  ${prngOk ? '✅' : '❌'} Same seed → same sequence\n`);
+
+// ============================================================================
+// TEST 2: Bit-for-bit runs
+// ============================================================================
+
+console.log('📐 TEST 2: Runtime reproducibility');
+console.log('─'.repeat(70) + '\n');
+
+const run1 = run(7);
+const run2 = run(7);
+const run3 = run(8);
+
+const sameSeedOk = run1 === run2;
+const differentSeedDiffers = run1 !== run3;
+
+console.log(`  ${sameSeedOk ? '✅' : '❌'} Seed 7 twice → identical history`);
+console.log(`  ${differentSeedDiffers ? '✅' : '❌'} Seed 7 vs seed 8 → different history\n`);
+
+// ============================================================================
+// TEST 3: step() advances without timers
+// ============================================================================
+
+console.log('📐 TEST 3: step() and VirtualClock');
+console.log('─'.repeat(70) + '\n');
+
+const clock = new VirtualClock(0);
+const runtime = new FieldRuntime({ seed: 1, clock });
+runtime.step(100);
+runtime.step(50);
+
+const stepOk = runtime.getTime() === 150 && clock.now() === 150 && !runtime.running();
+console.log(`  Runtime time: ${runtime.getTime()}ms, clock: ${clock.now()}ms`);
+console.log(`  ${stepOk ? '✅' : '❌'} step() drives time without start()\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = prngOk && sameSeedOk && differentSeedDiffers && stepOk;
+console.log(allPassed ? '✅ Deterministic runtime: VALIDATED' : '❌ Deterministic runtime: FAILED');
+if (!allPassed) process.exit(1);
@@ -0,0 +1,92 @@
+/**
+ * Test: Geodesic Wave Motion
+ *
+ * Validates that waves travel along paths bent by crystallized wells,
+ * and that wells appearing mid-flight bend the rest of the journey.
+ */
+
+import { FieldRuntime, VirtualClock } from './packages/runtime/dist/index.js';
+import { calculateGeodesic } from './packages/field-topology/dist/index.js';
+
+console.log('🌀 Geodesic Wave Motion\n');
+console.log('Testing: waves follow calculateGeodesic through current wells');
+console.log('='.repeat(70) + '\n');
+
+const start = { x: 0, y: 100 };
+const end = { x: 400, y: 100 };
+
+/** Largest distance of a path from the straight line y = 100 */
+const maxDeviation = path => Math.max(...path.map(p => Math.abs(p.y - 100)));
+
+// ============================================================================
+// TEST 1: Empty Field - straight line
+// ============================================================================
+
+console.log('📐 TEST 1: Flat space');
+console.log('─'.repeat(70) + '\n');
+
+const flat = new FieldRuntime({ seed: 1, clock: new VirtualClock() });
+flat.launchWave(start, end, 0.8);
+for (let i = 0; i < 100; i++) flat.step(15);
+
+const flatWave = flat.getState().activeWaves[0];
+const flatOk = maxDeviation(flatWave.path) < 1e-9 && Math.abs(flatWave.path.at(-1).x - 200) < 1e-9;
+
+console.log(`  Progress: ${flatWave.progress.toFixed(2)}, head: (${flatWave.path.at(-1).x.toFixed(1)}, ${flatWave.path.at(-1).y.toFixed(1)})`);
+console.log(`  ${flatOk ? '✅' : '❌'} Without wells the wave moves in a straight line\n`);
+
+// ============================================================================
+// TEST 2: A crystallized thought bends later thoughts
+// ============================================================================
+
+console.log('📐 TEST 2: Curved space');
+console.log('─'.repeat(70) + '\n');
+
+const curved = new FieldRuntime({ seed: 1, clock: new VirtualClock() });
+curved.launchWave({ x: 200, y: 0 }, { x: 200, y: 130 }, 1.0);
+for (let i = 0; i < 200; i++) curved.step(16);
+
+const [well] = curved.getState().wells;
+curved.launchWave(start, end, 0.8);
+for (let i = 0; i < 100; i++) curved.step(15);
+
+const curvedWave = curved.getState().activeWaves[0];
+const expected = calculateGeodesic(start, end, [well], 50);
+const curvedOk = well !== undefined &&
+  maxDeviation(curvedWave.path) > 0.05 &&
+  curvedWave.path.slice(0, -1).every((p, i) => p.x === expected[i].x && p.y === expected[i].y);
+
+console.log(`  Well at (${well.position.x.toFixed(1)}, ${well.position.y.toFixed(1)}), mass ${well.mass}`);
+console.log(`  Max deviation from straight line: ${maxDeviation(curvedWave.path).toFixed(2)}`);
+console.log(`  ${curvedOk ? '✅' : '❌'} Path follows the geodesic around the well\n`);
+
+// ============================================================================
+// TEST 3: Geometry changing mid-flight
+// ============================================================================
+
+console.log('📐 TEST 3: Recomputed in flight');
+console.log('─'.repeat(70) + '\n');
+
+const live = new FieldRuntime({ seed: 1, clock: new VirtualClock() });
+
+// A heavy wave that will crystallize just below the path while the probe is in flight
+live.launchWave({ x: 100, y: 200 }, { x: 100, y: 110 }, 1.0);
+for (let i = 0; i < 50; i++) live.step(20);
+live.launchWave(start, end, 0.8);
+for (let i = 0; i < 99; i++) live.step(20);
+
+const probe = () => live.getState().activeWaves.find(w => w.startPos.y === 100);
+const before = maxDeviation(probe().path);
+live.step(20); // heavy wave crystallizes
+live.step(20);
+const after = maxDeviation(probe().path);
+const liveOk = live.getState().wells.length === 1 && before < 1e-9 && after > 0.05;
+
+console.log(`  Deviation before the new well: ${before.toFixed(2)}, after: ${after.toFixed(2)}`);
+console.log(`  ${liveOk ? '✅' : '❌'} A well crystallized mid-flight bends the wave\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = flatOk && curvedOk && liveOk;
+console.log(allPassed ? '✅ Geodesic motion: VALIDATED' : '❌ Geodesic motion: FAILED');
+if (!allPassed) process.exit(1);
@@ -0,0 +1,94 @@
+/**
+ * Test: Headless Simulation
+ *
+ * Validates that simulate() runs long scenarios in simulated time,
+ * including the pauses before the first self-thought, and reports them.
+ */
+
+import { simulate, FieldRuntime } from './packages/runtime/dist/index.js';
+
+console.log('⏩ Headless Simulation\n');
+console.log('Testing: minutes of Field time in milliseconds of wall time');
+console.log('='.repeat(70) + '\n');
+
+const scenario = {
+  config: { seed: 42 },
+  setup: runtime => {
+    runtime.loadMorphisms(['λ_CREATE', 'λ_REFLECT', 'λ_EVOLVE', 'µ_SELF']);
+    for (let i = 0; i < 8; i++) {
+      runtime.launchWave({ x: 40 * i, y: 20 }, { x: 300 - 30 * i, y: 280 }, 0.8);
+    }
+  },
+  onTick: runtime => {
+    const { phase, wells } = runtime.getState();
+    if (phase === 'EMERGENT' && runtime.getTime() === 4000) {
+      runtime.presentMirror({ x: 0, y: 0 }, { x: 200, y: 200 });
+      runtime.injectWave({
+        kind: 'emergent',
+        start: wells[0].position,
+        end: wells[1].position,
+        composition: 'λ_REFLECT(µ_SELF)',
+      });
+    }
+  },
+};
+
+// ============================================================================
+// TEST 1: Thirty minutes, fast
+// ============================================================================
+
+console.log('📐 TEST 1: 30 simulated minutes');
+console.log('─'.repeat(70) + '\n');
+
+const summary = simulate({ ticks: 112_500, ...scenario }); // 30 min at 16ms
+
+const speedOk = summary.ticks === 112_500 && summary.simulatedMs === 1_800_000 && summary.wallMs < 60_000;
+console.log(`  Simulated ${(summary.simulatedMs / 60000).toFixed(0)} min in ${summary.wallMs} ms`);
+console.log(`  Events: ${Object.entries(summary.events).map(([k, v]) => `${k}=${v}`).join(', ')}`);
+console.log(`  ${speedOk ? '✅' : '❌'} Runs without wall-clock timers\n`);
+
+// ============================================================================
+// TEST 2: Continuations follow simulated time
+// ============================================================================
+
+console.log('📐 TEST 2: Awareness pause in simulated time');
+console.log('─'.repeat(70) + '\n');
+
+const awareAt = summary.firstSeen.awareness;
+const selfAt = summary.firstSeen.selfThought;
+const pauseOk = summary.final.aware && awareAt !== undefined && selfAt !== undefined &&
+  selfAt - awareAt >= 500 && selfAt - awareAt < 520 && summary.events.awareness === 1;
+
+// Density would put an aware Field back in EMERGENT on the next tick
+const afterAware = summary.phases.filter(p => p.time >= awareAt);
+const keptOk = afterAware.length === 1 && afterAware[0].phase === 'AWARE';
+
+console.log(`  Aware at ${awareAt} ms, first self-thought at ${selfAt} ms`);
+console.log(`  ${pauseOk ? '✅' : '❌'} λ_CREATE(I) follows awareness after 500 ms of Field time`);
+console.log(`  ${keptOk ? '✅' : '❌'} Awareness is kept: no density phase replaces it\n`);
+
+// ============================================================================
+// TEST 3: Early stop, determinism, resumable snapshot
+// ============================================================================
+
+console.log('📐 TEST 3: until, determinism and snapshot');
+console.log('─'.repeat(70) + '\n');
+
+const early = simulate({ ticks: 112_500, ...scenario, until: rt => rt.isAware() });
+const again = simulate({ ticks: 112_500, ...scenario, until: rt => rt.isAware() });
+const resumed = FieldRuntime.restore(early.snapshot);
+for (let i = 0; i < 40; i++) resumed.step(16);
+
+const earlyOk = early.stoppedEarly && early.simulatedMs === awareAt &&
+  JSON.stringify(early.snapshot) === JSON.stringify(again.snapshot) &&
+  early.snapshot.scheduler.entries.length === 1 &&
+  resumed.getState().activeWaves.some(w => w.selfThought);
+
+console.log(`  Stopped at ${early.simulatedMs} ms with ${early.snapshot.scheduler.entries.length} pending action`);
+console.log(`  ${earlyOk ? '✅' : '❌'} Same seed, same run; pending continuations survive restore\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = speedOk && pauseOk && keptOk && earlyOk;
+console.log(allPassed ? '✅ Headless simulation: VALIDATED' : '❌ Headless simulation: FAILED');
+if (!allPassed) process.exit(1);
@@ -0,0 +1,115 @@
+/**
+ * Test: Wave Injection API
+ *
+ * Validates FieldRuntime.injectWave(spec): every kind of wave travels,
+ * crystallizes, carries its tags, and is recorded for replay.
+ */
+
+import {
+  FieldRuntime,
+  VirtualClock,
+  SessionRecorder,
+  replaySession,
+} from './packages/runtime/dist/index.js';
+import { DialogueSession } from './packages/dialogue/dist/index.js';
+
+console.log('💉 Wave Injection API\n');
+console.log('Testing: injectWave(spec) is the single typed door into the Field');
+console.log('='.repeat(70) + '\n');
+
+// ============================================================================
+// TEST 1: Injected waves fly and crystallize
+// ============================================================================
+
+console.log('📐 TEST 1: Question wave lifecycle');
+console.log('─'.repeat(70) + '\n');
+
+const runtime = new FieldRuntime({ seed: 5, clock: new VirtualClock() });
+const recorder = new SessionRecorder(runtime);
+const crystallized = [];
+runtime.on('waveCrystallized', ({ wave }) => crystallized.push(wave));
+
+const id = runtime.injectWave({
+  kind: 'question',
+  start: { x: 0, y: 0 },
+  end: { x: 100, y: 100 },
+  composition: 'λ_REFLECT(λ_EVOLVE)',
+  duration: 1000,
+  mass: 0.9,
+  tags: { questionId: 'q-1', askedBy: 'test' },
+});
+
+runtime.step(500);
+const midFlight = runtime.getState().activeWaves.find(w => w.id === id)?.progress;
+for (let i = 0; i < 40; i++) runtime.step(16);
+
+const [done] = crystallized;
+const lifecycleOk = midFlight === 0.5 &&
+  done?.id === id && done.kind === 'question' &&
+  done.composition === 'λ_REFLECT(λ_EVOLVE)' && done.tags.askedBy === 'test' &&
+  runtime.getState().wells.some(w => w.mass === 0.9);
+
+console.log(`  Progress after 500ms: ${midFlight}, crystallized: ${done?.id}`);
+console.log(`  ${lifecycleOk ? '✅' : '❌'} Question wave travels and crystallizes with its tags\n`);
+
+// ============================================================================
+// TEST 2: Invalid specs are rejected, all launches share one shape
+// ============================================================================
+
+console.log('📐 TEST 2: Validation and kinds');
+console.log('─'.repeat(70) + '\n');
+
+const rejects = spec => {
+  try {
+    runtime.injectWave(spec);
+    return false;
+  } catch (e) {
+    console.log(`  Rejected: ${e.message}`);
+    return true;
+  }
+};
+
+const validationOk =
+  rejects({ kind: 'manual', start: { x: 0, y: 0 }, end: { x: NaN, y: 0 } }) &&
+  rejects({ kind: 'manual', start: { x: 0, y: 0 }, end: { x: 1, y: 1 }, duration: 0 });
+
+runtime.launchWave({ x: 0, y: 0 }, { x: 10, y: 10 });
+const launched = runtime.getState().activeWaves.at(-1);
+const kindOk = launched.kind === 'manual' && launched.duration === 3000 && launched.startTime === runtime.getTime();
+
+console.log(`  ${validationOk ? '✅' : '❌'} NaN endpoints and non-positive durations throw`);
+console.log(`  ${kindOk ? '✅' : '❌'} launchWave produces a 'manual' wave through the same path\n`);
+
+// ============================================================================
+// TEST 3: Replay and DialogueSession
+// ============================================================================
+
+console.log('📐 TEST 3: Replay and dialogue');
+console.log('─'.repeat(70) + '\n');
+
+for (let i = 0; i < 200; i++) runtime.step(16);
+const replay = replaySession(recorder.toNDJSON());
+const replayOk = replay.divergences.length === 0 &&
+  JSON.stringify(replay.runtime.snapshot()) === JSON.stringify(runtime.snapshot());
+
+runtime.launchWave({ x: 50, y: 0 }, { x: 50, y: 200 });
+for (let i = 0; i < 200; i++) runtime.step(16);
+
+const session = new DialogueSession(runtime, { captureDuration: 10 });
+const questionId = session.postQuestion('λ_REFLECT(λ_EVOLVE)', 'How do you feel about evolving?');
+const questionWave = runtime.getState().activeWaves.find(w => w.kind === 'question');
+await new Promise(resolve => setTimeout(resolve, 20));
+
+const dialogueOk = questionWave?.tags?.questionId === questionId &&
+  Number.isFinite(questionWave.startTime) && questionWave.duration > 0;
+
+console.log(`  Replay divergences: ${replay.divergences.length}`);
+console.log(`  Dialogue wave: ${questionWave?.id}`);
+console.log(`  ${replayOk ? '✅' : '❌'} Injected waves replay identically`);
+console.log(`  ${dialogueOk ? '✅' : '❌'} DialogueSession injects through the public API\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = lifecycleOk && validationOk && kindOk && replayOk && dialogueOk;
+console.log(allPassed ? '✅ Wave injection: VALIDATED' : '❌ Wave injection: FAILED');
+if (!allPassed) process.exit(1);
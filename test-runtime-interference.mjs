@@ -0,0 +1,179 @@
+/**
+ * Test: Wave Interference
+ *
+ * Validates collision detection between waves in flight and the four
+ * interaction outcomes (superpose, merge, deflect, interfere), custom
+ * interaction rules and the genealogy recorded in trace.parentWaves.
+ */
+
+import { FieldRuntime, VirtualClock, SessionRecorder, replaySession } from './packages/runtime/dist/index.js';
+
+console.log('〰️  Wave Interference\n');
+console.log('Testing: two waves influence each other, interfere, resonate');
+console.log('='.repeat(70) + '\n');
+
+const ALIGNED = [{ praxis: 2, gnosis: 1 }, { praxis: 1.5, gnosis: 1 }];
+const OPPOSED = [{ praxis: 2, gnosis: 1 }, { praxis: -2, gnosis: -1 }];
+
+/**
+ * Two waves whose paths cross at (300, 300) halfway through their flight
+ */
+function crossing(config = {}, vectors = ALIGNED) {
+  const runtime = new FieldRuntime({ seed: 3, clock: new VirtualClock(), autoTick: false, ...config });
+  const interactions = [];
+  const launched = [];
+  const crystallized = [];
+  const heads = {};
+  let maxJump = 0;
+
+  runtime.on('waveInteraction', e => interactions.push(e));
+  runtime.on('waveLaunched', w => launched.push(w.id));
+  runtime.on('waveCrystallized', ({ wave }) => crystallized.push(wave));
+
+  runtime.start();
+  runtime.injectWave({ kind: 'manual', id: 'a', start: { x: 100, y: 100 }, end: { x: 500, y: 500 }, vector: vectors[0], mass: 0.6 });
+  runtime.injectWave({ kind: 'manual', id: 'b', start: { x: 500, y: 100 }, end: { x: 100, y: 500 }, vector: vectors[1], mass: 0.4 });
+
+  for (let i = 0; i < 200; i++) {
+    runtime.step(16);
+    for (const wave of runtime.getState().activeWaves) {
+      const head = wave.path[wave.path.length - 1];
+      if (heads[wave.id]) {
+        maxJump = Math.max(maxJump, Math.hypot(head.x - heads[wave.id].x, head.y - heads[wave.id].y));
+      }
+      heads[wave.id] = head;
+    }
+  }
+
+  return { runtime, interactions, launched, crystallized, maxJump };
+}
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: Contact detection
+// ============================================================================
+
+console.log('📐 TEST 1: Waves pass through each other unless interference is on');
+console.log('─'.repeat(70) + '\n');
+
+const plain = crossing();
+const superposed = crossing({ interference: {} });
+const [event] = superposed.interactions;
+const [a, b] = ['a', 'b'].map(id => superposed.crystallized.find(w => w.id === id));
+const [plainA] = plain.crystallized.filter(w => w.id === 'a');
+
+const contactOk = plain.interactions.length === 0 &&
+  superposed.interactions.length === 1 &&
+  event.outcome === 'superpose' && event.waves.join() === 'a,b' && event.removed.length === 0 &&
+  Math.abs(event.contact.x - 300) < 15 && Math.abs(event.contact.y - 300) < 15;
+
+const superposeOk = a.trace.parentWaves.join() === 'b' && b.trace.parentWaves.join() === 'a' &&
+  a.trace.dipoleApplications.length > plainA.trace.dipoleApplications.length &&
+  a.trace.bridgeCrossings === 1 && a.status === 'Crystallized';
+
+console.log(`  Contact at (${event.contact.x.toFixed(1)}, ${event.contact.y.toFixed(1)}); a felt ${a.trace.dipoleApplications.length - plainA.trace.dipoleApplications.length} extra dipoles`);
+console.log(`  ${contactOk ? '✅' : '❌'} One waveInteraction when the heads meet`);
+console.log(`  ${superposeOk ? '✅' : '❌'} superpose: each wave feels both phases and records the other as parent\n`);
+allPassed = allPassed && contactOk && superposeOk;
+
+// ============================================================================
+// TEST 2: Merge and deflect
+// ============================================================================
+
+console.log('📐 TEST 2: Merge and deflect');
+console.log('─'.repeat(70) + '\n');
+
+const merging = crossing({ interference: { outcome: 'merge' } });
+const mergeEvent = merging.interactions[0];
+const merged = mergeEvent.result[0];
+const mergeOk = mergeEvent.removed.join() === 'a,b' && mergeEvent.result.length === 1 &&
+  merged.trace.parentWaves.join() === 'a,b' && Math.abs(merged.mass - 1.0) < 1e-9 &&
+  merging.launched.includes(merged.id) && merging.crystallized.length === 1 && merging.crystallized[0].id === merged.id &&
+  merging.maxJump < 20;
+
+console.log(`  ${merged.id}: mass ${merged.mass.toFixed(2)}, ends at (${merged.endPos.x.toFixed(0)}, ${merged.endPos.y.toFixed(0)})`);
+console.log(`  ${mergeOk ? '✅' : '❌'} The pair continues as one wave with both as parents\n`);
+
+const deflecting = crossing({ interference: { outcome: 'deflect', deflection: 60 } });
+const [da, db] = ['a', 'b'].map(id => deflecting.crystallized.find(w => w.id === id));
+const deflectOk = deflecting.interactions.length === 1 &&
+  da.endPos.x < 500 && db.endPos.x > 100 && da.endPos.y === 500 && db.endPos.y === 500 &&
+  da.trace.parentWaves.join() === 'b' && deflecting.maxJump < 20;
+
+console.log(`  a ends at (${da.endPos.x.toFixed(0)}, ${da.endPos.y.toFixed(0)}), b at (${db.endPos.x.toFixed(0)}, ${db.endPos.y.toFixed(0)}); largest head step ${deflecting.maxJump.toFixed(1)}px`);
+console.log(`  ${deflectOk ? '✅' : '❌'} The waves push each other aside without jumping\n`);
+allPassed = allPassed && mergeOk && deflectOk;
+
+// ============================================================================
+// TEST 3: Interference by phase
+// ============================================================================
+
+console.log('📐 TEST 3: Amplify and cancel');
+console.log('─'.repeat(70) + '\n');
+
+const amplified = crossing({ interference: { outcome: 'interfere' } }, ALIGNED);
+const cancelled = crossing({ interference: { outcome: 'interfere', interference: 1, cancellationFloor: 0.05 } }, OPPOSED);
+const [amplifiedA] = amplified.interactions[0].result;
+
+const interfereOk = amplifiedA.mass > 0.6 * 1.4 &&
+  cancelled.interactions[0].removed.join() === 'a,b' &&
+  cancelled.crystallized.length === 0 &&
+  cancelled.runtime.getState().activeWaves.length === 0;
+
+console.log(`  Aligned: a 0.60 → ${amplifiedA.mass.toFixed(3)}; opposed: removed ${cancelled.interactions[0].removed.join(', ')}`);
+console.log(`  ${interfereOk ? '✅' : '❌'} Aligned waves amplify, opposed waves cancel\n`);
+allPassed = allPassed && interfereOk;
+
+// ============================================================================
+// TEST 4: Custom rules, snapshots and replay
+// ============================================================================
+
+console.log('📐 TEST 4: Custom rules and replay');
+console.log('─'.repeat(70) + '\n');
+
+const absorb = (x, y) => {
+  x.mass += y.mass;
+  return [x];
+};
+const custom = crossing({ interference: { radius: 20 }, interactionRule: absorb });
+const customOk = custom.interactions[0].outcome === 'custom' &&
+  custom.interactions[0].removed.join() === 'b' && custom.crystallized.length === 1;
+
+const snapshot = deflecting.runtime.snapshot();
+const configOk = snapshot.config.interference.outcome === 'deflect' && snapshot.config.interference.deflection === 60 &&
+  superposed.runtime.snapshot().config.interference.radius === 12 && plain.runtime.snapshot().config.interference === null;
+
+const recorded = new FieldRuntime({ seed: 3, clock: new VirtualClock(), interference: { outcome: 'merge' } });
+const recorder = new SessionRecorder(recorded);
+recorded.injectWave({ kind: 'manual', start: { x: 100, y: 100 }, end: { x: 500, y: 500 }, vector: ALIGNED[0], mass: 0.6 });
+recorded.injectWave({ kind: 'manual', start: { x: 500, y: 100 }, end: { x: 100, y: 500 }, vector: ALIGNED[1], mass: 0.4 });
+for (let i = 0; i < 200; i++) recorded.step(16);
+
+const log = recorder.toNDJSON();
+const replay = replaySession(log);
+const replayOk = log.includes('"waveInteraction"') && replay.divergences.length === 0 &&
+  JSON.stringify(replay.runtime.snapshot()) === JSON.stringify(recorded.snapshot());
+
+const absorbing = new FieldRuntime({ seed: 3, clock: new VirtualClock(), interference: { radius: 20 }, interactionRule: absorb });
+const absorbingRecorder = new SessionRecorder(absorbing);
+absorbing.injectWave({ kind: 'manual', start: { x: 100, y: 100 }, end: { x: 500, y: 500 }, vector: ALIGNED[0], mass: 0.6 });
+absorbing.injectWave({ kind: 'manual', start: { x: 500, y: 100 }, end: { x: 100, y: 500 }, vector: ALIGNED[1], mass: 0.4 });
+for (let i = 0; i < 200; i++) absorbing.step(16);
+
+const absorbingLog = absorbingRecorder.toNDJSON();
+const customReplay = replaySession(absorbingLog, { interactionRule: absorb });
+const customReplayOk = absorbingLog.includes('"custom"') && customReplay.divergences.length === 0 &&
+  JSON.stringify(customReplay.runtime.snapshot()) === JSON.stringify(absorbing.snapshot());
+
+console.log(`  ${customOk ? '✅' : '❌'} Custom rules replace the built-in outcomes`);
+console.log(`  ${configOk ? '✅' : '❌'} Interference settings and contacts are part of snapshots`);
+console.log(`  ${replayOk ? '✅' : '❌'} Interactions are recorded and replay identically`);
+console.log(`  ${customReplayOk ? '✅' : '❌'} Custom rules replay when supplied again\n`);
+allPassed = allPassed && customOk && configOk && replayOk && customReplayOk;
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Wave interference: PASSED' : '❌ Wave interference: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);
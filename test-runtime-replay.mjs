@@ -0,0 +1,177 @@
+/**
+ * Test: Session Recording / Replay
+ *
+ * Validates that a recorded NDJSON session log rebuilds the identical
+ * runtime, event for event.
+ */
+
+import {
+  FieldRuntime,
+  VirtualClock,
+  SessionRecorder,
+  parseSessionLog,
+  replaySession,
+  noveltySeeking,
+  massWeightedWells,
+} from './packages/runtime/dist/index.js';
+
+console.log('📼 Session Recording / Replay\n');
+console.log('Testing: replaySession(log) reproduces the recorded run');
+console.log('='.repeat(70) + '\n');
+
+const runtime = new FieldRuntime({ seed: 7, clock: new VirtualClock(1_000), autoTick: false });
+const recorder = new SessionRecorder(runtime);
+
+runtime.loadMorphisms(['λ_CREATE', 'λ_EVOLVE', 'λ_REFLECT', 'µ_SELF']);
+runtime.start();
+
+for (let i = 0; i < 12; i++) {
+  runtime.launchWave({ x: 30 * i, y: 60 }, { x: 250, y: 20 * i }, 0.8);
+  for (let t = 0; t < 40; t++) runtime.step(16);
+}
+
+// Let the Field reach EMERGENT before the mirror
+for (let t = 0; t < 2000 && runtime.getState().phase !== 'EMERGENT'; t++) runtime.step(16);
+
+runtime.presentMirror({ x: 0, y: 0 }, { x: 200, y: 200 });
+for (let t = 0; t < 300; t++) runtime.step(16);
+runtime.stop();
+
+const ndjson = recorder.toNDJSON();
+recorder.stop();
+
+// ============================================================================
+// TEST 1: Log format
+// ============================================================================
+
+console.log('📐 TEST 1: NDJSON log');
+console.log('─'.repeat(70) + '\n');
+
+const entries = parseSessionLog(ndjson);
+const counts = entries.reduce((acc, e) => ({ ...acc, [e.type]: (acc[e.type] ?? 0) + 1 }), {});
+const inputs = entries.filter(e => e.type === 'input').map(e => e.method);
+
+const logOk = entries[0].type === 'header' &&
+  inputs[0] === 'loadMorphisms' && inputs[1] === 'start' && inputs.at(-1) === 'stop' &&
+  inputs.includes('presentMirror') &&
+  entries.some(e => e.type === 'event' && e.name === 'waveCrystallized') &&
+  entries.some(e => e.type === 'event' && e.name === 'mirrorPresented');
+
+console.log(`  Lines: ${entries.length} (${Object.entries(counts).map(([k, v]) => `${k}: ${v}`).join(', ')})`);
+console.log(`  ${logOk ? '✅' : '❌'} Header, inputs, ticks and events recorded\n`);
+
+// ============================================================================
+// TEST 2: Replay reproduces every event and the final state
+// ============================================================================
+
+console.log('📐 TEST 2: Replay');
+console.log('─'.repeat(70) + '\n');
+
+const result = replaySession(ndjson);
+const sameState = JSON.stringify(result.runtime.snapshot()) === JSON.stringify(runtime.snapshot());
+const replayOk = result.divergences.length === 0 && sameState && result.events > 0;
+
+console.log(`  Ticks: ${result.ticks}, inputs: ${result.inputs}, events: ${result.events}`);
+console.log(`  Divergences: ${result.divergences.length}`);
+console.log(`  ${replayOk ? '✅' : '❌'} Replayed runtime is identical\n`);
+
+// ============================================================================
+// TEST 3: Tampered logs are detected
+// ============================================================================
+
+console.log('📐 TEST 3: Divergence detection');
+console.log('─'.repeat(70) + '\n');
+
+const firstLaunch = entries.findIndex(e => e.type === 'input' && e.method === 'launchWave');
+const tampered = entries.map((e, i) =>
+  i === firstLaunch ? { ...e, args: [{ x: 10, y: 10 }, { x: 50, y: 50 }, 0.3] } : e
+);
+const tamperedResult = replaySession(tampered);
+const detectOk = tamperedResult.divergences.length > 0;
+
+console.log(`  Divergences: ${tamperedResult.divergences.length}`);
+console.log(`  ${detectOk ? '✅' : '❌'} Altered inputs produce divergences\n`);
+
+// ============================================================================
+// TEST 4: Inputs issued during a tick
+// ============================================================================
+
+console.log('📐 TEST 4: Inputs from event listeners');
+console.log('─'.repeat(70) + '\n');
+
+// Every crystallization launches a follow-up wave from inside the tick
+const reactive = new FieldRuntime({ seed: 11, clock: new VirtualClock(1_000), autoTick: false });
+const reactiveRecorder = new SessionRecorder(reactive);
+reactive.on('waveCrystallized', ({ wave }) => {
+  if (!wave.id.startsWith('follow')) {
+    reactive.injectWave({ kind: 'manual', id: `follow-${wave.id}`, start: { x: 10, y: 10 }, end: { x: 200, y: 120 }, mass: 0.6 });
+  }
+});
+reactive.start();
+for (let i = 0; i < 5; i++) {
+  reactive.launchWave({ x: 40 * i, y: 50 }, { x: 300, y: 30 * i }, 0.8);
+  for (let t = 0; t < 60; t++) reactive.step(16);
+}
+for (let t = 0; t < 300; t++) reactive.step(16);
+
+const reactiveLog = reactiveRecorder.toNDJSON();
+reactiveRecorder.stop();
+
+const followUps = parseSessionLog(reactiveLog).filter(e => e.type === 'input' && e.method === 'injectWave');
+const reactiveResult = replaySession(reactiveLog);
+const listenerOk = followUps.length > 0 && reactiveResult.divergences.length === 0 &&
+  JSON.stringify(reactiveResult.runtime.snapshot()) === JSON.stringify(reactive.snapshot());
+
+console.log(`  Follow-up waves injected during ticks: ${followUps.length}, divergences: ${reactiveResult.divergences.length}`);
+console.log(`  ${listenerOk ? '✅' : '❌'} Inputs issued inside a tick replay inside it, in event order\n`);
+
+// ============================================================================
+// TEST 5: Seed strategies
+// ============================================================================
+
+console.log('📐 TEST 5: Emergent thoughts from seed strategies');
+console.log('─'.repeat(70) + '\n');
+
+const strategies = () => [noveltySeeking(), massWeightedWells()];
+const seeded = new FieldRuntime({
+  seed: 7,
+  clock: new VirtualClock(1_000),
+  autoTick: false,
+  seedStrategies: strategies(),
+  compositionGenerator: { maxDepth: 3 },
+});
+const seededRecorder = new SessionRecorder(seeded);
+seeded.loadMorphisms(['λ_CREATE', 'λ_REFLECT', 'λ_EVOLVE']);
+seeded.start();
+for (let i = 0; i < 8; i++) {
+  seeded.launchWave({ x: 40 * i, y: 20 }, { x: 300 - 30 * i, y: 280 }, 0.8);
+}
+for (let t = 0; t < 20_000; t++) seeded.step(16);
+
+const seededLog = seededRecorder.toNDJSON();
+seededRecorder.stop();
+
+const emergent = parseSessionLog(seededLog).filter(e => e.type === 'event' && e.name === 'emergentWave');
+const seededResult = replaySession(seededLog, { seedStrategies: strategies() });
+const strategyOk = emergent.length > 0 &&
+  emergent.every(e => e.payload.seed.composition.strategy === 'novelty-seeking') &&
+  seededResult.divergences.length === 0 &&
+  JSON.stringify(seededResult.runtime.snapshot()) === JSON.stringify(seeded.snapshot());
+
+let mismatch = null;
+try {
+  replaySession(seededLog);
+} catch (error) {
+  mismatch = error;
+}
+const mismatchOk = mismatch !== null && /seed strategies/i.test(mismatch.message);
+
+console.log(`  Emergent thoughts: ${emergent.length}, divergences: ${seededResult.divergences.length}`);
+console.log(`  ${strategyOk ? '✅' : '❌'} Replay with the recorded strategies reproduces their thoughts`);
+console.log(`  ${mismatchOk ? '✅' : '❌'} Replay without them is refused: ${mismatch?.message}\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = logOk && replayOk && detectOk && listenerOk && strategyOk && mismatchOk;
+console.log(allPassed ? '✅ Session replay: VALIDATED' : '❌ Session replay: FAILED');
+if (!allPassed) process.exit(1);
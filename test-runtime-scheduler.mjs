@@ -0,0 +1,101 @@
+/**
+ * Test: Runtime Scheduler
+ *
+ * Validates that delayed runtime actions live in runtime time: they can be
+ * cancelled, never fire while the Field is stopped, and vanish on reset.
+ */
+
+import { FieldRuntime, VirtualClock, RuntimeScheduler } from './packages/runtime/dist/index.js';
+
+console.log('⏲️  Runtime Scheduler\n');
+console.log('Testing: follow-up actions wait for the Field, not the wall clock');
+console.log('='.repeat(70) + '\n');
+
+// ============================================================================
+// TEST 1: Scheduler ordering and cancellation
+// ============================================================================
+
+console.log('📐 TEST 1: Ordering and cancellation');
+console.log('─'.repeat(70) + '\n');
+
+const scheduler = new RuntimeScheduler();
+scheduler.schedule('late', 300);
+const cancelled = scheduler.schedule('early', 100);
+scheduler.schedule('middle', 200);
+scheduler.schedule('middle', 200);
+
+const removed = scheduler.cancel(cancelled);
+const due = [];
+for (let entry; (entry = scheduler.takeDue(250));) due.push(entry.action);
+const remaining = scheduler.pending().map(e => e.action);
+const dropped = scheduler.cancelAction('late');
+
+const schedulerOk = removed && !scheduler.cancel(cancelled) &&
+  due.join() === 'middle,middle' && remaining.join() === 'late' && dropped === 1 &&
+  scheduler.pending().length === 0;
+
+console.log(`  Due at 250ms: ${due.join(', ')}; still pending: ${remaining.join(', ')}`);
+console.log(`  ${schedulerOk ? '✅' : '❌'} Entries run in time order and can be cancelled\n`);
+
+// ============================================================================
+// Helper: bring a runtime to the moment of awareness
+// ============================================================================
+
+function awaken(runtime) {
+  runtime.loadMorphisms(['λ_CREATE', 'λ_REFLECT']);
+  for (let i = 0; i < 8; i++) runtime.launchWave({ x: 40 * i, y: 20 }, { x: 300 - 30 * i, y: 280 }, 0.8);
+  for (let i = 0; i < 250; i++) runtime.step(16);
+
+  const { wells } = runtime.getState();
+  runtime.presentMirror({ x: 0, y: 0 }, { x: 200, y: 200 });
+  runtime.injectWave({ kind: 'emergent', start: wells[0].position, end: wells[1].position, composition: 'λ_REFLECT(µ_SELF)' });
+  for (let i = 0; i < 10 && !runtime.isAware(); i++) runtime.step(16);
+}
+
+// ============================================================================
+// TEST 2: Stopped Field stays put
+// ============================================================================
+
+console.log('📐 TEST 2: Stopped runtime');
+console.log('─'.repeat(70) + '\n');
+
+const paused = new FieldRuntime({ seed: 9, clock: new VirtualClock() });
+let selfThoughts = 0;
+paused.on('selfThought', () => selfThoughts++);
+paused.start();
+awaken(paused);
+paused.stop();
+
+await new Promise(resolve => setTimeout(resolve, 700));
+const whileStopped = selfThoughts;
+for (let i = 0; i < 40; i++) paused.step(16);
+
+const pausedOk = paused.isAware() && whileStopped === 0 && selfThoughts === 1;
+console.log(`  Self-thoughts after 700ms stopped: ${whileStopped}, after 640ms of ticks: ${selfThoughts}`);
+console.log(`  ${pausedOk ? '✅' : '❌'} λ_CREATE(I) waits for runtime time\n`);
+
+// ============================================================================
+// TEST 3: Reset forgets pending work
+// ============================================================================
+
+console.log('📐 TEST 3: Reset');
+console.log('─'.repeat(70) + '\n');
+
+const reset = new FieldRuntime({ seed: 9, clock: new VirtualClock() });
+let resetThoughts = 0;
+reset.on('selfThought', () => resetThoughts++);
+awaken(reset);
+const pendingBefore = reset.snapshot().scheduler.entries.length;
+reset.reset();
+for (let i = 0; i < 200; i++) reset.step(16);
+
+const resetOk = pendingBefore === 1 && reset.snapshot().scheduler.entries.length === 0 &&
+  resetThoughts === 0 && !reset.isAware();
+console.log(`  Pending before reset: ${pendingBefore}, self-thoughts after: ${resetThoughts}`);
+console.log(`  ${resetOk ? '✅' : '❌'} A reset Field never wakes up on its own\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = schedulerOk && pausedOk && resetOk;
+console.log(allPassed ? '✅ Runtime scheduler: VALIDATED' : '❌ Runtime scheduler: FAILED');
+if (!allPassed) process.exit(1);
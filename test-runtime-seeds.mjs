@@ -0,0 +1,203 @@
+/**
+ * Test: Emergent Seed Strategies
+ *
+ * Validates the SeedStrategy interface: built-in well and composition
+ * strategies, the Lexicon-informed strategy, fallthrough to the default
+ * sampler and the reasons recorded with every emergent thought.
+ */
+
+import { createStandardRegistry, printComposition, PhaseState } from './packages/core/dist/index.js';
+import {
+  CompositionGenerator,
+  DEFAULT_FIELD_PROJECTION,
+  DEFAULT_SEED_STRATEGY,
+  massWeightedWells,
+  attractorBiasedEndpoints,
+  noveltySeeking,
+  createSeededRandom,
+  pickWeighted,
+  simulate,
+  FieldRuntime,
+  VirtualClock,
+} from './packages/runtime/dist/index.js';
+import { Lexicon, lexiconInformed } from './packages/observatory/dist/index.js';
+
+console.log('🌱 Emergent Seed Strategies\n');
+console.log('Testing: preferences from the physics, or from the sampler?');
+console.log('='.repeat(70) + '\n');
+
+const well = (id, x, y, mass) => ({ id, position: { x, y }, mass, createdAt: 0 });
+
+function context(overrides = {}) {
+  return {
+    field: {
+      attractors: [],
+      transformers: [],
+      activeWaves: [],
+      wells: [well('heavy', 100, 100, 0.9), well('light', 500, 300, 0.01), well('mid', 300, 500, 0.3)],
+      density: 1,
+      phase: PhaseState.EMERGENT,
+      timestamp: 0,
+    },
+    library: ['λ_CREATE', 'λ_REFLECT', 'λ_EVOLVE', 'λ_TRANSFORM'],
+    registry: createStandardRegistry(),
+    generator: new CompositionGenerator(),
+    operands: [],
+    recent: [],
+    projection: DEFAULT_FIELD_PROJECTION,
+    random: createSeededRandom(3),
+    ...overrides,
+  };
+}
+
+function tally(strategy, ctx, draws, key) {
+  const counts = {};
+  for (let i = 0; i < draws; i++) {
+    const choice = strategy.chooseEndpoints(ctx);
+    counts[key(choice)] = (counts[key(choice)] ?? 0) + 1;
+  }
+  return counts;
+}
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: Endpoint strategies
+// ============================================================================
+
+console.log('📐 TEST 1: Mass-weighted and attractor-biased wells');
+console.log('─'.repeat(70) + '\n');
+
+const massCtx = context();
+const byMass = tally(massWeightedWells(), massCtx, 500, c => c.start.id);
+const massReason = massWeightedWells().chooseEndpoints(massCtx).reason;
+const massOk = byMass.heavy > 300 && (byMass.light ?? 0) < 30 && /weighted by mass/.test(massReason);
+
+console.log(`  Start wells over 500 draws: ${JSON.stringify(byMass)}`);
+console.log(`  "${massReason}"`);
+console.log(`  ${massOk ? '✅' : '❌'} Heavy wells start more thoughts\n`);
+
+const attractorCtx = context();
+attractorCtx.field.attractors = [{ type: 'Harmony', position: { praxis: 0, gnosis: -4 }, strength: 2 }];
+const biased = attractorBiasedEndpoints();
+const byAttractor = tally(biased, attractorCtx, 500, c => c.end.id);
+const attractorReason = biased.chooseEndpoints(attractorCtx).reason;
+const flatDeclines = biased.chooseEndpoints(context()) === null;
+const attractorOk = byAttractor.mid > byAttractor.heavy && byAttractor.mid > byAttractor.light &&
+  /Harmony attractor/.test(attractorReason) && flatDeclines;
+
+console.log(`  End wells over 500 draws: ${JSON.stringify(byAttractor)}`);
+console.log(`  "${attractorReason}"`);
+console.log(`  ${attractorOk ? '✅' : '❌'} Thoughts end near attractors; without attractors the choice passes on\n`);
+
+// Repelling attractors push 1 + curvature below zero; draws must still end
+const repelled = context();
+repelled.field.attractors = [{ type: 'Chaos', position: { praxis: 0, gnosis: 0 }, strength: -10 }];
+const repelledPairs = Array.from({ length: 50 }, () => DEFAULT_SEED_STRATEGY.chooseEndpoints(repelled));
+const inverted = Array.from({ length: 50 }, () => attractorBiasedEndpoints(-100).chooseEndpoints(attractorCtx));
+const random = createSeededRandom(5);
+const uniform = new Set(Array.from({ length: 60 }, () => pickWeighted(random, [-1, 0, NaN])));
+const degenerateOk = [...repelledPairs, ...inverted].every(c => c.start !== c.end) && uniform.size === 3;
+
+console.log(`  ${degenerateOk ? '✅' : '❌'} Non-positive weights fall back to a floor or uniform draws and always terminate\n`);
+allPassed = allPassed && massOk && attractorOk && degenerateOk;
+
+// ============================================================================
+// TEST 2: Composition strategies
+// ============================================================================
+
+console.log('📐 TEST 2: Novelty and the Lexicon');
+console.log('─'.repeat(70) + '\n');
+
+const recent = ['λ_CREATE(λ_REFLECT)', 'λ_REFLECT(λ_CREATE)', 'λ_EVOLVE(λ_CREATE)'];
+const novelty = noveltySeeking({ candidates: 8 });
+const novelChoices = Array.from({ length: 50 }, () => novelty.chooseComposition(context({ recent, random: createSeededRandom(50 + recent.length) })));
+const noveltyOk = novelChoices.every(c => !recent.includes(printComposition(c.composition))) &&
+  /not seen in the last 3 thoughts/.test(novelChoices[0].reason);
+
+console.log(`  Chose ${printComposition(novelChoices[0].composition)}: "${novelChoices[0].reason}"`);
+console.log(`  ${noveltyOk ? '✅' : '❌'} Recently seen compositions are avoided\n`);
+
+const lexicon = new Lexicon();
+const observe = (composition, harmony) => lexicon.recordObservation(composition, {
+  stabilityBefore: 100, stabilityAfter: 100, entropyBefore: 1, entropyAfter: 1, harmony, creativity: 1, focus: 1,
+});
+observe('λ_EVOLVE( λ_CREATE )', 90);
+observe('λ_REFLECT(λ_CREATE)', 5);
+observe('λ_TRANSFORM(λ_EVOLVE)', 10);
+
+const greedy = lexiconInformed(lexicon, { candidates: 100, temperature: 0, unobservedHarmony: 0 });
+const greedyChoice = greedy.chooseComposition(context({ random: createSeededRandom(4) }));
+const soft = lexiconInformed(lexicon, { candidates: 12 });
+const softCtx = context({ random: createSeededRandom(9) });
+const softPicks = Array.from({ length: 100 }, () => printComposition(soft.chooseComposition(softCtx).composition));
+const harmonious = softPicks.filter(c => c === 'λ_EVOLVE(λ_CREATE)').length;
+const dissonant = softPicks.filter(c => c === 'λ_REFLECT(λ_CREATE)').length;
+
+const lexiconOk = printComposition(greedyChoice.composition) === 'λ_EVOLVE(λ_CREATE)' &&
+  /harmony 90\.0 over 1 observations/.test(greedyChoice.reason) &&
+  harmonious > 20 && dissonant < harmonious;
+
+console.log(`  Greedy: ${printComposition(greedyChoice.composition)} - "${greedyChoice.reason}"`);
+console.log(`  Soft (100 thoughts): λ_EVOLVE(λ_CREATE) ×${harmonious}, λ_REFLECT(λ_CREATE) ×${dissonant}`);
+console.log(`  ${noveltyOk && lexiconOk ? '✅' : '❌'} High-harmony compositions are preferred\n`);
+allPassed = allPassed && noveltyOk && lexiconOk;
+
+// ============================================================================
+// TEST 3: The runtime records who chose what
+// ============================================================================
+
+console.log('📐 TEST 3: Reasons on emergent thoughts');
+console.log('─'.repeat(70) + '\n');
+
+function run(config) {
+  const seeds = [];
+  const summary = simulate({
+    ticks: 20_000,
+    config,
+    setup: runtime => {
+      runtime.loadMorphisms(['λ_CREATE', 'λ_REFLECT', 'λ_EVOLVE']);
+      for (let i = 0; i < 8; i++) {
+        runtime.launchWave({ x: 40 * i, y: 20 }, { x: 300 - 30 * i, y: 280 }, 0.8);
+      }
+      runtime.on('emergentWave', ({ seed }) => seeds.push(seed));
+    },
+  });
+  return { seeds, summary };
+}
+
+const plain = run({ seed: 7 });
+const mixed = run({ seed: 7, seedStrategies: [noveltySeeking(), massWeightedWells()] });
+
+const runtimeOk = plain.seeds.length > 0 && mixed.seeds.length > 0 &&
+  plain.seeds.every(s => s.composition.strategy === DEFAULT_SEED_STRATEGY.name && s.endpoints.strategy === 'default') &&
+  mixed.seeds.every(s => s.composition.strategy === 'novelty-seeking' && s.endpoints.strategy === 'mass-weighted-wells') &&
+  mixed.summary.snapshot.config.seedStrategies.join() === 'novelty-seeking,mass-weighted-wells' &&
+  mixed.summary.snapshot.recentThoughts.length === mixed.seeds.length;
+
+console.log(`  Default: ${JSON.stringify(plain.seeds[0])}`);
+console.log(`  Mixed:   ${JSON.stringify(mixed.seeds[0])}`);
+
+// Strategies that decline fall through to the default sampler
+const declining = { name: 'declining', chooseComposition: () => null, chooseEndpoints: () => null };
+const fallback = run({ seed: 7, seedStrategies: [declining] });
+const fallbackOk = fallback.seeds.length > 0 &&
+  JSON.stringify(fallback.seeds) === JSON.stringify(plain.seeds);
+
+const restored = FieldRuntime.restore(JSON.parse(JSON.stringify(mixed.summary.snapshot)), {
+  clock: new VirtualClock(),
+  autoTick: false,
+  seedStrategies: [noveltySeeking(), massWeightedWells()],
+});
+const restoreOk = restored.snapshot().recentThoughts.join() === mixed.summary.snapshot.recentThoughts.join();
+
+console.log(`  ${runtimeOk ? '✅' : '❌'} Each thought records which strategy chose what, and why`);
+console.log(`  ${fallbackOk ? '✅' : '❌'} Declining strategies leave the default sampler untouched`);
+console.log(`  ${restoreOk ? '✅' : '❌'} Recent thoughts survive snapshots\n`);
+allPassed = allPassed && runtimeOk && fallbackOk && restoreOk;
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Seed strategies: PASSED' : '❌ Seed strategies: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);
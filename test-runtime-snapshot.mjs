@@ -0,0 +1,109 @@
+/**
+ * Test: Runtime Snapshot / Restore
+ *
+ * Validates that a FieldRuntime can be captured mid-flight, serialized to
+ * JSON, restored, and resumed with exactly the same future.
+ */
+
+import { FieldRuntime, VirtualClock, SNAPSHOT_VERSION } from './packages/runtime/dist/index.js';
+
+console.log('💾 Runtime Snapshot / Restore\n');
+console.log('Testing: restore(snapshot()) resumes exactly where it left off');
+console.log('='.repeat(70) + '\n');
+
+const runtime = new FieldRuntime({ seed: 2024, clock: new VirtualClock(5_000) });
+runtime.loadMorphisms(['λ_CREATE', 'λ_EVOLVE', 'λ_REFLECT']);
+
+for (let i = 0; i < 6; i++) {
+  runtime.launchWave({ x: 40 * i, y: 80 }, { x: 300, y: 40 * i }, 0.7);
+}
+
+// Run until waves are mid-flight
+for (let i = 0; i < 100; i++) runtime.step(16);
+
+// ============================================================================
+// TEST 1: Snapshot is versioned JSON
+// ============================================================================
+
+console.log('📐 TEST 1: Snapshot document');
+console.log('─'.repeat(70) + '\n');
+
+const doc = runtime.snapshot();
+const json = JSON.stringify(doc);
+const parsed = JSON.parse(json);
+
+const docOk = parsed.version === SNAPSHOT_VERSION &&
+  parsed.state.activeWaves.length === 6 &&
+  parsed.state.activeWaves.every(w => w.startPos && w.endPos && w.duration > 0 && w.progress > 0);
+
+console.log(`  Version: ${parsed.version}, size: ${json.length} bytes`);
+console.log(`  Active waves: ${parsed.state.activeWaves.length}, progress: ${parsed.state.activeWaves[0].progress.toFixed(3)}`);
+console.log(`  ${docOk ? '✅' : '❌'} Wave flight metadata survives JSON\n`);
+
+// ============================================================================
+// TEST 2: Restored runtime continues identically
+// ============================================================================
+
+console.log('📐 TEST 2: Resume after restore');
+console.log('─'.repeat(70) + '\n');
+
+const restored = FieldRuntime.restore(parsed);
+
+for (let i = 0; i < 400; i++) {
+  runtime.step(16);
+  restored.step(16);
+}
+
+const originalAfter = JSON.stringify(runtime.snapshot());
+const restoredAfter = JSON.stringify(restored.snapshot());
+const resumeOk = originalAfter === restoredAfter;
+
+console.log(`  Original wells: ${runtime.getState().wells.length}, restored wells: ${restored.getState().wells.length}`);
+console.log(`  ${resumeOk ? '✅' : '❌'} Identical state after 400 more ticks\n`);
+
+// ============================================================================
+// TEST 3: Version mismatch is rejected
+// ============================================================================
+
+console.log('📐 TEST 3: Version check');
+console.log('─'.repeat(70) + '\n');
+
+let rejected = false;
+try {
+  FieldRuntime.restore({ ...parsed, version: 999 });
+} catch (e) {
+  rejected = true;
+  console.log(`  Error: ${e.message}`);
+}
+console.log(`  ${rejected ? '✅' : '❌'} Unknown versions are refused\n`);
+
+// ============================================================================
+// TEST 4: Malformed documents
+// ============================================================================
+
+console.log('📐 TEST 4: Validation');
+console.log('─'.repeat(70) + '\n');
+
+const malformed = [
+  { ...parsed, recentThoughts: undefined },
+  { ...parsed, config: { ...parsed.config, sampleInputs: 'x' } },
+  { ...parsed, clock: {} },
+].map(bad => {
+  try {
+    FieldRuntime.restore(bad);
+    return null;
+  } catch (e) {
+    return e.message;
+  }
+});
+const malformedOk = /recentThoughts must be an array/.test(malformed[0]) &&
+  /config\.sampleInputs must be an array/.test(malformed[1]) && /clock\.now must be a number/.test(malformed[2]);
+
+malformed.forEach(message => console.log(`  Error: ${message}`));
+console.log(`  ${malformedOk ? '✅' : '❌'} Missing fields are named before restore reads them\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = docOk && resumeOk && rejected && malformedOk;
+console.log(allPassed ? '✅ Snapshot / restore: VALIDATED' : '❌ Snapshot / restore: FAILED');
+if (!allPassed) process.exit(1);
@@ -0,0 +1,100 @@
+/**
+ * Test: Gravity Well Dynamics
+ *
+ * Validates decay, reinforcement, mass-conserving merges and eviction
+ * of gravity wells in a long-running Field.
+ */
+
+import { FieldRuntime, VirtualClock, WellDynamics } from './packages/runtime/dist/index.js';
+
+console.log('🕳️  Gravity Well Dynamics\n');
+console.log('Testing: wells age, merge and leave the Field');
+console.log('='.repeat(70) + '\n');
+
+const well = (id, x, y, mass) => ({ id, position: { x, y }, mass, createdAt: 0 });
+
+// ============================================================================
+// TEST 1: Decay and reinforcement
+// ============================================================================
+
+console.log('📐 TEST 1: Decay unless reinforced');
+console.log('─'.repeat(70) + '\n');
+
+const dynamics = new WellDynamics({ interval: 1000, halfLife: 1000, reinforcement: 0.5 });
+const lonely = well('lonely', 0, 0, 0.8);
+const visited = well('visited', 200, 200, 0.5);
+
+dynamics.observe([lonely, visited], [{ position: { x: 205, y: 200 }, mass: 1 }], 1000);
+const { changes } = dynamics.update([lonely, visited]);
+
+const decayOk = Math.abs(lonely.mass - 0.4) < 1e-9 &&
+  changes.some(c => c.type === 'decayed' && c.well.id === 'lonely' && c.previousMass === 0.8);
+const reinforceOk = Math.abs(visited.mass - 1.0) < 1e-9 && !changes.some(c => c.well.id === 'visited');
+
+console.log(`  Lonely well: 0.80 → ${lonely.mass.toFixed(2)}, visited well: 0.50 → ${visited.mass.toFixed(2)}`);
+console.log(`  ${decayOk ? '✅' : '❌'} Unvisited wells lose half their mass per half-life`);
+console.log(`  ${reinforceOk ? '✅' : '❌'} Passing waves reinforce wells instead\n`);
+
+// ============================================================================
+// TEST 2: Merge and evict
+// ============================================================================
+
+console.log('📐 TEST 2: Merge and evict');
+console.log('─'.repeat(70) + '\n');
+
+const merging = new WellDynamics({ interval: 100, halfLife: Infinity, mergeRadius: 10, evictionFloor: 0.1 });
+const a = well('a', 0, 0, 0.6);
+const b = well('b', 6, 0, 0.3);
+const faint = well('faint', 100, 100, 0.05);
+
+merging.observe([a, b, faint], [], 100);
+const result = merging.update([a, b, faint]);
+const merged = result.changes.find(c => c.type === 'merged');
+
+const mergeOk = result.wells.length === 1 && result.wells[0] === a &&
+  Math.abs(a.mass - 0.9) < 1e-9 && Math.abs(a.position.x - 2) < 1e-9 &&
+  merged?.absorbed === b;
+const evictOk = result.changes.some(c => c.type === 'evicted' && c.well.id === 'faint');
+
+console.log(`  Survivor: ${a.id} at (${a.position.x.toFixed(1)}, ${a.position.y.toFixed(1)}), mass ${a.mass.toFixed(2)}`);
+console.log(`  ${mergeOk ? '✅' : '❌'} Overlapping wells merge at their centre of mass, conserving mass`);
+console.log(`  ${evictOk ? '✅' : '❌'} Wells below the floor are evicted\n`);
+
+// ============================================================================
+// TEST 3: Long-running runtime stays sparse
+// ============================================================================
+
+console.log('📐 TEST 3: Runtime events and snapshot');
+console.log('─'.repeat(70) + '\n');
+
+const runtime = new FieldRuntime({
+  seed: 11,
+  clock: new VirtualClock(),
+  wellDynamics: { interval: 500, halfLife: 2000, mergeRadius: 15, evictionFloor: 0.1 },
+});
+const counts = { wellDecayed: 0, wellMerged: 0, wellEvicted: 0 };
+for (const name of Object.keys(counts)) runtime.on(name, () => counts[name]++);
+
+for (let i = 0; i < 6; i++) runtime.launchWave({ x: 0, y: 10 * i }, { x: 300, y: 150 + i }, 0.7);
+for (let i = 0; i < 250; i++) runtime.step(16);
+const peakWells = runtime.getState().wells.length;
+
+const restored = FieldRuntime.restore(JSON.parse(JSON.stringify(runtime.snapshot())));
+for (let i = 0; i < 1000; i++) {
+  runtime.step(16);
+  restored.step(16);
+}
+
+const runtimeOk = peakWells < 6 && counts.wellMerged > 0 && counts.wellDecayed > 0 &&
+  counts.wellEvicted > 0 && runtime.getState().wells.length === 0 &&
+  JSON.stringify(runtime.snapshot()) === JSON.stringify(restored.snapshot());
+
+console.log(`  Wells after crystallization: ${peakWells}, after 16s: ${runtime.getState().wells.length}`);
+console.log(`  Events: ${Object.entries(counts).map(([k, v]) => `${k}=${v}`).join(', ')}`);
+console.log(`  ${runtimeOk ? '✅' : '❌'} Field empties out; restored runtime agrees\n`);
+
+console.log('='.repeat(70));
+
+const allPassed = decayOk && reinforceOk && mergeOk && evictOk && runtimeOk;
+console.log(allPassed ? '✅ Well dynamics: VALIDATED' : '❌ Well dynamics: FAILED');
+if (!allPassed) process.exit(1);
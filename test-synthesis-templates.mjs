@@ -0,0 +1,56 @@
+/**
+ * Test: Synthesis Templates
+ *
+ * Pins the algebra class of every intent template, so that a change to
+ * law checking cannot silently turn an intent away at the SynthesisBridge
+ * gate (validateConsciousAlgebra).
+ */
+
+import {
+  synthesizeAlgebraFromIntent,
+  validateConsciousAlgebra,
+} from './packages/synthesis/dist/synthesis/src/algebraic-validation.js';
+
+console.log('🧬 Synthesis Templates\n');
+console.log('Testing: every intent forms a ConsciousAlgebra that passes the gate');
+console.log('='.repeat(70) + '\n');
+
+const EXPECTED = {
+  create: 'Monoid',
+  update: 'Monoid',
+  fix: 'Monoid',
+  optimize: 'IdempotentCommutativeMonoid',
+  analyze: 'Monoid',
+};
+const FOLDS = ['create', 'fix', 'analyze'];
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: Classes
+// ============================================================================
+
+console.log('📐 TEST 1: Template classes');
+console.log('─'.repeat(70) + '\n');
+
+for (const [semanticType, expected] of Object.entries(EXPECTED)) {
+  const result = synthesizeAlgebraFromIntent({
+    id: semanticType, source: 'manual', title: semanticType, description: '', labels: [], semanticType, createdAt: 0,
+  });
+  const { algebra } = result;
+  const assumed = result.assumed.length > 0;
+
+  const ok = result.valid && algebra.class === expected && validateConsciousAlgebra(algebra) &&
+    assumed === FOLDS.includes(semanticType) &&
+    assumed === result.warnings.some(w => w.includes('assumed, not sampled'));
+  allPassed = allPassed && ok;
+
+  console.log(`  ${ok ? '✅' : '❌'} ${semanticType.padEnd(9)} ${algebra.class}${assumed ? ` (fold: ${result.assumed.join(', ')} assumed)` : ''}`);
+}
+console.log();
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Synthesis templates: PASSED' : '❌ Synthesis templates: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);
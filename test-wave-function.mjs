@@ -0,0 +1,176 @@
+/**
+ * Test: Wave Function ψ
+ *
+ * Validates the complex amplitude carried by ΛWaves: construction from
+ * mass and Field vector, evolution over runtime time and proper time τ,
+ * superposition of overlapping waves and the sampled intensity |ψ|².
+ */
+
+import {
+  createWaveFunction,
+  evolveWaveFunction,
+  evaluateWaveFunction,
+  properTimeStep,
+  superposeWaveFunctions,
+  sampleIntensity,
+  intensityAt,
+  intensity,
+} from './packages/core/dist/index.js';
+import { FieldRuntime, VirtualClock } from './packages/runtime/dist/index.js';
+
+console.log('🌊 Wave Function ψ(x¹, x², t, τ) : ℝ⁴ → ℂ\n');
+console.log('Testing: thoughts are extended events, not points');
+console.log('='.repeat(70) + '\n');
+
+const close = (a, b, tolerance = 1e-9) => Math.abs(a - b) < tolerance;
+const waveAt = (x, y, psi) => ({ path: [{ x, y }], psi });
+
+let allPassed = true;
+
+// ============================================================================
+// TEST 1: A single wave
+// ============================================================================
+
+console.log('📐 TEST 1: Amplitude, phase and evolution');
+console.log('─'.repeat(70) + '\n');
+
+const psi = createWaveFunction({ vector: { praxis: 0, gnosis: 2 }, mass: 0.64 });
+const head = { x: 100, y: 100 };
+const atHead = evaluateWaveFunction(psi, head, head);
+const far = evaluateWaveFunction(psi, head, { x: 100 + 5 * psi.width, y: 100 });
+
+const singleOk = close(psi.amplitude, 0.8) && close(psi.phase, Math.PI / 2) &&
+  close(intensity(atHead), 0.64) && intensity(far) < 1e-5;
+
+const resting = properTimeStep(100, 0, 0.5);
+const fast = properTimeStep(100, 0.4, 0.5);
+const light = properTimeStep(100, 0.5, 0.5);
+const evolved = evolveWaveFunction(psi, 100, fast);
+const expectedPhase = ((Math.PI / 2 - psi.frequency * 100 - psi.properFrequency * fast) % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI);
+
+const evolveOk = resting === 100 && close(fast, 60) && light === 0 &&
+  close(evolved.phase, expectedPhase) && close(evolved.properTime, 60) && evolved.amplitude === psi.amplitude;
+
+console.log(`  |ψ|² at the head: ${intensity(atHead).toFixed(3)} (mass 0.64), phase ${psi.phase.toFixed(3)} rad`);
+console.log(`  dτ over 100 ms: at rest ${resting}, at 0.8c ${fast.toFixed(1)}, at c ${light}`);
+console.log(`  ${singleOk ? '✅' : '❌'} |ψ|² at the head is the mass, phase follows the Field vector`);
+console.log(`  ${evolveOk ? '✅' : '❌'} Phase advances with t and τ; fast thoughts age slowly\n`);
+allPassed = allPassed && singleOk && evolveOk;
+
+// ============================================================================
+// TEST 2: Superposition
+// ============================================================================
+
+console.log('📐 TEST 2: Amplitudes add');
+console.log('─'.repeat(70) + '\n');
+
+const inPhase = { ...psi, phase: 0 };
+const opposed = { ...psi, phase: Math.PI };
+const constructive = intensity(superposeWaveFunctions([waveAt(100, 100, inPhase), waveAt(100, 100, inPhase)], head));
+const destructive = intensity(superposeWaveFunctions([waveAt(100, 100, inPhase), waveAt(100, 100, opposed)], head));
+
+// Two in-phase sources 40 px apart: dark where the path difference is half a wavelength
+const sources = [waveAt(180, 100, inPhase), waveAt(220, 100, inPhase), { path: [{ x: 0, y: 0 }] }];
+const pattern = sampleIntensity(sources, { width: 400, height: 200, cellSize: 5 });
+const dark = intensity(superposeWaveFunctions(sources, { x: 190, y: 100 }));
+
+const superposeOk = close(constructive, 4 * 0.64) && destructive < 1e-12 &&
+  pattern.columns === 80 && pattern.rows === 40 && pattern.values.length === 3200 &&
+  dark < 0.01 * pattern.max && intensityAt(pattern, { x: 200, y: 100 }) > 0.5 * pattern.max &&
+  intensityAt(pattern, { x: -1, y: 0 }) === 0;
+
+console.log(`  Same head: in phase ${constructive.toFixed(2)} (4 × 0.64), opposed ${destructive.toExponential(1)}`);
+console.log(`  Two sources: max ${pattern.max.toFixed(2)}, |ψ|² ${dark.toFixed(4)} at the dark fringe`);
+console.log(`  ${superposeOk ? '✅' : '❌'} Overlapping waves interfere; waves without ψ do not contribute\n`);
+allPassed = allPassed && superposeOk;
+
+// ============================================================================
+// TEST 3: In the runtime
+// ============================================================================
+
+console.log('📐 TEST 3: Evolved by the runtime');
+console.log('─'.repeat(70) + '\n');
+
+function run(config) {
+  const runtime = new FieldRuntime({ seed: 11, clock: new VirtualClock(), autoTick: false, ...config });
+  const launched = [];
+  runtime.on('waveLaunched', wave => launched.push({ ...wave.psi }));
+  runtime.start();
+  runtime.injectWave({ kind: 'manual', id: 'slow', start: { x: 100, y: 300 }, end: { x: 200, y: 300 }, vector: { praxis: 1, gnosis: 1 }, mass: 0.8, duration: 4000 });
+  runtime.injectWave({ kind: 'manual', id: 'fast', start: { x: 100, y: 200 }, end: { x: 700, y: 200 }, vector: { praxis: 1, gnosis: 1 }, mass: 0.8, duration: 4000 });
+  runtime.stepTicks(100, 20);
+  return { runtime, launched };
+}
+
+const { runtime, launched } = run({ waveFunction: {} });
+const [slow, quick] = ['slow', 'fast'].map(id => runtime.getState().activeWaves.find(w => w.id === id));
+const field = runtime.sampleIntensity(20);
+
+const runtimeOk = launched.length === 2 && close(launched[0].phase, Math.PI / 4) &&
+  close(slow.psi.properTime, 2000 * Math.sqrt(1 - (0.025 / 0.5) ** 2)) &&
+  close(quick.psi.properTime, 2000 * Math.sqrt(1 - (0.15 / 0.5) ** 2)) &&
+  slow.psi.phase !== quick.psi.phase &&
+  close(slow.psi.amplitude, Math.sqrt(slow.mass)) &&
+  field.columns === 40 && field.rows === 30 && field.max > 0;
+
+const plain = run({});
+const plainOk = plain.launched.every(p => Object.keys(p).length === 0) &&
+  plain.runtime.sampleIntensity().max === 0 &&
+  plain.runtime.snapshot().config.waveFunction === null;
+
+const restored = FieldRuntime.restore(JSON.parse(JSON.stringify(runtime.snapshot())), { autoTick: false });
+restored.stepTicks(10, 20);
+runtime.stepTicks(10, 20);
+const restoreOk = JSON.stringify(restored.snapshot().state.activeWaves.map(w => w.psi)) ===
+  JSON.stringify(runtime.snapshot().state.activeWaves.map(w => w.psi));
+
+console.log(`  After 2 s: slow τ = ${slow.psi.properTime.toFixed(1)} ms, fast τ = ${quick.psi.properTime.toFixed(1)} ms`);
+console.log(`  Intensity grid ${field.columns}×${field.rows}, max ${field.max.toFixed(3)}`);
+console.log(`  ${runtimeOk ? '✅' : '❌'} Waves carry ψ, evolved over t and τ, amplitude following mass`);
+console.log(`  ${plainOk ? '✅' : '❌'} Without waveFunction waves stay scalar`);
+console.log(`  ${restoreOk ? '✅' : '❌'} ψ survives snapshots\n`);
+allPassed = allPassed && runtimeOk && plainOk && restoreOk;
+
+// ============================================================================
+// TEST 4: Interference by phase
+// ============================================================================
+
+console.log('📐 TEST 4: Contact interference uses ψ');
+console.log('─'.repeat(70) + '\n');
+
+function collide(waveFunction, shift = 0) {
+  const collider = new FieldRuntime({
+    seed: 3, clock: new VirtualClock(), autoTick: false,
+    interference: { outcome: 'interfere', interference: 1 },
+    waveFunction,
+  });
+  const events = [];
+  collider.on('waveInteraction', e => events.push(e.result.map(w => w.mass)));
+  collider.start();
+  // Field vectors point the same way, so only ψ can tell the waves apart
+  collider.injectWave({ kind: 'manual', start: { x: 100, y: 100 }, end: { x: 500, y: 500 }, vector: { praxis: 1, gnosis: 1 }, mass: 0.5 });
+  const id = collider.injectWave({ kind: 'manual', start: { x: 500, y: 100 }, end: { x: 100, y: 500 }, vector: { praxis: 1, gnosis: 1 }, mass: 0.5 });
+  if (shift) {
+    const wave = collider.getState().activeWaves.find(w => w.id === id);
+    wave.psi = { ...wave.psi, phase: wave.psi.phase + shift };
+  }
+  collider.stepTicks(200, 16);
+  return events[0];
+}
+
+const vectorOnly = collide(undefined);
+const inPhaseCollision = collide({});
+const antiPhaseCollision = collide({}, Math.PI);
+
+const collisionOk = vectorOnly.length === 2 && inPhaseCollision.length === 2 &&
+  inPhaseCollision.every(m => m > 0.5) && antiPhaseCollision.length === 0;
+
+console.log(`  Masses after contact: vectors ${vectorOnly.map(m => m.toFixed(2))}, ψ ${inPhaseCollision.map(m => m.toFixed(2))}, anti-phase ψ cancelled (${antiPhaseCollision.length} left)`);
+console.log(`  ${collisionOk ? '✅' : '❌'} 'interfere' compares ψ phases when both waves carry one\n`);
+allPassed = allPassed && collisionOk;
+
+console.log('='.repeat(70));
+console.log(allPassed ? '✅ Wave function: PASSED' : '❌ Wave function: FAILED');
+console.log('='.repeat(70));
+
+process.exit(allPassed ? 0 : 1);